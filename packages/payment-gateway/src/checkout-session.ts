@@ -0,0 +1,409 @@
+/**
+ * Checkout Session
+ * Drives a checkout end to end: gateway detection, tokenization, the backend
+ * submission and any 3D Secure next action, as an explicit state machine
+ */
+
+import type { PaymentGatewayManager } from './index';
+import {
+  AdyenAction,
+  GatewayName,
+  PaymentConfiguration,
+  PaymentError,
+  PaymentErrorCode,
+  PaymentMethodTokenInput,
+  PaymentMethodTokenResult
+} from './types';
+import { logger } from './utils/logger';
+import { PaymentEvent } from './utils/events';
+import { ThreeDSOptions, ThreeDSResult, ThreeDSStatus } from './utils/three-d-secure';
+
+export type CheckoutState =
+  | 'idle'
+  | 'detecting'
+  | 'collecting'
+  | 'tokenizing'
+  | 'submitting'
+  | 'requires_action'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled';
+
+/**
+ * Allowed transitions; anything else throws INVALID_STATE
+ */
+const CHECKOUT_TRANSITIONS: Record<CheckoutState, CheckoutState[]> = {
+  idle: ['detecting', 'canceled'],
+  detecting: ['collecting', 'failed', 'canceled'],
+  collecting: ['tokenizing', 'canceled'],
+  tokenizing: ['submitting', 'failed', 'canceled'],
+  submitting: ['requires_action', 'succeeded', 'failed', 'canceled'],
+  requires_action: ['submitting', 'succeeded', 'failed', 'canceled'],
+  succeeded: [],
+  failed: ['detecting', 'collecting', 'canceled'],
+  canceled: []
+};
+
+/**
+ * Outcome of the backend submission
+ * "processing" means the payment was accepted but has not settled yet
+ */
+export interface CheckoutSubmitResult {
+  status: 'succeeded' | 'processing' | 'requires_action' | 'failed';
+  transactionId?: string;
+  /** Stripe PaymentIntent client secret when status is requires_action */
+  clientSecret?: string;
+  /** Page to send the customer to when status is requires_action and there is no client secret */
+  redirectUrl?: string;
+  /** Braintree 3D Secure: amount in major units */
+  amount?: number;
+  /** Adyen: action returned by /payments when status is requires_action */
+  action?: AdyenAction;
+  error?: string;
+  /** Anything else the backend returned */
+  data?: unknown;
+}
+
+/**
+ * Sends the payment method token to the merchant backend to create the payment
+ */
+export type CheckoutSubmitHandler = (
+  token: PaymentMethodTokenResult,
+  configuration: PaymentConfiguration
+) => Promise<CheckoutSubmitResult>;
+
+export interface CheckoutSessionOptions {
+  /** Backend call that creates the payment from the token */
+  submit: CheckoutSubmitHandler;
+  /**
+   * Backend call made after a next action completes, for backends that confirm
+   * server-side; without it the 3D Secure result decides the outcome
+   */
+  confirm?: (threeDS: ThreeDSResult, payment: CheckoutSubmitResult) => Promise<CheckoutSubmitResult>;
+  /** Options passed to manager.authenticate(), e.g. the billing address */
+  threeDS?: ThreeDSOptions;
+}
+
+export interface CheckoutSessionResult {
+  state: CheckoutState;
+  gatewayName?: GatewayName;
+  token?: PaymentMethodTokenResult;
+  payment?: CheckoutSubmitResult;
+  threeDS?: ThreeDSResult;
+  error?: Error;
+}
+
+export type CheckoutStateListener = (state: CheckoutState, previous: CheckoutState) => void;
+
+/**
+ * Checkout state machine on top of PaymentGatewayManager
+ *
+ * idle -> detecting -> collecting -> tokenizing -> submitting
+ *   -> (requires_action -> submitting) -> succeeded | failed
+ * Any non-final state can move to canceled; failed can be retried.
+ */
+export class CheckoutSession {
+  private state: CheckoutState = 'idle';
+  private configuration: PaymentConfiguration | null = null;
+  private result: CheckoutSessionResult = { state: 'idle' };
+  private listeners: CheckoutStateListener[] = [];
+
+  constructor(
+    private manager: PaymentGatewayManager,
+    private options: CheckoutSessionOptions
+  ) {}
+
+  /**
+   * Get the current state
+   */
+  getState(): CheckoutState {
+    return this.state;
+  }
+
+  /**
+   * Get the detected payment configuration
+   */
+  getConfiguration(): PaymentConfiguration | null {
+    return this.configuration;
+  }
+
+  /**
+   * Get the token, backend result, 3D Secure result and error gathered so far
+   */
+  getResult(): CheckoutSessionResult {
+    return { ...this.result, state: this.state };
+  }
+
+  /**
+   * Subscribe to state changes
+   */
+  onStateChange(listener: CheckoutStateListener): () => void {
+    this.listeners.push(listener);
+
+    // Return unsubscribe function
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Check if a transition is allowed from the current state
+   */
+  canTransition(to: CheckoutState): boolean {
+    return CHECKOUT_TRANSITIONS[this.state].includes(to);
+  }
+
+  private transition(to: CheckoutState): void {
+    if (!this.canTransition(to)) {
+      throw new PaymentError(
+        PaymentErrorCode.INVALID_STATE,
+        `Invalid checkout transition: ${this.state} -> ${to}`,
+        { from: this.state, to }
+      );
+    }
+
+    const previous = this.state;
+    this.state = to;
+    logger.debug('Checkout state changed', { from: previous, to }, this.configuration?.gatewayName);
+
+    for (const listener of this.listeners) {
+      try {
+        listener(to, previous);
+      } catch (error) {
+        logger.error('Checkout state listener failed', error);
+      }
+    }
+  }
+
+  private isCanceled(): boolean {
+    return this.state === 'canceled';
+  }
+
+  /**
+   * Detect the active gateway and wait for card details
+   * Reuses the manager's configuration when detection already ran
+   */
+  async start(): Promise<PaymentConfiguration> {
+    this.transition('detecting');
+    return this.detect();
+  }
+
+  private async detect(): Promise<PaymentConfiguration> {
+    try {
+      const configuration = this.manager.getPaymentConfiguration() || await this.manager.detectGateway();
+
+      if (!this.isCanceled()) {
+        this.configuration = configuration;
+        this.result = { state: this.state, gatewayName: configuration.gatewayName };
+        this.transition('collecting');
+      }
+
+      return configuration;
+    } catch (error) {
+      this.fail(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Tokenize the collected payment details, submit them to the backend and
+   * complete any 3D Secure next action
+   *
+   * Resolves once the checkout succeeds, is declined, is canceled or redirects
+   * the customer for authentication. Rejects, after moving to failed, when
+   * tokenization or the backend call throws.
+   */
+  async submit(input?: PaymentMethodTokenInput): Promise<CheckoutSessionResult> {
+    this.transition('tokenizing');
+
+    const configuration = this.configuration!;
+    const gatewayName = configuration.gatewayName;
+
+    this.manager.events.emitSync(PaymentEvent.PAYMENT_STARTED, {
+      gateway: gatewayName,
+      metadata: { scenario: configuration.scenario }
+    });
+
+    try {
+      const token = await this.manager.getPaymentMethodToken(input);
+
+      if (this.isCanceled()) {
+        return this.getResult();
+      }
+
+      this.result = { state: this.state, gatewayName, token };
+      this.transition('submitting');
+
+      const payment = await this.options.submit(token, configuration);
+      return await this.handlePayment(payment);
+    } catch (error) {
+      if (this.isCanceled()) {
+        return this.getResult();
+      }
+
+      this.fail(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a failed checkout back to collecting (or detecting if detection failed)
+   */
+  async retry(): Promise<void> {
+    if (this.state !== 'failed') {
+      throw new PaymentError(
+        PaymentErrorCode.INVALID_STATE,
+        `Only a failed checkout can be retried (current state: ${this.state})`
+      );
+    }
+
+    if (this.configuration) {
+      this.result = { state: this.state, gatewayName: this.configuration.gatewayName };
+      this.transition('collecting');
+      return;
+    }
+
+    this.transition('detecting');
+    await this.detect();
+  }
+
+  /**
+   * Cancel the checkout; pending steps finish but their results are discarded
+   */
+  cancel(): void {
+    this.transition('canceled');
+    logger.info('Checkout canceled', undefined, this.configuration?.gatewayName);
+  }
+
+  /**
+   * Apply a backend result, running the next action when one is required
+   */
+  private async handlePayment(payment: CheckoutSubmitResult): Promise<CheckoutSessionResult> {
+    if (this.isCanceled()) {
+      return this.getResult();
+    }
+
+    this.result = { ...this.result, payment };
+
+    switch (payment.status) {
+      case 'succeeded':
+      case 'processing':
+        return this.succeed(payment);
+
+      case 'requires_action':
+        this.transition('requires_action');
+        return this.handleNextAction(payment);
+
+      default:
+        this.fail(new PaymentError(
+          PaymentErrorCode.PAYMENT_FAILED,
+          payment.error || 'Payment failed',
+          payment
+        ));
+        return this.getResult();
+    }
+  }
+
+  /**
+   * Send the customer to an authentication page; the session stays in requires_action
+   */
+  private redirectForAction(url: string): CheckoutSessionResult {
+    if (typeof window === 'undefined') {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        'Next action redirect is only available in browser environment'
+      );
+    }
+
+    logger.info('Redirecting for authentication...', { url: url.substring(0, 50) + '...' }, this.configuration?.gatewayName);
+    window.location.href = url;
+    return this.getResult();
+  }
+
+  /**
+   * Run 3D Secure through manager.authenticate(), or redirect the customer when
+   * the backend returned a redirect URL instead of a client secret
+   */
+  private async handleNextAction(payment: CheckoutSubmitResult): Promise<CheckoutSessionResult> {
+    if (!payment.clientSecret && payment.redirectUrl) {
+      return this.redirectForAction(payment.redirectUrl);
+    }
+
+    const threeDS = await this.manager.authenticate({
+      gatewayName: this.configuration!.gatewayName,
+      clientSecret: payment.clientSecret,
+      transactionId: payment.transactionId,
+      amount: payment.amount,
+      action: payment.action,
+      token: this.result.token
+    }, this.options.threeDS);
+
+    if (this.isCanceled()) {
+      return this.getResult();
+    }
+
+    this.result = { ...this.result, threeDS };
+
+    if (threeDS.status === ThreeDSStatus.REQUIRES_ACTION) {
+      // Without a URL the gateway SDK is already redirecting the customer
+      return threeDS.redirectUrl ? this.redirectForAction(threeDS.redirectUrl) : this.getResult();
+    }
+
+    if (this.options.confirm && threeDS.status !== ThreeDSStatus.FAILED) {
+      this.transition('submitting');
+      return this.handlePayment(await this.options.confirm(threeDS, payment));
+    }
+
+    switch (threeDS.status) {
+      case ThreeDSStatus.SUCCEEDED:
+        return this.succeed({ ...payment, status: 'succeeded' });
+      case ThreeDSStatus.PENDING:
+        return this.succeed({ ...payment, status: 'processing' });
+      default:
+        this.fail(new PaymentError(
+          PaymentErrorCode.PAYMENT_FAILED,
+          threeDS.error || '3D Secure authentication failed',
+          threeDS
+        ));
+        return this.getResult();
+    }
+  }
+
+  private succeed(payment: CheckoutSubmitResult): CheckoutSessionResult {
+    this.result = { ...this.result, payment };
+    this.transition('succeeded');
+
+    const gatewayName = this.configuration!.gatewayName;
+    const token = this.result.token?.token;
+    logger.info('Checkout completed', { status: payment.status }, gatewayName);
+
+    this.manager.events.emitSync(
+      payment.status === 'processing' ? PaymentEvent.PAYMENT_PENDING : PaymentEvent.PAYMENT_SUCCESS,
+      {
+        gateway: gatewayName,
+        data: payment,
+        token: token ? token.substring(0, 10) + '...' : undefined // Only log first 10 chars
+      }
+    );
+
+    return this.getResult();
+  }
+
+  private fail(error: unknown): void {
+    const wasPaying = this.state !== 'detecting';
+
+    this.result = { ...this.result, error: error as Error };
+    this.transition('failed');
+    logger.error('Checkout failed', error, this.configuration?.gatewayName);
+
+    if (wasPaying) {
+      this.manager.events.emitSync(PaymentEvent.PAYMENT_FAILED, {
+        gateway: this.configuration?.gatewayName,
+        error: error as Error
+      });
+    }
+  }
+}
@@ -0,0 +1,526 @@
+/**
+ * Adyen Payment Gateway Integration
+ * Framework-agnostic implementation
+ */
+
+import {
+  AdyenAction,
+  AdyenActionOptions,
+  AdyenAdditionalDetails,
+  AdyenCheckoutConfiguration,
+  AdyenCheckoutInstance,
+  AdyenComponent,
+  AdyenComponentMountOptions,
+  AdyenComponentState,
+  AdyenPaymentResponse,
+  AdyenTokenResult,
+  CardInput,
+  PaymentError,
+  PaymentErrorCode,
+  EnvironmentAdapter,
+  GatewayProvider,
+  GatewayCapabilities
+} from "../types";
+import { ScriptLoader } from "../utils";
+import { toSmallestUnit } from "../utils/currency";
+import { checkEnvironmentMismatch, getGatewayEnvironment } from "../utils/environment";
+
+const ADYEN_SDK_DEFAULT_VERSION = "5.68.0";
+
+/**
+ * Get the Adyen Web SDK base URL for the configured environment
+ */
+function getAdyenSdkBaseUrl(adapter: EnvironmentAdapter): string {
+  const environment = getGatewayEnvironment(adapter) === "sandbox" ? "test" : "live";
+  const version = adapter.getConfig("adyenSdkVersion") || ADYEN_SDK_DEFAULT_VERSION;
+  return `https://checkoutshopper-${environment}.adyen.com/checkoutshopper/sdk/${version}`;
+}
+
+/**
+ * Get the hosted client-side encryption library URL
+ * The library is generated per merchant and embeds their public key
+ */
+function getAdyenCseLibraryUrl(adapter: EnvironmentAdapter): string {
+  const token = adapter.getConfig("adyenCseLibraryToken");
+
+  if (!token) {
+    throw new PaymentError(
+      PaymentErrorCode.CONFIG_MISSING,
+      "Missing Adyen configuration: adyenCseLibraryToken required to encrypt card details"
+    );
+  }
+
+  const host = getGatewayEnvironment(adapter) === "sandbox" ? "test.adyen.com" : "live.adyen.com";
+  return `https://${host}/hpp/cse/js/${token}.shtml`;
+}
+
+/**
+ * Get Adyen client key from configuration
+ */
+function getAdyenClientKey(adapter: EnvironmentAdapter): string {
+  const key = adapter.getConfig("adyenClientKey");
+
+  if (!key) {
+    throw new PaymentError(
+      PaymentErrorCode.CONFIG_MISSING,
+      "Missing Adyen configuration: adyenClientKey required"
+    );
+  }
+
+  // The key prefix decides which Adyen environment accepts it
+  const keyEnvironment = key.startsWith("live_")
+    ? "production"
+    : key.startsWith("test_")
+      ? "sandbox"
+      : null;
+
+  checkEnvironmentMismatch("Adyen", "client key", keyEnvironment, adapter);
+
+  return key;
+}
+
+/**
+ * Load the Adyen Web stylesheet once
+ */
+function loadStylesheet(href: string): void {
+  if (Array.from(document.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"]')).some((link) => link.href === href)) {
+    return;
+  }
+
+  const link = document.createElement("link");
+  link.rel = "stylesheet";
+  link.href = href;
+  document.head.appendChild(link);
+}
+
+/**
+ * Submit action details to the backend, which calls /payments/details
+ * Calls /api/payments/adyen/payments/details
+ */
+async function submitPaymentDetails(
+  details: AdyenAdditionalDetails,
+  adapter: EnvironmentAdapter
+): Promise<AdyenPaymentResponse> {
+  const apiBaseUrl = adapter.getConfig("apiBaseUrl") || "";
+
+  console.debug("[Adyen] Submitting payment details...");
+
+  const response = await adapter.fetch(`${apiBaseUrl}/api/payments/adyen/payments/details`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify(details)
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || !data.resultCode) {
+    throw new PaymentError(
+      PaymentErrorCode.NETWORK_ERROR,
+      data.message || data.error || `Failed to submit Adyen payment details: ${response.status}`,
+      { status: response.status }
+    );
+  }
+
+  return data as AdyenPaymentResponse;
+}
+
+function toTokenResult(data: AdyenComponentState["data"]): AdyenTokenResult {
+  return {
+    gatewayName: "Adyen",
+    tokenType: "paymentMethodData",
+    token: JSON.stringify(data.paymentMethod),
+    paymentMethod: data.paymentMethod,
+    browserInfo: data.browserInfo
+  };
+}
+
+/**
+ * Adyen Gateway Provider
+ * Each instance owns its own Web SDK checkout and mounted Component
+ */
+export class AdyenGateway implements GatewayProvider {
+  readonly name = "Adyen";
+
+  readonly capabilities: GatewayCapabilities = {
+    cardTokenization: true,
+    threeDSecure: true,
+    hostedFields: true
+  };
+
+  private checkoutConfig: Pick<AdyenCheckoutConfiguration, "environment" | "clientKey"> | null = null;
+  private checkout: AdyenCheckoutInstance | null = null;
+  private adyenReadyPromise: Promise<void> | null = null;
+  private component: AdyenComponent | null = null;
+  private componentContainer: string | HTMLElement | null = null;
+  private pendingAction: {
+    resolve: (details: AdyenAdditionalDetails) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+
+  constructor(private scripts: ScriptLoader = new ScriptLoader()) {}
+
+  /**
+   * Initialize Adyen Web SDK
+   */
+  async initialize(adapter: EnvironmentAdapter): Promise<void> {
+    if (!adapter.isBrowser()) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Cannot initialize Adyen in server environment"
+      );
+    }
+
+    if (this.checkout) {
+      console.debug("[Adyen] Already initialized");
+      return;
+    }
+
+    if (this.adyenReadyPromise) {
+      console.debug("[Adyen] Already initializing, waiting...");
+      return this.adyenReadyPromise;
+    }
+
+    this.adyenReadyPromise = (async () => {
+      try {
+        console.debug("[Adyen] Starting initialization...");
+
+        const clientKey = getAdyenClientKey(adapter);
+        const baseUrl = getAdyenSdkBaseUrl(adapter);
+
+        loadStylesheet(`${baseUrl}/adyen.css`);
+        await this.scripts.load(`${baseUrl}/adyen.js`, adapter);
+
+        if (!window.AdyenCheckout) {
+          throw new PaymentError(
+            PaymentErrorCode.SDK_LOAD_FAILED,
+            "Adyen Web loaded but window.AdyenCheckout is undefined"
+          );
+        }
+
+        this.checkoutConfig = {
+          environment: getGatewayEnvironment(adapter) === "sandbox" ? "test" : "live",
+          clientKey
+        };
+        this.checkout = await this.createCheckout();
+
+        console.debug("[Adyen] Initialization complete");
+      } catch (error) {
+        this.adyenReadyPromise = null;
+        this.checkoutConfig = null;
+
+        if (error instanceof PaymentError) {
+          throw error;
+        }
+
+        throw new PaymentError(
+          PaymentErrorCode.SDK_LOAD_FAILED,
+          "Failed to initialize Adyen SDK",
+          error
+        );
+      }
+    })();
+
+    return this.adyenReadyPromise;
+  }
+
+  /**
+   * Create an AdyenCheckout instance that reports action results to handleAction()
+   */
+  private createCheckout(
+    options: Partial<AdyenCheckoutConfiguration> = {}
+  ): Promise<AdyenCheckoutInstance> {
+    return window.AdyenCheckout!({
+      ...this.checkoutConfig!,
+      ...options,
+      onAdditionalDetails: (state) => {
+        this.pendingAction?.resolve(state.data);
+      },
+      onError: (error) => {
+        console.debug("[Adyen] Component error:", error);
+        this.pendingAction?.reject(
+          new PaymentError(
+            PaymentErrorCode.TOKENIZATION_FAILED,
+            error?.message || "Adyen action failed",
+            error
+          )
+        );
+      }
+    });
+  }
+
+  /**
+   * Encrypt card details with the hosted client-side encryption library
+   * Each field is encrypted separately, as /payments expects for type "scheme"
+   */
+  async tokenize(card: CardInput, adapter: EnvironmentAdapter): Promise<AdyenTokenResult> {
+    try {
+      await this.scripts.load(getAdyenCseLibraryUrl(adapter), adapter);
+
+      if (!window.adyen?.encrypt) {
+        throw new PaymentError(
+          PaymentErrorCode.SDK_LOAD_FAILED,
+          "Adyen encryption library loaded but window.adyen.encrypt is undefined"
+        );
+      }
+
+      console.debug("[Adyen] Encrypting card details...");
+
+      const cse = window.adyen.encrypt.createEncryption({ enableValidations: true });
+      const generationtime = new Date().toISOString();
+      const encrypt = (field: string, value: string): string => {
+        const encrypted = cse.encrypt({ [field]: value, generationtime });
+
+        if (!encrypted) {
+          throw new PaymentError(
+            PaymentErrorCode.INVALID_CARD,
+            `Adyen rejected the card ${field}`
+          );
+        }
+
+        return encrypted;
+      };
+
+      const paymentMethod = {
+        type: "scheme",
+        encryptedCardNumber: encrypt("number", card.number.replace(/\s/g, "")),
+        encryptedExpiryMonth: encrypt("expiryMonth", card.expMonth.padStart(2, "0")),
+        encryptedExpiryYear: encrypt("expiryYear", card.expYear.length === 2 ? `20${card.expYear}` : card.expYear),
+        encryptedSecurityCode: encrypt("cvc", card.cvc)
+      };
+
+      console.debug("[Adyen] Card details encrypted");
+      return toTokenResult({ paymentMethod });
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        "Failed to encrypt Adyen card details",
+        error
+      );
+    }
+  }
+
+  /**
+   * Mount a Component (e.g. "card") or Drop-in into a container
+   * Card data is entered into Adyen iframes and encrypted before it reaches our JavaScript
+   */
+  async mountComponent(options: AdyenComponentMountOptions): Promise<void> {
+    if (!this.checkout) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Adyen SDK not initialized. Call initialize() first."
+      );
+    }
+
+    const type = options.type || "card";
+
+    if (type === "dropin" && !options.paymentMethodsResponse) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        "Adyen Drop-in requires the paymentMethodsResponse from your backend"
+      );
+    }
+
+    this.unmountComponent();
+
+    console.debug(`[Adyen] Mounting ${type} component...`);
+
+    const checkout = await this.createCheckout({
+      locale: options.locale,
+      paymentMethodsResponse: options.paymentMethodsResponse,
+      countryCode: options.countryCode,
+      amount: options.amount !== undefined && options.currency
+        ? { value: toSmallestUnit(options.amount, options.currency), currency: options.currency.toUpperCase() }
+        : undefined,
+      onChange: options.onChange
+    });
+
+    // The application submits the payment, so hide Adyen's own pay button
+    this.component = checkout
+      .create(type, { showPayButton: false, ...options.componentOptions })
+      .mount(options.container);
+    this.componentContainer = options.container;
+
+    console.debug(`[Adyen] ${type} component mounted`);
+  }
+
+  /**
+   * Get the payment method data from the mounted Component
+   */
+  async tokenizeComponent(): Promise<AdyenTokenResult> {
+    if (!this.component) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Adyen Component not mounted. Call mountComponent() first."
+      );
+    }
+
+    if (!this.component.isValid) {
+      // Highlights the empty and invalid fields
+      this.component.showValidation();
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        "Adyen payment details are incomplete or invalid"
+      );
+    }
+
+    const data = this.component.data;
+
+    if (!data?.paymentMethod) {
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        "Adyen Component returned no payment method data"
+      );
+    }
+
+    console.debug(`[Adyen] Payment method data created: ${data.paymentMethod.type}`);
+    return toTokenResult(data);
+  }
+
+  /**
+   * Check if a Component or Drop-in is mounted
+   */
+  hasMountedComponent(): boolean {
+    return this.component !== null;
+  }
+
+  /**
+   * Unmount the Component or Drop-in
+   */
+  unmountComponent(): void {
+    if (!this.component) {
+      return;
+    }
+
+    try {
+      this.component.unmount();
+    } catch (error) {
+      console.debug("[Adyen] Component unmount failed:", error);
+    }
+
+    this.component = null;
+    this.componentContainer = null;
+  }
+
+  /**
+   * Handle the action returned by /payments
+   *
+   * - redirect: sends the shopper to the issuer or payment method page; resolves with RedirectShopper
+   * - threeDS2 / await / qrCode: mounts the action component, submits its details to the
+   *   backend and repeats for any follow-up action until a final resultCode comes back
+   */
+  async handleAction(
+    action: AdyenAction,
+    adapter: EnvironmentAdapter,
+    options: AdyenActionOptions = {}
+  ): Promise<AdyenPaymentResponse> {
+    if (!this.checkout) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Adyen SDK not initialized. Call initialize() first."
+      );
+    }
+
+    let current = action;
+    let response: AdyenPaymentResponse;
+
+    // Follow-up actions (e.g. a challenge after a fingerprint) repeat the loop
+    do {
+      if (current.type === "redirect") {
+        console.debug("[Adyen] Redirecting shopper...");
+        // Adyen Web submits POST redirects through a form and navigates for GET ones
+        this.checkout.createFromAction(current).mount(document.body.appendChild(document.createElement("div")));
+        return { resultCode: "RedirectShopper", action: current };
+      }
+
+      const container = options.container || this.componentContainer;
+
+      if (!container) {
+        throw new PaymentError(
+          PaymentErrorCode.VALIDATION_ERROR,
+          `A container is required to handle the Adyen ${current.type} action`
+        );
+      }
+
+      if (current.type === "threeDS2" && current.subtype === "challenge") {
+        options.onChallenge?.();
+      }
+
+      const details = await this.runAction(current, container, options);
+      response = await submitPaymentDetails(details, adapter);
+
+      console.debug(`[Adyen] Payment details result: ${response.resultCode}`);
+
+      if (response.action) {
+        current = response.action;
+      }
+    } while (response.action);
+
+    return response;
+  }
+
+  /**
+   * Mount an action component and wait for its onAdditionalDetails data
+   */
+  private runAction(
+    action: AdyenAction,
+    container: string | HTMLElement,
+    options: AdyenActionOptions
+  ): Promise<AdyenAdditionalDetails> {
+    return new Promise<AdyenAdditionalDetails>((resolve, reject) => {
+      console.debug(`[Adyen] Handling ${action.type} action...`);
+
+      const component = this.checkout!.createFromAction(action, {
+        challengeWindowSize: options.challengeWindowSize
+      });
+      component.mount(container);
+
+      const settle = () => {
+        this.pendingAction = null;
+
+        try {
+          component.unmount();
+        } catch (error) {
+          console.debug("[Adyen] Action component unmount failed:", error);
+        }
+      };
+
+      this.pendingAction = {
+        resolve: (details) => {
+          settle();
+          resolve(details);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        }
+      };
+    });
+  }
+
+  /**
+   * Reset Adyen instance
+   */
+  reset(): void {
+    this.unmountComponent();
+    this.pendingAction?.reject(
+      new PaymentError(PaymentErrorCode.CANCELED, "Adyen gateway was reset")
+    );
+    this.checkout = null;
+    this.checkoutConfig = null;
+    this.adyenReadyPromise = null;
+    console.debug("[Adyen] Reset complete");
+  }
+
+  /**
+   * Check if Adyen is ready
+   */
+  isReady(): boolean {
+    return this.checkout !== null;
+  }
+}
@@ -8,16 +8,55 @@ import {
   PaymentError,
   PaymentErrorCode,
   AuthNetAuthData,
+  AuthNetBankData,
   AuthNetCardData,
   AuthNetResponse,
-  EnvironmentAdapter
+  AuthorizeNetOpaqueData,
+  BankAccountInput,
+  BankAccountProvider,
+  BankAccountTokenResult,
+  AuthorizeNetTokenResult,
+  EnvironmentAdapter,
+  GatewayProvider,
+  GatewayCapabilities,
+  WalletAvailability,
+  WalletPaymentRequest,
+  WalletProvider
 } from "../types";
-import { loadScript } from "../utils";
+import { ScriptLoader } from "../utils";
+import { getGatewayEnvironment } from "../utils/environment";
+import {
+  NO_WALLETS,
+  beginApplePaySession,
+  completeWalletPayment,
+  createApplePayRequest,
+  isApplePayAvailable,
+  selectWalletType,
+  toWalletError
+} from "../utils/wallets";
 
 const AUTHNET_ACCEPT_JS_URL = "https://js.authorize.net/v3/Accept.js";
+const AUTHNET_ACCEPT_JS_SANDBOX_URL = "https://jstest.authorize.net/v3/Accept.js";
 
-let acceptJsReady = false;
-let acceptJsReadyPromise: Promise<void> | null = null;
+/**
+ * Accept.js opaque data can only be used for 15 minutes
+ */
+const OPAQUE_DATA_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Opaque data descriptor for Apple Pay payment data
+ */
+const AUTHNET_APPLE_PAY_DESCRIPTOR = "COMMON.APPLE.INAPP.PAYMENT";
+
+/**
+ * Get the Accept.js URL for the configured environment
+ * Sandbox credentials are rejected by the production Accept.js and vice versa
+ */
+function getAcceptJsUrl(adapter: EnvironmentAdapter): string {
+  return getGatewayEnvironment(adapter) === "sandbox"
+    ? AUTHNET_ACCEPT_JS_SANDBOX_URL
+    : AUTHNET_ACCEPT_JS_URL;
+}
 
 /**
  * Get Authorize.Net credentials from configuration
@@ -40,157 +79,317 @@ function getAuthNetAuthData(adapter: EnvironmentAdapter): AuthNetAuthData {
 }
 
 /**
- * Initialize Authorize.Net Accept.js SDK
+ * Request an Apple Pay merchant session from the backend
+ * Calls /api/payments/authorizenet/apple-pay/merchant-session, which signs the
+ * validation request with the merchant identity certificate
  */
-export async function initializeAuthorizeNet(adapter: EnvironmentAdapter): Promise<void> {
-  if (!adapter.isBrowser()) {
+async function fetchApplePayMerchantSession(
+  validationURL: string,
+  displayName: string,
+  adapter: EnvironmentAdapter
+): Promise<unknown> {
+  const apiBaseUrl = adapter.getConfig("apiBaseUrl") || "";
+
+  console.debug("[Authorize.Net] Requesting Apple Pay merchant session...");
+
+  const response = await adapter.fetch(
+    `${apiBaseUrl}/api/payments/authorizenet/apple-pay/merchant-session`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        validationURL,
+        displayName,
+        domainName: window.location.hostname
+      })
+    }
+  );
+
+  if (!response.ok) {
     throw new PaymentError(
-      PaymentErrorCode.SDK_LOAD_FAILED,
-      "Cannot initialize Authorize.Net in server environment"
+      PaymentErrorCode.NETWORK_ERROR,
+      `Failed to get Apple Pay merchant session: ${response.status}`,
+      { status: response.status }
     );
   }
 
-  if (acceptJsReady && window.Accept) {
-    console.debug("[Authorize.Net] Already initialized");
-    return;
-  }
+  return response.json();
+}
 
-  if (acceptJsReadyPromise) {
-    console.debug("[Authorize.Net] Already initializing, waiting...");
-    return acceptJsReadyPromise;
-  }
+/**
+ * Authorize.Net Gateway Provider
+ * Each instance owns its own Accept.js readiness state
+ */
+export class AuthorizeNetGateway implements GatewayProvider, WalletProvider, BankAccountProvider {
+  readonly name = "Authorize.Net";
 
-  acceptJsReadyPromise = (async () => {
-    try {
-      console.debug("[Authorize.Net] Starting initialization...");
+  readonly capabilities: GatewayCapabilities = {
+    cardTokenization: true,
+    threeDSecure: true,
+    hostedFields: false
+  };
+
+  readonly requiresBankAccountDetails = true;
+
+  private acceptJsReady = false;
+  private acceptJsReadyPromise: Promise<void> | null = null;
+
+  constructor(private scripts: ScriptLoader = new ScriptLoader()) {}
 
-      await loadScript(AUTHNET_ACCEPT_JS_URL, adapter);
+  /**
+   * Initialize Authorize.Net Accept.js SDK
+   */
+  async initialize(adapter: EnvironmentAdapter): Promise<void> {
+    if (!adapter.isBrowser()) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Cannot initialize Authorize.Net in server environment"
+      );
+    }
+
+    if (this.acceptJsReady && window.Accept) {
+      console.debug("[Authorize.Net] Already initialized");
+      return;
+    }
+
+    if (this.acceptJsReadyPromise) {
+      console.debug("[Authorize.Net] Already initializing, waiting...");
+      return this.acceptJsReadyPromise;
+    }
+
+    this.acceptJsReadyPromise = (async () => {
+      try {
+        console.debug("[Authorize.Net] Starting initialization...");
+
+        await this.scripts.load(getAcceptJsUrl(adapter), adapter);
+
+        if (!window.Accept) {
+          throw new PaymentError(
+            PaymentErrorCode.SDK_LOAD_FAILED,
+            "Accept.js loaded but window.Accept is undefined"
+          );
+        }
+
+        getAuthNetAuthData(adapter);
+
+        this.acceptJsReady = true;
+        console.debug("[Authorize.Net] Initialization complete");
+      } catch (error) {
+        this.acceptJsReadyPromise = null;
+
+        if (error instanceof PaymentError) {
+          throw error;
+        }
 
-      if (!window.Accept) {
         throw new PaymentError(
           PaymentErrorCode.SDK_LOAD_FAILED,
-          "Accept.js loaded but window.Accept is undefined"
+          "Failed to initialize Authorize.Net SDK",
+          error
         );
       }
+    })();
 
-      getAuthNetAuthData(adapter);
-
-      acceptJsReady = true;
-      console.debug("[Authorize.Net] Initialization complete");
-    } catch (error) {
-      acceptJsReadyPromise = null;
-
-      if (error instanceof PaymentError) {
-        throw error;
-      }
+    return this.acceptJsReadyPromise;
+  }
 
+  /**
+   * Send card or bank data to Accept.js and return the opaque data
+   */
+  private async dispatchSecureData(
+    secureData: { cardData: AuthNetCardData } | { bankData: AuthNetBankData },
+    adapter: EnvironmentAdapter
+  ): Promise<AuthorizeNetOpaqueData> {
+    if (!this.isReady()) {
       throw new PaymentError(
-        PaymentErrorCode.SDK_LOAD_FAILED,
-        "Failed to initialize Authorize.Net SDK",
-        error
+        PaymentErrorCode.NOT_READY,
+        "Authorize.Net SDK not initialized. Call initialize() first."
       );
     }
-  })();
 
-  return acceptJsReadyPromise;
-}
+    return new Promise((resolve, reject) => {
+      try {
+        console.debug("[Authorize.Net] Creating payment nonce...");
 
-/**
- * Create payment nonce from card details
- */
-export async function createAuthorizeNetToken(
-  card: CardInput,
-  adapter: EnvironmentAdapter
-): Promise<string> {
-  if (!acceptJsReady || !window.Accept) {
-    throw new PaymentError(
-      PaymentErrorCode.NOT_READY,
-      "Authorize.Net SDK not initialized. Call initializeAuthorizeNet() first."
-    );
-  }
+        const authData = getAuthNetAuthData(adapter);
 
-  return new Promise((resolve, reject) => {
-    try {
-      console.debug("[Authorize.Net] Creating payment nonce...");
-
-      const authData = getAuthNetAuthData(adapter);
-
-      const cardData: AuthNetCardData = {
-        cardNumber: card.number.replace(/\s/g, ""),
-        month: card.expMonth.padStart(2, "0"),
-        year: card.expYear,
-        cardCode: card.cvc
-      };
-
-      window.Accept!.dispatchData(
-        {
-          authData,
-          cardData
-        },
-        (response: AuthNetResponse) => {
-          if (response.messages.resultCode === "Error") {
-            const errorMsg =
-              response.messages.message[0]?.text ||
-              "Unknown error from Authorize.Net";
-
-            reject(
-              new PaymentError(
-                PaymentErrorCode.INVALID_CARD,
-                errorMsg,
-                { response }
-              )
-            );
-            return;
-          }
+        window.Accept!.dispatchData(
+          {
+            authData,
+            ...secureData
+          },
+          (response: AuthNetResponse) => {
+            if (response.messages.resultCode === "Error") {
+              const errorMsg =
+                response.messages.message[0]?.text ||
+                "Unknown error from Authorize.Net";
+
+              reject(
+                new PaymentError(
+                  PaymentErrorCode.INVALID_CARD,
+                  errorMsg,
+                  { response }
+                )
+              );
+              return;
+            }
 
-          if (!response.opaqueData?.dataValue) {
-            reject(
-              new PaymentError(
-                PaymentErrorCode.TOKENIZATION_FAILED,
-                "Authorize.Net returned no opaque data value",
-                { response }
-              )
+            if (!response.opaqueData?.dataValue || !response.opaqueData.dataDescriptor) {
+              reject(
+                new PaymentError(
+                  PaymentErrorCode.TOKENIZATION_FAILED,
+                  "Authorize.Net returned incomplete opaque data",
+                  { response }
+                )
+              );
+              return;
+            }
+
+            const { dataDescriptor, dataValue } = response.opaqueData;
+            console.debug(
+              `[Authorize.Net] Payment nonce created: ${dataValue.substring(0, 20)}...`
             );
-            return;
+
+            resolve({
+              dataDescriptor,
+              dataValue,
+              expiresAt: new Date(Date.now() + OPAQUE_DATA_TTL_MS).toISOString()
+            });
           }
+        );
+      } catch (error) {
+        if (error instanceof PaymentError) {
+          reject(error);
+          return;
+        }
 
-          const token = response.opaqueData.dataValue;
-          console.debug(
-            `[Authorize.Net] Payment nonce created: ${token.substring(0, 20)}...`
-          );
+        reject(
+          new PaymentError(
+            PaymentErrorCode.TOKENIZATION_FAILED,
+            "Failed to create Authorize.Net payment nonce",
+            error
+          )
+        );
+      }
+    });
+  }
 
-          resolve(token);
+  /**
+   * Create opaque data (payment nonce) from card details
+   */
+  async tokenize(card: CardInput, adapter: EnvironmentAdapter): Promise<AuthorizeNetTokenResult> {
+    const opaqueData = await this.dispatchSecureData(
+      {
+        cardData: {
+          cardNumber: card.number.replace(/\s/g, ""),
+          month: card.expMonth.padStart(2, "0"),
+          year: card.expYear,
+          cardCode: card.cvc
         }
-      );
-    } catch (error) {
-      if (error instanceof PaymentError) {
-        reject(error);
-        return;
-      }
+      },
+      adapter
+    );
 
-      reject(
-        new PaymentError(
-          PaymentErrorCode.TOKENIZATION_FAILED,
-          "Failed to create Authorize.Net payment nonce",
-          error
-        )
-      );
+    return {
+      gatewayName: "Authorize.Net",
+      tokenType: "opaqueData",
+      token: opaqueData.dataValue,
+      opaqueData
+    };
+  }
+
+  /**
+   * Create eCheck opaque data from bank account details
+   */
+  async tokenizeBankAccount(
+    bankAccount: BankAccountInput,
+    adapter: EnvironmentAdapter
+  ): Promise<BankAccountTokenResult> {
+    const accountNumber = (bankAccount.accountNumber || "").replace(/\D/g, "");
+
+    const opaqueData = await this.dispatchSecureData(
+      {
+        bankData: {
+          accountNumber,
+          routingNumber: (bankAccount.routingNumber || "").replace(/\D/g, ""),
+          nameOnAccount: bankAccount.accountHolderName.trim().substring(0, 22),
+          accountType: bankAccount.accountType
+        }
+      },
+      adapter
+    );
+
+    return {
+      gatewayName: "Authorize.Net",
+      tokenType: "bankAccount",
+      token: opaqueData.dataValue,
+      accountType: bankAccount.accountType,
+      last4: accountNumber.slice(-4),
+      opaqueData
+    };
+  }
+
+  /**
+   * Check which wallets can be presented
+   * Authorize.Net accepts Apple Pay payment data as opaque data; Google Pay is not supported
+   */
+  async canMakeWalletPayment(): Promise<WalletAvailability> {
+    return { ...NO_WALLETS, applePay: isApplePayAvailable() };
+  }
+
+  /**
+   * Present the Apple Pay sheet and wrap the payment data as opaque data
+   * Must be called from a user gesture (click handler)
+   */
+  async tokenizeWallet(
+    request: WalletPaymentRequest,
+    adapter: EnvironmentAdapter
+  ): Promise<AuthorizeNetTokenResult> {
+    selectWalletType(request, await this.canMakeWalletPayment(), this.name);
+
+    try {
+      console.debug("[Authorize.Net] Starting Apple Pay session...");
+
+      return await beginApplePaySession(createApplePayRequest(request), {
+        validateMerchant: (validationURL) =>
+          fetchApplePayMerchantSession(validationURL, request.label, adapter),
+        authorize: async (token) => {
+          // Authorize.Net expects the base64 encoded Apple Pay paymentData as dataValue
+          const dataValue = btoa(JSON.stringify(token.paymentData));
+          console.debug("[Authorize.Net] Apple Pay payment data received");
+
+          return completeWalletPayment<AuthorizeNetTokenResult>(request, {
+            gatewayName: "Authorize.Net",
+            tokenType: "opaqueData",
+            token: dataValue,
+            opaqueData: {
+              dataDescriptor: AUTHNET_APPLE_PAY_DESCRIPTOR,
+              dataValue,
+              expiresAt: new Date(Date.now() + OPAQUE_DATA_TTL_MS).toISOString()
+            },
+            walletType: "applePay"
+          });
+        }
+      });
+    } catch (error) {
+      throw toWalletError(error, "Failed to tokenize Authorize.Net Apple Pay payment");
     }
-  });
-}
+  }
 
-/**
- * Reset Authorize.Net state
- */
-export function resetAuthorizeNet(): void {
-  acceptJsReady = false;
-  acceptJsReadyPromise = null;
-  console.debug("[Authorize.Net] Reset complete");
-}
+  /**
+   * Reset Authorize.Net state
+   */
+  reset(): void {
+    this.acceptJsReady = false;
+    this.acceptJsReadyPromise = null;
+    console.debug("[Authorize.Net] Reset complete");
+  }
 
-/**
- * Check if Authorize.Net is ready
- */
-export function isAuthorizeNetReady(): boolean {
-  return acceptJsReady && typeof window !== "undefined" && !!window.Accept;
+  /**
+   * Check if Authorize.Net is ready
+   */
+  isReady(): boolean {
+    return this.acceptJsReady && typeof window !== "undefined" && !!window.Accept;
+  }
 }
@@ -4,16 +4,93 @@
  */
 
 import {
+  BankAccountInput,
+  BankAccountProvider,
+  BankAccountTokenResult,
   CardInput,
   PaymentError,
   PaymentErrorCode,
   BraintreeClientInstance,
-  EnvironmentAdapter
+  BraintreeHostedFieldsOptions,
+  BraintreeHostedFieldsInstance,
+  BraintreeHostedFieldsEvent,
+  BraintreeHostedFieldsState,
+  BraintreeTokenResult,
+  BraintreeApplePayInstance,
+  BraintreeGooglePaymentInstance,
+  BraintreeInstrumentType,
+  BraintreePayPalCheckoutInstance,
+  BraintreePayPalOptions,
+  BraintreeThreeDSecureInstance,
+  BraintreeUsBankAccountInstance,
+  BraintreeVenmoInstance,
+  BraintreeVenmoOptions,
+  PayPalButtonsInstance,
+  GooglePaymentsClient,
+  EnvironmentAdapter,
+  GatewayProvider,
+  GatewayCapabilities,
+  WalletAvailability,
+  WalletPaymentRequest,
+  WalletProvider
 } from "../types";
-import { loadScript } from "../utils";
+import { ScriptLoader } from "../utils";
+import { getCurrencyDecimals } from "../utils/currency";
+import { checkEnvironmentMismatch, GatewayEnvironment } from "../utils/environment";
+import {
+  GOOGLE_PAY_API_VERSION,
+  NO_WALLETS,
+  beginApplePaySession,
+  completeWalletPayment,
+  createApplePayRequest,
+  createGooglePayTransactionInfo,
+  createGooglePaymentsClient,
+  getGooglePayMerchantId,
+  isApplePayAvailable,
+  toWalletError
+} from "../utils/wallets";
+
+const BRAINTREE_JS_BASE_URL = "https://js.braintreegateway.com/web";
+const BRAINTREE_DEFAULT_SDK_VERSION = "3.97.2";
+
+const HOSTED_FIELDS_EVENTS: BraintreeHostedFieldsEvent[] = [
+  "validityChange",
+  "cardTypeChange",
+  "empty",
+  "notEmpty",
+  "focus",
+  "blur"
+];
+
+/**
+ * Get the URL of a Braintree JS SDK component
+ * The same SDK serves sandbox and production; the client token selects the environment
+ */
+function getBraintreeSdkUrl(component: string, adapter: EnvironmentAdapter): string {
+  const version = adapter.getConfig("braintreeSdkVersion") || BRAINTREE_DEFAULT_SDK_VERSION;
+  return `${BRAINTREE_JS_BASE_URL}/${version}/js/${component}.min.js`;
+}
+
+/**
+ * Read the environment a client token or tokenization key was issued for
+ * Client tokens are base64 encoded JSON; tokenization keys are prefixed with the environment
+ */
+function getClientTokenEnvironment(clientToken: string): GatewayEnvironment | null {
+  if (clientToken.startsWith("sandbox_")) {
+    return "sandbox";
+  }
+
+  if (clientToken.startsWith("production_")) {
+    return "production";
+  }
 
-let braintreeClientToken: string | null = null;
-let braintreeReadyPromise: Promise<void> | null = null;
+  try {
+    const { environment } = JSON.parse(atob(clientToken));
+    return environment === "sandbox" || environment === "production" ? environment : null;
+  } catch {
+    return null;
+  }
+}
 
 /**
  * Fetch client token from backend
@@ -52,6 +129,12 @@ async function fetchClientToken(adapter: EnvironmentAdapter): Promise<string> {
     }
 
     console.debug("[Braintree] Client token received");
+    checkEnvironmentMismatch(
+      "Braintree",
+      "client token",
+      getClientTokenEnvironment(data.clientToken),
+      adapter
+    );
     return data.clientToken;
   } catch (error) {
     if (error instanceof PaymentError) {
@@ -67,132 +150,898 @@ async function fetchClientToken(adapter: EnvironmentAdapter): Promise<string> {
 }
 
 /**
- * Initialize Braintree SDK
+ * Wrap a payment method nonce as a token result
  */
-export async function initializeBraintree(adapter: EnvironmentAdapter): Promise<void> {
-  if (!adapter.isBrowser()) {
-    throw new PaymentError(
-      PaymentErrorCode.SDK_LOAD_FAILED,
-      "Cannot initialize Braintree in server environment"
-    );
-  }
+function toTokenResult(
+  nonce: string,
+  instrumentType: BraintreeInstrumentType,
+  extras: Pick<BraintreeTokenResult, "walletType" | "accountDetails" | "bin"> = {}
+): BraintreeTokenResult {
+  return {
+    gatewayName: "Braintree",
+    tokenType: "nonce",
+    token: nonce,
+    instrumentType,
+    ...extras
+  };
+}
+
+/**
+ * Venmo tokenize error codes raised when the buyer backs out
+ */
+const VENMO_CANCELED_CODES = ["VENMO_CANCELED", "VENMO_APP_CANCELED", "VENMO_DESKTOP_CANCELED"];
+
+/**
+ * Braintree Google Pay component paired with the Google Pay client that presents it
+ */
+interface BraintreeGooglePayment {
+  instance: BraintreeGooglePaymentInstance;
+  paymentsClient: GooglePaymentsClient;
+}
+
+/**
+ * Braintree Gateway Provider
+ * Each instance owns its own client token and readiness state
+ */
+export class BraintreeGateway implements GatewayProvider, WalletProvider, BankAccountProvider {
+  readonly name = "Braintree";
+
+  readonly capabilities: GatewayCapabilities = {
+    cardTokenization: true,
+    threeDSecure: true,
+    hostedFields: true
+  };
+
+  readonly requiresBankAccountDetails = true;
+
+  private braintreeClientToken: string | null = null;
+  private braintreeReadyPromise: Promise<void> | null = null;
+  private hostedFieldsInstance: BraintreeHostedFieldsInstance | null = null;
+  private applePayInstance: BraintreeApplePayInstance | null = null;
+  private googlePayment: BraintreeGooglePayment | null = null;
+  private paypalCheckoutInstance: BraintreePayPalCheckoutInstance | null = null;
+  private paypalButtons: PayPalButtonsInstance | null = null;
+  private rejectPayPal: ((error: PaymentError) => void) | null = null;
+  private venmo: { instance: BraintreeVenmoInstance; paymentMethodUsage: string } | null = null;
+  private usBankAccountInstance: BraintreeUsBankAccountInstance | null = null;
+  private threeDSecureInstance: BraintreeThreeDSecureInstance | null = null;
+
+  constructor(private scripts: ScriptLoader = new ScriptLoader()) {}
+
+  /**
+   * Initialize Braintree SDK
+   */
+  async initialize(adapter: EnvironmentAdapter): Promise<void> {
+    if (!adapter.isBrowser()) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Cannot initialize Braintree in server environment"
+      );
+    }
 
-  if (braintreeClientToken) {
-    console.debug("[Braintree] Already initialized");
-    return;
+    if (this.braintreeClientToken) {
+      console.debug("[Braintree] Already initialized");
+      return;
+    }
+
+    if (this.braintreeReadyPromise) {
+      console.debug("[Braintree] Already initializing, waiting...");
+      return this.braintreeReadyPromise;
+    }
+
+    this.braintreeReadyPromise = (async () => {
+      try {
+        console.debug("[Braintree] Starting initialization...");
+
+        this.braintreeClientToken = await fetchClientToken(adapter);
+
+        console.debug("[Braintree] Initialization complete (client token fetched)");
+      } catch (error) {
+        this.braintreeReadyPromise = null;
+        this.braintreeClientToken = null;
+
+        if (error instanceof PaymentError) {
+          throw error;
+        }
+
+        throw new PaymentError(
+          PaymentErrorCode.SDK_LOAD_FAILED,
+          "Failed to initialize Braintree SDK",
+          error
+        );
+      }
+    })();
+
+    return this.braintreeReadyPromise;
   }
 
-  if (braintreeReadyPromise) {
-    console.debug("[Braintree] Already initializing, waiting...");
-    return braintreeReadyPromise;
+  /**
+   * Create a Braintree client instance, fetching the client token if needed
+   */
+  private async createClient(adapter: EnvironmentAdapter): Promise<BraintreeClientInstance> {
+    if (!this.braintreeClientToken) {
+      console.debug("[Braintree] Fetching client token...");
+      this.braintreeClientToken = await fetchClientToken(adapter);
+    }
+
+    await this.scripts.load(getBraintreeSdkUrl("client", adapter), adapter);
+
+    if (!window.braintree?.client) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Braintree client SDK not loaded"
+      );
+    }
+
+    console.debug("[Braintree] Creating client instance...");
+
+    return window.braintree.client.create({
+      authorization: this.braintreeClientToken
+    });
   }
 
-  braintreeReadyPromise = (async () => {
+  /**
+   * Create payment method nonce from card details
+   */
+  async tokenize(card: CardInput, adapter: EnvironmentAdapter): Promise<BraintreeTokenResult> {
     try {
-      console.debug("[Braintree] Starting initialization...");
+      console.debug("[Braintree] Creating payment method nonce...");
 
-      braintreeClientToken = await fetchClientToken(adapter);
+      const clientInstance = await this.createClient(adapter);
+
+      console.debug("[Braintree] Tokenizing card data...");
+
+      const tokenizePayload = await clientInstance.request({
+        endpoint: 'payment_methods/credit_cards',
+        method: 'post',
+        data: {
+          creditCard: {
+            number: card.number,
+            expirationMonth: card.expMonth,
+            expirationYear: card.expYear,
+            cvv: card.cvc
+          }
+        }
+      });
+
+      if (!tokenizePayload.creditCards?.[0]?.nonce) {
+        throw new PaymentError(
+          PaymentErrorCode.TOKENIZATION_FAILED,
+          "Braintree returned no payment method nonce"
+        );
+      }
 
-      console.debug("[Braintree] Initialization complete (client token fetched)");
+      const nonce = tokenizePayload.creditCards[0].nonce;
+      console.debug(`[Braintree] Payment method nonce created: ${nonce}`);
+      return toTokenResult(nonce, "CreditCard", {
+        bin: tokenizePayload.creditCards[0].details?.bin || card.number.replace(/\D/g, "").slice(0, 6)
+      });
     } catch (error) {
-      braintreeReadyPromise = null;
-      braintreeClientToken = null;
+      if (error instanceof PaymentError) {
+        throw error;
+      }
 
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        "Failed to create Braintree payment method",
+        error
+      );
+    }
+  }
+
+  /**
+   * Render Hosted Fields iframes into the given selectors
+   * Card data is entered into Braintree iframes and never passes through our JavaScript
+   *
+   * @param onStateChange - Called for every Hosted Fields event with the current field state
+   */
+  async mountHostedFields(
+    options: BraintreeHostedFieldsOptions,
+    adapter: EnvironmentAdapter,
+    onStateChange?: (event: BraintreeHostedFieldsEvent, state: BraintreeHostedFieldsState) => void
+  ): Promise<void> {
+    try {
+      await this.teardownHostedFields();
+
+      console.debug("[Braintree] Creating Hosted Fields...");
+
+      const clientInstance = await this.createClient(adapter);
+      await this.scripts.load(getBraintreeSdkUrl("hosted-fields", adapter), adapter);
+
+      if (!window.braintree?.hostedFields) {
+        throw new PaymentError(
+          PaymentErrorCode.SDK_LOAD_FAILED,
+          "Braintree Hosted Fields SDK not loaded"
+        );
+      }
+
+      const hostedFields = await window.braintree.hostedFields.create({
+        client: clientInstance,
+        fields: options.fields,
+        styles: options.styles
+      });
+
+      if (onStateChange) {
+        for (const event of HOSTED_FIELDS_EVENTS) {
+          hostedFields.on(event, (state) => onStateChange(event, state));
+        }
+      }
+
+      this.hostedFieldsInstance = hostedFields;
+      console.debug("[Braintree] Hosted Fields ready");
+    } catch (error) {
       if (error instanceof PaymentError) {
         throw error;
       }
 
       throw new PaymentError(
         PaymentErrorCode.SDK_LOAD_FAILED,
-        "Failed to initialize Braintree SDK",
+        "Failed to create Braintree Hosted Fields",
         error
       );
     }
-  })();
+  }
 
-  return braintreeReadyPromise;
-}
+  /**
+   * Create payment method nonce from the mounted Hosted Fields
+   */
+  async tokenizeHostedFields(options?: { cardholderName?: string }): Promise<BraintreeTokenResult> {
+    if (!this.hostedFieldsInstance) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Braintree Hosted Fields not mounted. Call mountHostedFields() first."
+      );
+    }
 
-/**
- * Create payment method nonce from card details
- */
-export async function createBraintreeToken(
-  card: CardInput,
-  adapter: EnvironmentAdapter
-): Promise<string> {
-  try {
-    console.debug("[Braintree] Creating payment method nonce...");
+    try {
+      console.debug("[Braintree] Tokenizing Hosted Fields...");
 
-    if (!braintreeClientToken) {
-      console.debug("[Braintree] Fetching client token...");
-      braintreeClientToken = await fetchClientToken(adapter);
+      const payload = await this.hostedFieldsInstance.tokenize(options);
+
+      if (!payload?.nonce) {
+        throw new PaymentError(
+          PaymentErrorCode.TOKENIZATION_FAILED,
+          "Braintree returned no payment method nonce"
+        );
+      }
+
+      console.debug(`[Braintree] Payment method nonce created: ${payload.nonce}`);
+      return toTokenResult(payload.nonce, "CreditCard", { bin: payload.details?.bin });
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      // Hosted Fields reports empty/invalid fields as HOSTED_FIELDS_FIELDS_* errors
+      const code = (error as { code?: string })?.code || "";
+      throw new PaymentError(
+        code.startsWith("HOSTED_FIELDS_FIELDS_")
+          ? PaymentErrorCode.VALIDATION_ERROR
+          : PaymentErrorCode.TOKENIZATION_FAILED,
+        error instanceof Error ? error.message : "Failed to tokenize Braintree Hosted Fields",
+        error
+      );
     }
+  }
 
-    await loadScript("https://js.braintreegateway.com/web/3.97.2/js/client.min.js", adapter);
+  /**
+   * Get the current Hosted Fields state, if mounted
+   */
+  getHostedFieldsState(): BraintreeHostedFieldsState | null {
+    return this.hostedFieldsInstance?.getState() ?? null;
+  }
 
-    if (!window.braintree?.client) {
+  /**
+   * Check if Hosted Fields are currently mounted
+   */
+  hasHostedFields(): boolean {
+    return this.hostedFieldsInstance !== null;
+  }
+
+  /**
+   * Remove the Hosted Fields iframes
+   */
+  async teardownHostedFields(): Promise<void> {
+    if (!this.hostedFieldsInstance) {
+      return;
+    }
+
+    const instance = this.hostedFieldsInstance;
+    this.hostedFieldsInstance = null;
+
+    try {
+      await instance.teardown();
+      console.debug("[Braintree] Hosted Fields torn down");
+    } catch (error) {
+      console.debug("[Braintree] Hosted Fields teardown failed:", error);
+    }
+  }
+
+  /**
+   * Create the Braintree 3D Secure component (3DS 2)
+   */
+  async createThreeDSecure(adapter: EnvironmentAdapter): Promise<BraintreeThreeDSecureInstance> {
+    if (this.threeDSecureInstance) {
+      return this.threeDSecureInstance;
+    }
+
+    const clientInstance = await this.createClient(adapter);
+    await this.scripts.load(getBraintreeSdkUrl("three-d-secure", adapter), adapter);
+
+    if (!window.braintree?.threeDSecure) {
       throw new PaymentError(
         PaymentErrorCode.SDK_LOAD_FAILED,
-        "Braintree client SDK not loaded"
+        "Braintree 3D Secure SDK not loaded"
       );
     }
 
-    console.debug("[Braintree] Creating client instance...");
+    console.debug("[Braintree] Creating 3D Secure instance...");
+    this.threeDSecureInstance = await window.braintree.threeDSecure.create({
+      client: clientInstance,
+      version: 2
+    });
+    return this.threeDSecureInstance;
+  }
+
+  /**
+   * Create the Braintree Apple Pay component
+   */
+  private async createApplePay(adapter: EnvironmentAdapter): Promise<BraintreeApplePayInstance> {
+    if (this.applePayInstance) {
+      return this.applePayInstance;
+    }
+
+    const clientInstance = await this.createClient(adapter);
+    await this.scripts.load(getBraintreeSdkUrl("apple-pay", adapter), adapter);
 
-    const clientInstance: BraintreeClientInstance = await window.braintree.client.create({
-      authorization: braintreeClientToken
+    if (!window.braintree?.applePay) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Braintree Apple Pay SDK not loaded"
+      );
+    }
+
+    console.debug("[Braintree] Creating Apple Pay instance...");
+    this.applePayInstance = await window.braintree.applePay.create({ client: clientInstance });
+    return this.applePayInstance;
+  }
+
+  /**
+   * Create the Braintree Google Pay component and a Google Pay client
+   */
+  private async createGooglePayment(adapter: EnvironmentAdapter): Promise<BraintreeGooglePayment> {
+    if (this.googlePayment) {
+      return this.googlePayment;
+    }
+
+    const googleMerchantId = getGooglePayMerchantId(adapter);
+    const clientInstance = await this.createClient(adapter);
+    await this.scripts.load(getBraintreeSdkUrl("google-payment", adapter), adapter);
+
+    if (!window.braintree?.googlePayment) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Braintree Google Pay SDK not loaded"
+      );
+    }
+
+    console.debug("[Braintree] Creating Google Pay instance...");
+
+    const instance = await window.braintree.googlePayment.create({
+      client: clientInstance,
+      googlePayVersion: GOOGLE_PAY_API_VERSION.apiVersion,
+      googleMerchantId
     });
 
-    console.debug("[Braintree] Tokenizing card data...");
-
-    const tokenizePayload = await clientInstance.request({
-      endpoint: 'payment_methods/credit_cards',
-      method: 'post',
-      data: {
-        creditCard: {
-          number: card.number,
-          expirationMonth: card.expMonth,
-          expirationYear: card.expYear,
-          cvv: card.cvc
+    this.googlePayment = {
+      instance,
+      paymentsClient: await createGooglePaymentsClient(adapter, this.scripts)
+    };
+    return this.googlePayment;
+  }
+
+  /**
+   * Check which wallets are enabled for this merchant account and browser
+   * Also loads the wallet components so tokenizeWallet() can open the sheet straight away
+   */
+  async canMakeWalletPayment(
+    request: WalletPaymentRequest,
+    adapter: EnvironmentAdapter
+  ): Promise<WalletAvailability> {
+    const availability = { ...NO_WALLETS };
+
+    if (isApplePayAvailable()) {
+      try {
+        await this.createApplePay(adapter);
+        availability.applePay = true;
+      } catch (error) {
+        console.debug("[Braintree] Apple Pay unavailable:", error);
+      }
+    }
+
+    try {
+      const { instance, paymentsClient } = await this.createGooglePayment(adapter);
+      const { allowedPaymentMethods } = instance.createPaymentDataRequest({
+        transactionInfo: createGooglePayTransactionInfo(request)
+      });
+      const { result } = await paymentsClient.isReadyToPay({
+        ...GOOGLE_PAY_API_VERSION,
+        allowedPaymentMethods
+      });
+      availability.googlePay = result;
+    } catch (error) {
+      console.debug("[Braintree] Google Pay unavailable:", error);
+    }
+
+    return availability;
+  }
+
+  /**
+   * Present the Apple Pay / Google Pay sheet and tokenize it into a nonce
+   * Must be called from a user gesture (click handler)
+   */
+  async tokenizeWallet(
+    request: WalletPaymentRequest,
+    adapter: EnvironmentAdapter
+  ): Promise<BraintreeTokenResult> {
+    const walletType = request.walletType || (isApplePayAvailable() ? "applePay" : "googlePay");
+
+    try {
+      if (walletType === "applePay") {
+        const applePay = await this.createApplePay(adapter);
+        const { countryCode, currencyCode, total } = createApplePayRequest(request);
+
+        console.debug("[Braintree] Starting Apple Pay session...");
+
+        return await beginApplePaySession(
+          // Braintree fills in the networks and capabilities enabled for the merchant account
+          applePay.createPaymentRequest({ countryCode, currencyCode, total }),
+          {
+            validateMerchant: (validationURL) =>
+              applePay.performValidation({ validationURL, displayName: request.label }),
+            authorize: async (token) => {
+              const { nonce } = await applePay.tokenize({ token });
+              console.debug(`[Braintree] Apple Pay nonce created: ${nonce.substring(0, 10)}...`);
+              return completeWalletPayment(request, toTokenResult(nonce, "ApplePayCard", { walletType: "applePay" }));
+            }
+          }
+        );
+      }
+
+      const { instance, paymentsClient } = await this.createGooglePayment(adapter);
+
+      console.debug("[Braintree] Loading Google Pay payment data...");
+
+      const paymentData = await paymentsClient.loadPaymentData(
+        instance.createPaymentDataRequest({
+          transactionInfo: createGooglePayTransactionInfo(request)
+        })
+      );
+      const { nonce } = await instance.parseResponse(paymentData);
+
+      console.debug(`[Braintree] Google Pay nonce created: ${nonce.substring(0, 10)}...`);
+      return completeWalletPayment(request, toTokenResult(nonce, "AndroidPayCard", { walletType: "googlePay" }));
+    } catch (error) {
+      throw toWalletError(error, `Failed to tokenize Braintree ${walletType} payment`);
+    }
+  }
+
+  /**
+   * Create the Braintree PayPal Checkout component
+   */
+  private async createPayPalCheckout(adapter: EnvironmentAdapter): Promise<BraintreePayPalCheckoutInstance> {
+    if (this.paypalCheckoutInstance) {
+      return this.paypalCheckoutInstance;
+    }
+
+    const clientInstance = await this.createClient(adapter);
+    await this.scripts.load(getBraintreeSdkUrl("paypal-checkout", adapter), adapter);
+
+    if (!window.braintree?.paypalCheckout) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Braintree PayPal Checkout SDK not loaded"
+      );
+    }
+
+    console.debug("[Braintree] Creating PayPal Checkout instance...");
+    this.paypalCheckoutInstance = await window.braintree.paypalCheckout.create({ client: clientInstance });
+    return this.paypalCheckoutInstance;
+  }
+
+  /**
+   * Render the PayPal button and resolve with a nonce once the buyer approves
+   * checkout is a one-time payment; vault saves a billing agreement for future charges
+   */
+  async tokenizePayPal(
+    options: BraintreePayPalOptions,
+    adapter: EnvironmentAdapter
+  ): Promise<BraintreeTokenResult> {
+    if (options.flow === "checkout" && !(options.amount && options.amount > 0)) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        "PayPal checkout flow requires a positive amount"
+      );
+    }
+
+    const payLater = options.fundingSource === "paylater";
+
+    if (payLater && options.flow !== "checkout") {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        "PayPal Pay Later is only available in the checkout flow"
+      );
+    }
+
+    await this.closePayPalButtons();
+
+    const paypalCheckout = await this.createPayPalCheckout(adapter);
+    const currency = (options.currency || "USD").toUpperCase();
+    const intent = options.intent || "capture";
+
+    console.debug(`[Braintree] Loading PayPal SDK (${options.flow})...`);
+
+    await paypalCheckout.loadPayPalSDK(
+      options.flow === "vault"
+        ? { vault: true }
+        : { currency, intent, ...(payLater && { "enable-funding": "paylater" }) }
+    );
+
+    const paypal = window.paypal;
+
+    if (!paypal?.Buttons) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "PayPal SDK loaded but paypal.Buttons is undefined"
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      // Settled promises drop their reject so closePayPalButtons() only cancels a pending one
+      const settle = () => {
+        if (this.rejectPayPal === reject) {
+          this.rejectPayPal = null;
+        }
+      };
+
+      this.rejectPayPal = reject;
+
+      const buttons = paypal.Buttons({
+        fundingSource: payLater ? paypal.FUNDING.PAYLATER : paypal.FUNDING.PAYPAL,
+        style: options.style,
+        ...(options.flow === "vault"
+          ? {
+            createBillingAgreement: () => paypalCheckout.createPayment({
+              flow: "vault",
+              billingAgreementDescription: options.billingAgreementDescription
+            })
+          }
+          : {
+            createOrder: () => paypalCheckout.createPayment({
+              flow: "checkout",
+              amount: options.amount!.toFixed(getCurrencyDecimals(currency)),
+              currency,
+              intent
+            })
+          }),
+        onApprove: async (data) => {
+          try {
+            const payload = await paypalCheckout.tokenizePayment(data);
+            const { email, payerId, firstName, lastName, countryCode } = payload.details;
+
+            console.debug(`[Braintree] PayPal nonce created: ${payload.nonce.substring(0, 10)}...`);
+            settle();
+            resolve(toTokenResult(payload.nonce, "PayPalAccount", {
+              accountDetails: { email, payerId, firstName, lastName, countryCode }
+            }));
+          } catch (error) {
+            settle();
+            reject(new PaymentError(
+              PaymentErrorCode.TOKENIZATION_FAILED,
+              "Failed to tokenize PayPal payment",
+              error
+            ));
+          } finally {
+            void this.closePayPalButtons();
+          }
+        },
+        onCancel: () => {
+          settle();
+          reject(new PaymentError(PaymentErrorCode.CANCELED, "Customer canceled PayPal"));
+          void this.closePayPalButtons();
+        },
+        onError: (error) => {
+          settle();
+          reject(new PaymentError(
+            PaymentErrorCode.TOKENIZATION_FAILED,
+            "PayPal checkout failed",
+            error
+          ));
+          void this.closePayPalButtons();
         }
+      });
+
+      if (!buttons.isEligible()) {
+        settle();
+        reject(new PaymentError(
+          PaymentErrorCode.NOT_SUPPORTED,
+          `PayPal${payLater ? " Pay Later" : ""} is not available for this buyer`
+        ));
+        return;
       }
+
+      this.paypalButtons = buttons;
+
+      buttons.render(options.container).catch((error) => {
+        this.paypalButtons = null;
+        settle();
+        reject(new PaymentError(
+          PaymentErrorCode.SDK_LOAD_FAILED,
+          "Failed to render PayPal button",
+          error
+        ));
+      });
+
+      console.debug("[Braintree] PayPal button rendered");
+    });
+  }
+
+  /**
+   * Remove the rendered PayPal button
+   * A tokenizePayPal() call still waiting for the buyer rejects with CANCELED
+   */
+  async closePayPalButtons(): Promise<void> {
+    const rejectPending = this.rejectPayPal;
+    this.rejectPayPal = null;
+
+    rejectPending?.(new PaymentError(
+      PaymentErrorCode.CANCELED,
+      "PayPal button closed before the buyer approved"
+    ));
+
+    if (!this.paypalButtons) {
+      return;
+    }
+
+    const buttons = this.paypalButtons;
+    this.paypalButtons = null;
+
+    try {
+      await buttons.close();
+    } catch (error) {
+      console.debug("[Braintree] PayPal button close failed:", error);
+    }
+  }
+
+  /**
+   * Create the Braintree Venmo component for the requested payment method usage
+   */
+  private async createVenmo(
+    options: BraintreeVenmoOptions,
+    adapter: EnvironmentAdapter
+  ): Promise<BraintreeVenmoInstance> {
+    const paymentMethodUsage = options.paymentMethodUsage || "single_use";
+
+    if (this.venmo?.paymentMethodUsage === paymentMethodUsage) {
+      return this.venmo.instance;
+    }
+
+    await this.teardownVenmo();
+
+    const clientInstance = await this.createClient(adapter);
+    await this.scripts.load(getBraintreeSdkUrl("venmo", adapter), adapter);
+
+    if (!window.braintree?.venmo) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Braintree Venmo SDK not loaded"
+      );
+    }
+
+    console.debug("[Braintree] Creating Venmo instance...");
+
+    const instance = await window.braintree.venmo.create({
+      client: clientInstance,
+      allowDesktop: options.allowDesktop ?? true,
+      mobileWebFallBack: true,
+      paymentMethodUsage
     });
 
-    if (!tokenizePayload.creditCards?.[0]?.nonce) {
+    this.venmo = { instance, paymentMethodUsage };
+    return instance;
+  }
+
+  /**
+   * Check if Venmo can be used in this browser
+   * Also creates the Venmo component so tokenizeVenmo() can open it from a click handler
+   */
+  async isVenmoAvailable(options: BraintreeVenmoOptions, adapter: EnvironmentAdapter): Promise<boolean> {
+    try {
+      return (await this.createVenmo(options, adapter)).isBrowserSupported();
+    } catch (error) {
+      console.debug("[Braintree] Venmo unavailable:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Open Venmo and resolve with a nonce once the buyer authorizes
+   * Must be called from a user gesture (click handler)
+   */
+  async tokenizeVenmo(
+    options: BraintreeVenmoOptions,
+    adapter: EnvironmentAdapter
+  ): Promise<BraintreeTokenResult> {
+    const venmo = await this.createVenmo(options, adapter);
+
+    if (!venmo.isBrowserSupported()) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        "Venmo is not supported in this browser"
+      );
+    }
+
+    try {
+      console.debug("[Braintree] Tokenizing Venmo...");
+
+      const payload = await venmo.tokenize();
+
+      console.debug(`[Braintree] Venmo nonce created: ${payload.nonce.substring(0, 10)}...`);
+      return toTokenResult(payload.nonce, "VenmoAccount", {
+        accountDetails: { username: payload.details.username }
+      });
+    } catch (error) {
+      const code = (error as { code?: string })?.code || "";
+
+      if (VENMO_CANCELED_CODES.includes(code)) {
+        throw new PaymentError(PaymentErrorCode.CANCELED, "Customer canceled Venmo", error);
+      }
+
       throw new PaymentError(
         PaymentErrorCode.TOKENIZATION_FAILED,
-        "Braintree returned no payment method nonce"
+        error instanceof Error ? error.message : "Failed to tokenize Venmo",
+        error
       );
     }
+  }
 
-    const nonce = tokenizePayload.creditCards[0].nonce;
-    console.debug(`[Braintree] Payment method nonce created: ${nonce}`);
-    return nonce;
-  } catch (error) {
-    if (error instanceof PaymentError) {
-      throw error;
+  /**
+   * Tear down the Venmo component
+   */
+  private async teardownVenmo(): Promise<void> {
+    if (!this.venmo) {
+      return;
     }
 
-    throw new PaymentError(
-      PaymentErrorCode.TOKENIZATION_FAILED,
-      "Failed to create Braintree payment method",
-      error
-    );
+    const { instance } = this.venmo;
+    this.venmo = null;
+
+    try {
+      await instance.teardown();
+    } catch (error) {
+      console.debug("[Braintree] Venmo teardown failed:", error);
+    }
   }
-}
 
-/**
- * Reset Braintree instance
- */
-export function resetBraintree(): void {
-  braintreeClientToken = null;
-  braintreeReadyPromise = null;
-  console.debug("[Braintree] Reset complete");
-}
+  /**
+   * Create the Braintree US Bank Account component
+   */
+  private async createUsBankAccount(adapter: EnvironmentAdapter): Promise<BraintreeUsBankAccountInstance> {
+    if (this.usBankAccountInstance) {
+      return this.usBankAccountInstance;
+    }
 
-/**
- * Check if Braintree is ready
- */
-export function isBraintreeReady(): boolean {
-  return braintreeClientToken !== null;
+    const clientInstance = await this.createClient(adapter);
+    await this.scripts.load(getBraintreeSdkUrl("us-bank-account", adapter), adapter);
+
+    if (!window.braintree?.usBankAccount) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Braintree US Bank Account SDK not loaded"
+      );
+    }
+
+    console.debug("[Braintree] Creating US Bank Account instance...");
+    this.usBankAccountInstance = await window.braintree.usBankAccount.create({ client: clientInstance });
+    return this.usBankAccountInstance;
+  }
+
+  /**
+   * Tokenize a US bank account (ACH) into a nonce
+   * Braintree requires a billing address and the mandate text the customer accepted
+   */
+  async tokenizeBankAccount(
+    bankAccount: BankAccountInput,
+    adapter: EnvironmentAdapter
+  ): Promise<BankAccountTokenResult> {
+    const { billingAddress, mandateText } = bankAccount;
+
+    if (!billingAddress || !mandateText) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        "Braintree US Bank Account requires billingAddress and mandateText"
+      );
+    }
+
+    const ownershipType = bankAccount.ownershipType
+      || (bankAccount.accountType === "businessChecking" ? "business" : "personal");
+
+    try {
+      const usBankAccount = await this.createUsBankAccount(adapter);
+
+      console.debug("[Braintree] Tokenizing US bank account...");
+
+      const payload = await usBankAccount.tokenize({
+        bankDetails: {
+          routingNumber: (bankAccount.routingNumber || "").replace(/\D/g, ""),
+          accountNumber: (bankAccount.accountNumber || "").replace(/\D/g, ""),
+          accountType: bankAccount.accountType === "savings" ? "savings" : "checking",
+          ownershipType,
+          ...(ownershipType === "business"
+            ? { businessName: bankAccount.accountHolderName }
+            : { firstName: billingAddress.firstName, lastName: billingAddress.lastName }),
+          billingAddress: {
+            streetAddress: billingAddress.address,
+            extendedAddress: billingAddress.address2,
+            locality: billingAddress.city,
+            region: billingAddress.state,
+            postalCode: billingAddress.zip
+          }
+        },
+        mandateText
+      });
+
+      console.debug(`[Braintree] Bank account nonce created: ${payload.nonce.substring(0, 10)}...`);
+
+      return {
+        gatewayName: "Braintree",
+        tokenType: "bankAccount",
+        token: payload.nonce,
+        accountType: bankAccount.accountType,
+        last4: payload.details.last4,
+        bankName: payload.details.bankName
+      };
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        error instanceof Error ? error.message : "Failed to tokenize Braintree US bank account",
+        error
+      );
+    }
+  }
+
+  /**
+   * Get the client token fetched during initialization
+   */
+  getClientToken(): string | null {
+    return this.braintreeClientToken;
+  }
+
+  /**
+   * Reset Braintree instance
+   */
+  reset(): void {
+    void this.teardownHostedFields();
+    void this.closePayPalButtons();
+    void this.teardownVenmo();
+    this.applePayInstance = null;
+    this.googlePayment = null;
+    this.paypalCheckoutInstance = null;
+    this.usBankAccountInstance = null;
+    this.threeDSecureInstance = null;
+    this.braintreeClientToken = null;
+    this.braintreeReadyPromise = null;
+    console.debug("[Braintree] Reset complete");
+  }
+
+  /**
+   * Check if Braintree is ready
+   */
+  isReady(): boolean {
+    return this.braintreeClientToken !== null;
+  }
 }
@@ -0,0 +1,350 @@
+/**
+ * Checkout.com Payment Gateway Integration
+ * Framework-agnostic implementation
+ */
+
+import {
+  CardInput,
+  CheckoutComCardTokenizedEvent,
+  CheckoutComCardValidationEvent,
+  CheckoutComFramesEvent,
+  CheckoutComFramesMountOptions,
+  CheckoutComFrameValidationEvent,
+  CheckoutComTokenResult,
+  PaymentError,
+  PaymentErrorCode,
+  EnvironmentAdapter,
+  GatewayProvider,
+  GatewayCapabilities
+} from "../types";
+import { ScriptLoader } from "../utils";
+import { checkEnvironmentMismatch, getGatewayEnvironment } from "../utils/environment";
+
+const FRAMES_JS_URL = "https://cdn.checkout.com/js/framesv2.min.js";
+
+const FRAMES_EVENTS: CheckoutComFramesEvent[] = [
+  "frameValidationChanged",
+  "cardValidationChanged"
+];
+
+/**
+ * Get the Checkout.com tokens API URL for the configured environment
+ */
+function getTokensUrl(adapter: EnvironmentAdapter): string {
+  return getGatewayEnvironment(adapter) === "sandbox"
+    ? "https://api.sandbox.checkout.com/tokens"
+    : "https://api.checkout.com/tokens";
+}
+
+/**
+ * Get Checkout.com public key from configuration
+ */
+function getCheckoutComPublicKey(adapter: EnvironmentAdapter): string {
+  const key = adapter.getConfig("checkoutComPublicKey");
+
+  if (!key) {
+    throw new PaymentError(
+      PaymentErrorCode.CONFIG_MISSING,
+      "Missing Checkout.com configuration: checkoutComPublicKey required"
+    );
+  }
+
+  if (!key.startsWith("pk_")) {
+    throw new PaymentError(
+      PaymentErrorCode.SDK_LOAD_FAILED,
+      "Invalid Checkout.com public key format - must start with pk_"
+    );
+  }
+
+  // Frames is served from one URL; sandbox keys start with pk_sbox_ (pk_test_ for legacy accounts)
+  const keyEnvironment = key.startsWith("pk_sbox_") || key.startsWith("pk_test_")
+    ? "sandbox"
+    : "production";
+  checkEnvironmentMismatch("Checkout.com", "public key", keyEnvironment, adapter);
+
+  return key;
+}
+
+function toTokenResult(event: CheckoutComCardTokenizedEvent): CheckoutComTokenResult {
+  return {
+    gatewayName: "Checkout.com",
+    tokenType: "token",
+    token: event.token,
+    expiresOn: event.expires_on,
+    bin: event.bin,
+    last4: event.last4,
+    scheme: event.scheme
+  };
+}
+
+/**
+ * Checkout.com Gateway Provider
+ * Frames is a page-wide singleton, so only one set of frames can be mounted at a time
+ */
+export class CheckoutComGateway implements GatewayProvider {
+  readonly name = "Checkout.com";
+
+  readonly capabilities: GatewayCapabilities = {
+    cardTokenization: true,
+    threeDSecure: true,
+    hostedFields: true
+  };
+
+  private publicKey: string | null = null;
+  private framesReadyPromise: Promise<void> | null = null;
+  private framesMounted = false;
+
+  constructor(private scripts: ScriptLoader = new ScriptLoader()) {}
+
+  /**
+   * Initialize Checkout.com Frames
+   */
+  async initialize(adapter: EnvironmentAdapter): Promise<void> {
+    if (!adapter.isBrowser()) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Cannot initialize Checkout.com in server environment"
+      );
+    }
+
+    if (this.publicKey) {
+      console.debug("[Checkout.com] Already initialized");
+      return;
+    }
+
+    if (this.framesReadyPromise) {
+      console.debug("[Checkout.com] Already initializing, waiting...");
+      return this.framesReadyPromise;
+    }
+
+    this.framesReadyPromise = (async () => {
+      try {
+        console.debug("[Checkout.com] Starting initialization...");
+
+        const publicKey = getCheckoutComPublicKey(adapter);
+        await this.scripts.load(FRAMES_JS_URL, adapter);
+
+        if (!window.Frames) {
+          throw new PaymentError(
+            PaymentErrorCode.SDK_LOAD_FAILED,
+            "Frames loaded but window.Frames is undefined"
+          );
+        }
+
+        this.publicKey = publicKey;
+
+        console.debug("[Checkout.com] Initialization complete");
+      } catch (error) {
+        this.framesReadyPromise = null;
+
+        if (error instanceof PaymentError) {
+          throw error;
+        }
+
+        throw new PaymentError(
+          PaymentErrorCode.SDK_LOAD_FAILED,
+          "Failed to initialize Checkout.com Frames",
+          error
+        );
+      }
+    })();
+
+    return this.framesReadyPromise;
+  }
+
+  /**
+   * Create a card token from card details with the tokens API
+   * Raw card data passing through our JavaScript widens PCI DSS scope;
+   * prefer mountFrames() + tokenizeFrames() where possible.
+   */
+  async tokenize(card: CardInput, adapter: EnvironmentAdapter): Promise<CheckoutComTokenResult> {
+    try {
+      console.debug("[Checkout.com] Creating card token...");
+
+      const response = await adapter.fetch(getTokensUrl(adapter), {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: getCheckoutComPublicKey(adapter)
+        },
+        body: JSON.stringify({
+          type: "card",
+          number: card.number.replace(/\s/g, ""),
+          expiry_month: parseInt(card.expMonth, 10),
+          expiry_year: parseInt(card.expYear.length === 2 ? `20${card.expYear}` : card.expYear, 10),
+          cvv: card.cvc
+        })
+      });
+
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new PaymentError(
+          response.status === 422 ? PaymentErrorCode.INVALID_CARD : PaymentErrorCode.TOKENIZATION_FAILED,
+          result.error_codes?.join(", ") || result.error_type || `Checkout.com tokenization failed: ${response.status}`,
+          { status: response.status, requestId: result.request_id }
+        );
+      }
+
+      if (!result.token) {
+        throw new PaymentError(
+          PaymentErrorCode.TOKENIZATION_FAILED,
+          "No card token returned"
+        );
+      }
+
+      console.debug(`[Checkout.com] Card token created: ${result.token}`);
+      return toTokenResult(result);
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        "Failed to create Checkout.com card token",
+        error
+      );
+    }
+  }
+
+  /**
+   * Render Frames into the card number, expiry date and CVV containers
+   * Card data is entered into Checkout.com iframes and never passes through our JavaScript
+   *
+   * @param onFrameValidation - Called when a single frame becomes valid or invalid
+   * @param onCardValidation - Called when the card as a whole becomes valid or invalid
+   */
+  mountFrames(
+    options: CheckoutComFramesMountOptions,
+    onFrameValidation?: (event: CheckoutComFrameValidationEvent) => void,
+    onCardValidation?: (event: CheckoutComCardValidationEvent) => void
+  ): void {
+    if (!this.publicKey || !window.Frames) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Checkout.com Frames not initialized. Call initialize() first."
+      );
+    }
+
+    this.unmountFrames();
+
+    console.debug("[Checkout.com] Mounting Frames...");
+
+    const { selectors = {}, ...config } = options;
+
+    window.Frames.init({
+      ...config,
+      publicKey: this.publicKey,
+      cardNumber: { frameSelector: selectors.cardNumber || ".card-number-frame" },
+      expiryDate: { frameSelector: selectors.expiryDate || ".expiry-date-frame" },
+      cvv: { frameSelector: selectors.cvv || ".cvv-frame" }
+    });
+
+    if (onFrameValidation) {
+      window.Frames.addEventHandler("frameValidationChanged", onFrameValidation);
+    }
+
+    if (onCardValidation) {
+      window.Frames.addEventHandler("cardValidationChanged", onCardValidation);
+    }
+
+    this.framesMounted = true;
+    console.debug("[Checkout.com] Frames mounted");
+  }
+
+  /**
+   * Create a card token from the mounted Frames
+   */
+  async tokenizeFrames(cardholder?: CheckoutComFramesMountOptions["cardholder"]): Promise<CheckoutComTokenResult> {
+    if (!this.framesMounted || !window.Frames) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Checkout.com Frames not mounted. Call mountFrames() first."
+      );
+    }
+
+    const frames = window.Frames;
+
+    if (!frames.isCardValid()) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        "Card details are incomplete or invalid"
+      );
+    }
+
+    try {
+      console.debug("[Checkout.com] Tokenizing Frames...");
+
+      if (cardholder) {
+        frames.cardholder = cardholder;
+      }
+
+      const event = await frames.submitCard();
+
+      if (!event?.token) {
+        throw new PaymentError(
+          PaymentErrorCode.TOKENIZATION_FAILED,
+          "Checkout.com returned no card token"
+        );
+      }
+
+      console.debug(`[Checkout.com] Card token created: ${event.token}`);
+      return toTokenResult(event);
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        "Failed to tokenize Checkout.com Frames",
+        error
+      );
+    } finally {
+      // Frames locks itself after a submit; unlock it so a declined card can be corrected
+      frames.enableSubmitForm();
+    }
+  }
+
+  /**
+   * Check if Frames are mounted
+   */
+  hasMountedFrames(): boolean {
+    return this.framesMounted;
+  }
+
+  /**
+   * Stop listening to Frames events
+   * Frames has no teardown; the iframes go away with their containers
+   */
+  unmountFrames(): void {
+    if (!this.framesMounted) {
+      return;
+    }
+
+    for (const event of FRAMES_EVENTS) {
+      window.Frames?.removeAllEventHandlers(event);
+    }
+
+    this.framesMounted = false;
+    console.debug("[Checkout.com] Frames unmounted");
+  }
+
+  /**
+   * Reset Checkout.com instance
+   */
+  reset(): void {
+    this.unmountFrames();
+    this.publicKey = null;
+    this.framesReadyPromise = null;
+    console.debug("[Checkout.com] Reset complete");
+  }
+
+  /**
+   * Check if Checkout.com is ready
+   */
+  isReady(): boolean {
+    return this.publicKey !== null;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Built-in Gateway Providers
+ */
+
+import { GatewayProvider } from "../types";
+import { ScriptLoader } from "../utils";
+import { StripeGateway } from "./stripe";
+import { BraintreeGateway } from "./braintree";
+import { AuthorizeNetGateway } from "./authorizenet";
+import { AdyenGateway } from "./adyen";
+import { SquareGateway } from "./square";
+import { CheckoutComGateway } from "./checkoutcom";
+import { RazorpayGateway } from "./razorpay";
+import { ScriptTokenizerGateway } from "./script-tokenizer";
+import { createNmiCollectJsConfig, NmiCollectJsOptions } from "./nmi";
+
+export { StripeGateway, BraintreeGateway, AuthorizeNetGateway, AdyenGateway, SquareGateway, CheckoutComGateway, RazorpayGateway };
+
+// Not registered by default; each script tokenizer needs its own config and public key
+export { ScriptTokenizerGateway, createNmiCollectJsConfig };
+export type { NmiCollectJsOptions };
+
+/**
+ * Create providers for every gateway shipped with the library
+ * Providers created together share one script loader
+ */
+export function createBuiltInProviders(scripts: ScriptLoader = new ScriptLoader()): GatewayProvider[] {
+  return [
+    new StripeGateway(scripts),
+    new BraintreeGateway(scripts),
+    new AuthorizeNetGateway(scripts),
+    new AdyenGateway(scripts),
+    new SquareGateway(scripts),
+    new CheckoutComGateway(scripts),
+    new RazorpayGateway(scripts)
+  ];
+}
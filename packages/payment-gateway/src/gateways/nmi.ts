@@ -0,0 +1,82 @@
+/**
+ * NMI Collect.js Tokenizer Config
+ * Reference ScriptTokenizerConfig for ScriptTokenizerGateway
+ */
+
+import {
+  CollectJs,
+  CollectJsMountOptions,
+  CollectJsResponse,
+  GatewayName,
+  PaymentError,
+  PaymentErrorCode,
+  ScriptTokenizerConfig
+} from "../types";
+
+const COLLECT_JS_URL = "https://secure.nmi.com/token/Collect.js";
+
+// Collect.js calls timeoutCallback when the fields are still invalid after this long
+const COLLECT_JS_TIMEOUT_MS = 10000;
+
+export interface NmiCollectJsOptions {
+  /** Public tokenization key from the NMI merchant portal */
+  tokenizationKey: string;
+  /** Registry name (default "NMI") */
+  name?: GatewayName;
+  /** Collect.js URL for white-label NMI resellers */
+  scriptUrl?: string;
+}
+
+/**
+ * Create a ScriptTokenizerConfig for NMI Collect.js inline fields
+ * Test and live mode follow the tokenization key's account, so there is no sandbox URL
+ *
+ * @example
+ * manager.registerGateway(new ScriptTokenizerGateway(createNmiCollectJsConfig({ tokenizationKey })));
+ */
+export function createNmiCollectJsConfig(
+  options: NmiCollectJsOptions
+): ScriptTokenizerConfig<CollectJs, CollectJsResponse, CollectJsMountOptions> {
+  return {
+    name: options.name || "NMI",
+    scriptUrl: options.scriptUrl || COLLECT_JS_URL,
+    globalName: "CollectJS",
+    publicKey: options.tokenizationKey,
+    scriptAttributes: (tokenizationKey) => ({ "data-tokenization-key": tokenizationKey }),
+    mountFields: (collectJs, mountOptions, context) => {
+      const { selectors = {}, placeholders = {} } = mountOptions;
+
+      collectJs.configure({
+        variant: "inline",
+        fields: {
+          ccnumber: { selector: selectors.ccnumber || "#ccnumber", placeholder: placeholders.ccnumber },
+          ccexp: { selector: selectors.ccexp || "#ccexp", placeholder: placeholders.ccexp },
+          cvv: { selector: selectors.cvv || "#cvv", placeholder: placeholders.cvv }
+        },
+        customCss: mountOptions.customCss,
+        callback: context.resolve,
+        validationCallback: mountOptions.onValidation,
+        fieldsAvailableCallback: mountOptions.onReady,
+        timeoutDuration: COLLECT_JS_TIMEOUT_MS,
+        timeoutCallback: () => context.reject(new PaymentError(
+          PaymentErrorCode.VALIDATION_ERROR,
+          "Card details are incomplete or invalid"
+        ))
+      });
+    },
+    tokenizeFields: (collectJs) => {
+      collectJs.startPaymentRequest();
+    },
+    mapResponse: (response) => response.token
+      ? {
+        token: response.token,
+        details: {
+          cardType: response.card?.type,
+          bin: response.card?.bin,
+          maskedNumber: response.card?.number,
+          exp: response.card?.exp
+        }
+      }
+      : null
+  };
+}
@@ -0,0 +1,312 @@
+/**
+ * Razorpay Payment Gateway Integration
+ * Framework-agnostic implementation
+ */
+
+import {
+  PaymentError,
+  PaymentErrorCode,
+  RazorpayCheckoutOptions,
+  RazorpayCheckoutRequest,
+  RazorpayOrder,
+  RazorpayPaymentFailedResponse,
+  RazorpayPaymentMethod,
+  RazorpayTokenResult,
+  RazorpayUpiFlow,
+  EnvironmentAdapter,
+  GatewayProvider,
+  GatewayCapabilities
+} from "../types";
+import { ScriptLoader } from "../utils";
+import { toSmallestUnit } from "../utils/currency";
+import { checkEnvironmentMismatch } from "../utils/environment";
+
+const RAZORPAY_CHECKOUT_URL = "https://checkout.razorpay.com/v1/checkout.js";
+
+const DEFAULT_METHODS: RazorpayPaymentMethod[] = ["upi", "netbanking", "card"];
+const DEFAULT_UPI_FLOWS: RazorpayUpiFlow[] = ["intent", "collect", "qr"];
+
+const METHOD_LABELS: Record<RazorpayPaymentMethod, string> = {
+  upi: "Pay using UPI",
+  netbanking: "Netbanking",
+  card: "Cards"
+};
+
+/**
+ * Get Razorpay key ID from configuration
+ */
+function getRazorpayKeyId(adapter: EnvironmentAdapter): string {
+  const keyId = adapter.getConfig("razorpayKeyId");
+
+  if (!keyId) {
+    throw new PaymentError(
+      PaymentErrorCode.CONFIG_MISSING,
+      "Missing Razorpay configuration: razorpayKeyId required"
+    );
+  }
+
+  // Checkout is served from one URL; the key prefix decides test vs live mode
+  const keyEnvironment = keyId.startsWith("rzp_live_")
+    ? "production"
+    : keyId.startsWith("rzp_test_")
+      ? "sandbox"
+      : null;
+  checkEnvironmentMismatch("Razorpay", "key ID", keyEnvironment, adapter);
+
+  return keyId;
+}
+
+/**
+ * Create an order on the backend with the Razorpay Orders API
+ * Calls /api/payments/razorpay/orders
+ */
+async function createOrder(
+  request: RazorpayCheckoutRequest,
+  adapter: EnvironmentAdapter
+): Promise<RazorpayOrder> {
+  const currency = (request.currency || "INR").toUpperCase();
+
+  if (!request.amount || request.amount <= 0) {
+    throw new PaymentError(
+      PaymentErrorCode.VALIDATION_ERROR,
+      "Razorpay Checkout requires an orderId or a positive amount"
+    );
+  }
+
+  const apiBaseUrl = adapter.getConfig("apiBaseUrl") || "";
+  const response = await adapter.fetch(`${apiBaseUrl}/api/payments/razorpay/orders`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({
+      amount: toSmallestUnit(request.amount, currency),
+      currency,
+      receipt: request.receipt,
+      notes: request.notes
+    })
+  });
+
+  const result = await response.json().catch(() => ({}));
+  const orderId = result.orderId || result.id;
+
+  if (!response.ok || !orderId) {
+    throw new PaymentError(
+      PaymentErrorCode.TOKENIZATION_FAILED,
+      result.error || `Failed to create Razorpay order: ${response.status}`,
+      { status: response.status }
+    );
+  }
+
+  return {
+    id: orderId,
+    amount: result.amount ?? toSmallestUnit(request.amount, currency),
+    currency: result.currency || currency
+  };
+}
+
+/**
+ * Build the Checkout display config that limits and orders the payment methods
+ */
+function toDisplayConfig(
+  methods: RazorpayPaymentMethod[],
+  upiFlows: RazorpayUpiFlow[]
+): RazorpayCheckoutOptions["config"] {
+  const blocks: NonNullable<RazorpayCheckoutOptions["config"]>["display"]["blocks"] = {};
+
+  for (const method of methods) {
+    blocks[method] = {
+      name: METHOD_LABELS[method],
+      instruments: [method === "upi" ? { method, flows: upiFlows } : { method }]
+    };
+  }
+
+  return {
+    display: {
+      blocks,
+      sequence: methods.map((method) => `block.${method}`),
+      preferences: { show_default_blocks: false }
+    }
+  };
+}
+
+/**
+ * Razorpay Gateway Provider
+ * Payment details are collected in Razorpay Checkout, not tokenized from card input
+ */
+export class RazorpayGateway implements GatewayProvider {
+  readonly name = "Razorpay";
+
+  readonly capabilities: GatewayCapabilities = {
+    cardTokenization: false,
+    threeDSecure: true,
+    hostedFields: false
+  };
+
+  private keyId: string | null = null;
+  private razorpayReadyPromise: Promise<void> | null = null;
+
+  constructor(private scripts: ScriptLoader = new ScriptLoader()) {}
+
+  /**
+   * Initialize Razorpay Checkout
+   */
+  async initialize(adapter: EnvironmentAdapter): Promise<void> {
+    if (!adapter.isBrowser()) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Cannot initialize Razorpay in server environment"
+      );
+    }
+
+    if (this.keyId) {
+      console.debug("[Razorpay] Already initialized");
+      return;
+    }
+
+    if (this.razorpayReadyPromise) {
+      console.debug("[Razorpay] Already initializing, waiting...");
+      return this.razorpayReadyPromise;
+    }
+
+    this.razorpayReadyPromise = (async () => {
+      try {
+        console.debug("[Razorpay] Starting initialization...");
+
+        const keyId = getRazorpayKeyId(adapter);
+        await this.scripts.load(RAZORPAY_CHECKOUT_URL, adapter);
+
+        if (!window.Razorpay) {
+          throw new PaymentError(
+            PaymentErrorCode.SDK_LOAD_FAILED,
+            "Razorpay Checkout loaded but window.Razorpay is undefined"
+          );
+        }
+
+        this.keyId = keyId;
+
+        console.debug("[Razorpay] Initialization complete");
+      } catch (error) {
+        this.razorpayReadyPromise = null;
+
+        if (error instanceof PaymentError) {
+          throw error;
+        }
+
+        throw new PaymentError(
+          PaymentErrorCode.SDK_LOAD_FAILED,
+          "Failed to initialize Razorpay Checkout",
+          error
+        );
+      }
+    })();
+
+    return this.razorpayReadyPromise;
+  }
+
+  /**
+   * Razorpay has no API for raw card details; payments go through Checkout
+   */
+  async tokenize(): Promise<RazorpayTokenResult> {
+    throw new PaymentError(
+      PaymentErrorCode.NOT_SUPPORTED,
+      "Razorpay collects payment details in Razorpay Checkout. Call openCheckout() instead."
+    );
+  }
+
+  /**
+   * Open Razorpay Checkout for an order and resolve once the payment is authorized
+   * Failed attempts stay in Checkout so the customer can retry with another method;
+   * closing Checkout rejects with CANCELED and the last failure, if any
+   */
+  async openCheckout(
+    request: RazorpayCheckoutRequest,
+    adapter: EnvironmentAdapter
+  ): Promise<RazorpayTokenResult> {
+    if (!this.keyId || !window.Razorpay) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Razorpay Checkout not initialized. Call initialize() first."
+      );
+    }
+
+    const order = request.orderId
+      ? {
+        id: request.orderId,
+        amount: request.amount !== undefined ? toSmallestUnit(request.amount, request.currency || "INR") : undefined,
+        currency: (request.currency || "INR").toUpperCase()
+      }
+      : await createOrder(request, adapter);
+
+    console.debug(`[Razorpay] Opening Checkout for order ${order.id}...`);
+
+    const Razorpay = window.Razorpay;
+    const keyId = this.keyId;
+
+    return new Promise<RazorpayTokenResult>((resolve, reject) => {
+      let lastFailure: RazorpayPaymentFailedResponse["error"] | null = null;
+
+      const checkout = new Razorpay({
+        key: keyId,
+        order_id: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        name: request.name,
+        description: request.description,
+        image: request.image,
+        prefill: request.prefill,
+        notes: request.notes,
+        theme: request.themeColor ? { color: request.themeColor } : undefined,
+        config: toDisplayConfig(
+          request.methods?.length ? request.methods : DEFAULT_METHODS,
+          request.upiFlows?.length ? request.upiFlows : DEFAULT_UPI_FLOWS
+        ),
+        retry: { enabled: true },
+        handler: (response) => {
+          console.debug(`[Razorpay] Payment authorized: ${response.razorpay_payment_id}`);
+          resolve({
+            gatewayName: "Razorpay",
+            tokenType: "razorpayPayment",
+            token: response.razorpay_payment_id,
+            razorpay_payment_id: response.razorpay_payment_id,
+            razorpay_order_id: response.razorpay_order_id,
+            razorpay_signature: response.razorpay_signature
+          });
+        },
+        modal: {
+          ondismiss: () => {
+            console.debug("[Razorpay] Checkout closed");
+            reject(new PaymentError(
+              PaymentErrorCode.CANCELED,
+              lastFailure ? `Razorpay payment failed: ${lastFailure.description}` : "Customer closed Razorpay Checkout",
+              { orderId: order.id, error: lastFailure }
+            ));
+          }
+        }
+      });
+
+      checkout.on("payment.failed", (response) => {
+        lastFailure = response.error;
+        console.debug(`[Razorpay] Payment attempt failed: ${response.error.code} ${response.error.reason || ""}`);
+      });
+
+      checkout.open();
+    });
+  }
+
+  /**
+   * Reset Razorpay instance
+   */
+  reset(): void {
+    this.keyId = null;
+    this.razorpayReadyPromise = null;
+    console.debug("[Razorpay] Reset complete");
+  }
+
+  /**
+   * Check if Razorpay is ready
+   */
+  isReady(): boolean {
+    return this.keyId !== null;
+  }
+}
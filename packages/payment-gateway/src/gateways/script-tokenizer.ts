@@ -0,0 +1,378 @@
+/**
+ * Script Tokenizer Gateway
+ * Configurable provider for processors that load a tokenizer script with a public key,
+ * collect card data in iframes and return a token through a callback
+ */
+
+import {
+  CardInput,
+  GatewayName,
+  GenericTokenResult,
+  PaymentError,
+  PaymentErrorCode,
+  ScriptTokenizerConfig,
+  ScriptTokenizerContext,
+  EnvironmentAdapter,
+  GatewayProvider,
+  GatewayCapabilities
+} from "../types";
+import { ScriptLoader } from "../utils";
+import { checkEnvironmentMismatch, getGatewayEnvironment } from "../utils/environment";
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+interface PendingTokenization<TResponse> {
+  resolve: (response: TResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Resolve a dotted global name (e.g. "Stax.Tokenizer") on window
+ */
+function resolveGlobal(globalName: string): unknown {
+  return globalName
+    .split(".")
+    .reduce<unknown>(
+      (target, key) => (target == null ? undefined : (target as Record<string, unknown>)[key]),
+      window
+    );
+}
+
+/**
+ * Script Tokenizer Gateway Provider
+ * Adding a processor is a ScriptTokenizerConfig instead of a new gateway module
+ *
+ * @example
+ * manager.registerGateway(new ScriptTokenizerGateway(createNmiCollectJsConfig({ tokenizationKey })));
+ */
+export class ScriptTokenizerGateway<TSdk = unknown, TResponse = unknown, TMountOptions = unknown> implements GatewayProvider {
+  readonly name: GatewayName;
+
+  readonly capabilities: GatewayCapabilities;
+
+  private sdk: TSdk | null = null;
+  private publicKey: string | null = null;
+  private readyPromise: Promise<void> | null = null;
+  private pending: PendingTokenization<TResponse> | null = null;
+  private fieldsMounted = false;
+
+  constructor(
+    private config: ScriptTokenizerConfig<TSdk, TResponse, TMountOptions>,
+    private scripts: ScriptLoader = new ScriptLoader()
+  ) {
+    this.name = config.name;
+    this.capabilities = {
+      cardTokenization: !!config.tokenizeCard,
+      threeDSecure: config.threeDSecure ?? false,
+      hostedFields: !!config.mountFields
+    };
+  }
+
+  /**
+   * Load the tokenizer script and run the configure hook
+   */
+  async initialize(adapter: EnvironmentAdapter): Promise<void> {
+    if (!adapter.isBrowser()) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        `Cannot initialize ${this.name} in server environment`
+      );
+    }
+
+    if (this.sdk) {
+      console.debug(`[${this.name}] Already initialized`);
+      return;
+    }
+
+    if (this.readyPromise) {
+      console.debug(`[${this.name}] Already initializing, waiting...`);
+      return this.readyPromise;
+    }
+
+    this.readyPromise = (async () => {
+      try {
+        console.debug(`[${this.name}] Starting initialization...`);
+
+        const publicKey = this.getPublicKey(adapter);
+        const scriptUrl = typeof this.config.scriptUrl === "string"
+          ? this.config.scriptUrl
+          : this.config.scriptUrl[getGatewayEnvironment(adapter)];
+
+        await this.scripts.load(scriptUrl, adapter, this.config.scriptAttributes?.(publicKey));
+
+        const sdk = resolveGlobal(this.config.globalName) as TSdk | undefined;
+
+        if (!sdk) {
+          throw new PaymentError(
+            PaymentErrorCode.SDK_LOAD_FAILED,
+            `${this.name} script loaded but window.${this.config.globalName} is undefined`
+          );
+        }
+
+        await this.config.configure?.(sdk, this.createContext(publicKey, adapter));
+
+        this.publicKey = publicKey;
+        this.sdk = sdk;
+
+        console.debug(`[${this.name}] Initialization complete`);
+      } catch (error) {
+        this.readyPromise = null;
+
+        if (error instanceof PaymentError) {
+          throw error;
+        }
+
+        throw new PaymentError(
+          PaymentErrorCode.SDK_LOAD_FAILED,
+          `Failed to initialize ${this.name} tokenizer`,
+          error
+        );
+      }
+    })();
+
+    return this.readyPromise;
+  }
+
+  /**
+   * Create a token from card details with the configured tokenizeCard hook
+   */
+  async tokenize(card: CardInput, adapter: EnvironmentAdapter): Promise<GenericTokenResult> {
+    const tokenizeCard = this.config.tokenizeCard;
+
+    if (!tokenizeCard) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        `${this.name} only tokenizes its own fields. Call mountFields() and tokenizeFields() instead.`
+      );
+    }
+
+    console.debug(`[${this.name}] Tokenizing card...`);
+    return this.runTokenize(adapter, (sdk, context) => tokenizeCard(sdk, card, context));
+  }
+
+  /**
+   * Render the processor's iframes with the configured mountFields hook
+   */
+  async mountFields(options: TMountOptions, adapter: EnvironmentAdapter): Promise<void> {
+    const mountFields = this.config.mountFields;
+
+    if (!mountFields) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        `${this.name} has no hosted fields`
+      );
+    }
+
+    const sdk = this.requireSdk();
+
+    this.unmountFields();
+
+    console.debug(`[${this.name}] Mounting fields...`);
+    await mountFields(sdk, options, this.createContext(this.publicKey!, adapter));
+
+    this.fieldsMounted = true;
+    console.debug(`[${this.name}] Fields mounted`);
+  }
+
+  /**
+   * Create a token from the mounted fields
+   */
+  async tokenizeFields(adapter: EnvironmentAdapter): Promise<GenericTokenResult> {
+    const tokenizeFields = this.config.tokenizeFields;
+
+    if (!tokenizeFields) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        `${this.name} cannot tokenize hosted fields`
+      );
+    }
+
+    if (!this.fieldsMounted) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        `${this.name} fields not mounted. Call mountFields() first.`
+      );
+    }
+
+    console.debug(`[${this.name}] Tokenizing fields...`);
+    return this.runTokenize(adapter, tokenizeFields);
+  }
+
+  /**
+   * Check if fields are mounted
+   */
+  hasMountedFields(): boolean {
+    return this.fieldsMounted;
+  }
+
+  /**
+   * Tear down the mounted fields
+   */
+  unmountFields(): void {
+    if (!this.fieldsMounted) {
+      return;
+    }
+
+    if (this.sdk) {
+      this.config.unmountFields?.(this.sdk);
+    }
+
+    this.fieldsMounted = false;
+    console.debug(`[${this.name}] Fields unmounted`);
+  }
+
+  /**
+   * Reset tokenizer instance
+   */
+  reset(): void {
+    this.unmountFields();
+    this.pending?.reject(new PaymentError(
+      PaymentErrorCode.CANCELED,
+      `${this.name} was reset during tokenization`
+    ));
+    this.sdk = null;
+    this.publicKey = null;
+    this.readyPromise = null;
+    console.debug(`[${this.name}] Reset complete`);
+  }
+
+  /**
+   * Check if the tokenizer is ready
+   */
+  isReady(): boolean {
+    return this.sdk !== null;
+  }
+
+  private getPublicKey(adapter: EnvironmentAdapter): string {
+    const { publicKey } = this.config;
+    const key = typeof publicKey === "function" ? publicKey(adapter) : publicKey;
+
+    if (!key) {
+      throw new PaymentError(
+        PaymentErrorCode.CONFIG_MISSING,
+        `Missing ${this.name} configuration: public key required`
+      );
+    }
+
+    if (this.config.keyEnvironment) {
+      checkEnvironmentMismatch(this.name, "public key", this.config.keyEnvironment(key), adapter);
+    }
+
+    return key;
+  }
+
+  private requireSdk(): TSdk {
+    if (!this.sdk) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        `${this.name} not initialized. Call initialize() first.`
+      );
+    }
+
+    return this.sdk;
+  }
+
+  /**
+   * Callbacks settle whichever tokenization is in progress; responses arriving without one are dropped
+   */
+  private createContext(publicKey: string, adapter: EnvironmentAdapter): ScriptTokenizerContext<TResponse> {
+    return {
+      publicKey,
+      adapter,
+      resolve: (response) => {
+        if (!this.pending) {
+          console.debug(`[${this.name}] Ignoring response with no tokenization in progress`);
+          return;
+        }
+
+        this.pending.resolve(response);
+      },
+      reject: (error) => {
+        if (!this.pending) {
+          console.debug(`[${this.name}] Ignoring error with no tokenization in progress`);
+          return;
+        }
+
+        this.pending.reject(error);
+      }
+    };
+  }
+
+  /**
+   * Run a tokenize hook and wait for its promise or callback, whichever settles first
+   */
+  private async runTokenize(
+    adapter: EnvironmentAdapter,
+    hook: (sdk: TSdk, context: ScriptTokenizerContext<TResponse>) => void | Promise<TResponse>
+  ): Promise<GenericTokenResult> {
+    const sdk = this.requireSdk();
+
+    if (this.pending) {
+      throw new PaymentError(
+        PaymentErrorCode.INVALID_STATE,
+        `${this.name} tokenization already in progress`
+      );
+    }
+
+    const timeoutMs = this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const response = await new Promise<TResponse>((resolve, reject) => {
+        this.pending = { resolve, reject };
+
+        timer = setTimeout(() => {
+          reject(new PaymentError(
+            PaymentErrorCode.TOKENIZATION_FAILED,
+            `${this.name} did not return a token within ${timeoutMs}ms`
+          ));
+        }, timeoutMs);
+
+        (async () => hook(sdk, this.createContext(this.publicKey!, adapter)))()
+          .then((result) => {
+            // Hooks that return nothing settle through context.resolve / context.reject
+            if (result !== undefined) {
+              resolve(result);
+            }
+          }, reject);
+      });
+
+      return this.toTokenResult(response);
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        `Failed to tokenize with ${this.name}`,
+        error
+      );
+    } finally {
+      clearTimeout(timer);
+      this.pending = null;
+    }
+  }
+
+  private toTokenResult(response: TResponse): GenericTokenResult {
+    const mapped = this.config.mapResponse(response);
+    const token = typeof mapped === "string" ? mapped : mapped?.token;
+
+    if (!token) {
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        this.config.mapError?.(response) || `${this.name} returned no token`,
+        response
+      );
+    }
+
+    console.debug(`[${this.name}] Token created: ${token}`);
+
+    return {
+      gatewayName: this.name,
+      tokenType: "token",
+      token,
+      ...(typeof mapped === "object" && mapped?.details ? { details: mapped.details } : {})
+    };
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * Square Payment Gateway Integration
+ * Framework-agnostic implementation
+ */
+
+import {
+  PaymentError,
+  PaymentErrorCode,
+  SquareCard,
+  SquareCardEventType,
+  SquareCardInputEvent,
+  SquareCardMountOptions,
+  SquarePayments,
+  SquareTokenResult,
+  SquareVerificationDetails,
+  EnvironmentAdapter,
+  GatewayProvider,
+  GatewayCapabilities
+} from "../types";
+import { ScriptLoader } from "../utils";
+import { getCurrencyDecimals } from "../utils/currency";
+import { checkEnvironmentMismatch, getGatewayEnvironment } from "../utils/environment";
+
+const SQUARE_SANDBOX_SDK_URL = "https://sandbox.web.squarecdn.com/v1/square.js";
+const SQUARE_PRODUCTION_SDK_URL = "https://web.squarecdn.com/v1/square.js";
+
+const CARD_EVENTS: SquareCardEventType[] = [
+  "focusClassAdded",
+  "focusClassRemoved",
+  "errorClassAdded",
+  "errorClassRemoved",
+  "cardBrandChanged",
+  "postalCodeChanged"
+];
+
+/**
+ * Get Square application ID from configuration
+ */
+function getSquareApplicationId(adapter: EnvironmentAdapter): string {
+  const applicationId = adapter.getConfig("squareApplicationId");
+
+  if (!applicationId) {
+    throw new PaymentError(
+      PaymentErrorCode.CONFIG_MISSING,
+      "Missing Square configuration: squareApplicationId required"
+    );
+  }
+
+  // Sandbox application IDs carry a sandbox- prefix and only work with the sandbox SDK
+  const applicationEnvironment = applicationId.startsWith("sandbox-")
+    ? "sandbox"
+    : applicationId.startsWith("sq0idp-")
+      ? "production"
+      : null;
+  checkEnvironmentMismatch("Square", "application ID", applicationEnvironment, adapter);
+
+  return applicationId;
+}
+
+function toTokenResult(
+  sourceId: string,
+  extras: Omit<SquareTokenResult, "gatewayName" | "tokenType" | "token"> = {}
+): SquareTokenResult {
+  return {
+    gatewayName: "Square",
+    tokenType: "sourceId",
+    token: sourceId,
+    ...extras
+  };
+}
+
+/**
+ * Square Gateway Provider
+ * Card details are only accepted through the Web Payments card form
+ */
+export class SquareGateway implements GatewayProvider {
+  readonly name = "Square";
+
+  readonly capabilities: GatewayCapabilities = {
+    cardTokenization: false,
+    threeDSecure: true,
+    hostedFields: true
+  };
+
+  private payments: SquarePayments | null = null;
+  private squareReadyPromise: Promise<void> | null = null;
+  private card: SquareCard | null = null;
+  private verification: SquareVerificationDetails | null = null;
+
+  constructor(private scripts: ScriptLoader = new ScriptLoader()) {}
+
+  /**
+   * Initialize Square Web Payments SDK
+   */
+  async initialize(adapter: EnvironmentAdapter): Promise<void> {
+    if (!adapter.isBrowser()) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Cannot initialize Square in server environment"
+      );
+    }
+
+    if (this.payments) {
+      console.debug("[Square] Already initialized");
+      return;
+    }
+
+    if (this.squareReadyPromise) {
+      console.debug("[Square] Already initializing, waiting...");
+      return this.squareReadyPromise;
+    }
+
+    this.squareReadyPromise = (async () => {
+      try {
+        console.debug("[Square] Starting initialization...");
+
+        const applicationId = getSquareApplicationId(adapter);
+        const locationId = adapter.getConfig("squareLocationId");
+
+        if (!locationId) {
+          throw new PaymentError(
+            PaymentErrorCode.CONFIG_MISSING,
+            "Missing Square configuration: squareLocationId required"
+          );
+        }
+
+        const sdkUrl = getGatewayEnvironment(adapter) === "sandbox"
+          ? SQUARE_SANDBOX_SDK_URL
+          : SQUARE_PRODUCTION_SDK_URL;
+        await this.scripts.load(sdkUrl, adapter);
+
+        if (!window.Square) {
+          throw new PaymentError(
+            PaymentErrorCode.SDK_LOAD_FAILED,
+            "Square Web Payments SDK loaded but window.Square is undefined"
+          );
+        }
+
+        this.payments = window.Square.payments(applicationId, locationId);
+
+        console.debug("[Square] Initialization complete");
+      } catch (error) {
+        this.squareReadyPromise = null;
+
+        if (error instanceof PaymentError) {
+          throw error;
+        }
+
+        throw new PaymentError(
+          PaymentErrorCode.SDK_LOAD_FAILED,
+          "Failed to initialize Square SDK",
+          error
+        );
+      }
+    })();
+
+    return this.squareReadyPromise;
+  }
+
+  /**
+   * Square has no API for raw card details; they must be entered in the card form
+   */
+  async tokenize(): Promise<SquareTokenResult> {
+    throw new PaymentError(
+      PaymentErrorCode.NOT_SUPPORTED,
+      "Square only tokenizes cards entered in its card form. Call mountCard() and tokenizeCard() instead."
+    );
+  }
+
+  /**
+   * Attach the Web Payments card form to a container
+   * Card data is entered into Square iframes and never passes through our JavaScript
+   *
+   * @param onEvent - Called for every card form event
+   */
+  async mountCard(
+    options: SquareCardMountOptions,
+    onEvent?: (event: SquareCardInputEvent) => void
+  ): Promise<void> {
+    if (!this.payments) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Square SDK not initialized. Call initialize() first."
+      );
+    }
+
+    await this.destroyCard();
+
+    try {
+      console.debug("[Square] Attaching card form...");
+
+      const card = await this.payments.card({
+        style: options.style,
+        postalCode: options.postalCode
+      });
+
+      if (onEvent) {
+        for (const event of CARD_EVENTS) {
+          card.addEventListener(event, onEvent);
+        }
+      }
+
+      await card.attach(options.container);
+
+      this.card = card;
+      this.verification = options.verification || null;
+      console.debug("[Square] Card form attached");
+    } catch (error) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Failed to attach Square card form",
+        error
+      );
+    }
+  }
+
+  /**
+   * Tokenize the card form into a source id
+   * With verification details, verifyBuyer() runs SCA and may show the issuer's challenge
+   */
+  async tokenizeCard(verification?: SquareVerificationDetails): Promise<SquareTokenResult> {
+    if (!this.payments || !this.card) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Square card form not attached. Call mountCard() first."
+      );
+    }
+
+    console.debug("[Square] Tokenizing card...");
+
+    const result = await this.card.tokenize();
+
+    if (result.status !== "OK" || !result.token) {
+      const message = result.errors?.map((error) => error.message).join(", ");
+      throw new PaymentError(
+        result.status === "Invalid" ? PaymentErrorCode.VALIDATION_ERROR : PaymentErrorCode.TOKENIZATION_FAILED,
+        message || `Square tokenization failed: ${result.status}`,
+        { status: result.status, errors: result.errors }
+      );
+    }
+
+    console.debug(`[Square] Source id created: ${result.token}`);
+
+    const details = verification || this.verification;
+    const verificationToken = details
+      ? await this.verifyBuyer(result.token, details)
+      : undefined;
+
+    return toTokenResult(result.token, {
+      verificationToken,
+      card: result.details?.card,
+      postalCode: result.details?.billing?.postalCode
+    });
+  }
+
+  /**
+   * Verify the buyer for a source id (SCA)
+   * Returns the verification token to send with the payment
+   */
+  async verifyBuyer(sourceId: string, details: SquareVerificationDetails): Promise<string> {
+    if (!this.payments) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Square SDK not initialized. Call initialize() first."
+      );
+    }
+
+    const intent = details.intent || "CHARGE";
+
+    if (intent === "CHARGE" && (details.amount === undefined || details.amount <= 0)) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        "Square buyer verification for a charge requires a positive amount"
+      );
+    }
+
+    try {
+      console.debug("[Square] Verifying buyer...");
+
+      const { amount, ...rest } = details;
+      const result = await this.payments.verifyBuyer(sourceId, {
+        ...rest,
+        intent,
+        // Square expects the amount as a decimal string, e.g. "10.99"
+        amount: amount !== undefined
+          ? amount.toFixed(getCurrencyDecimals(details.currencyCode))
+          : undefined
+      });
+
+      if (!result?.token) {
+        throw new PaymentError(
+          PaymentErrorCode.TOKENIZATION_FAILED,
+          "Square returned no verification token"
+        );
+      }
+
+      console.debug(`[Square] Buyer verified${result.userChallenged ? " after challenge" : ""}`);
+      return result.token;
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        "Square buyer verification failed",
+        error
+      );
+    }
+  }
+
+  /**
+   * Check if the card form is attached
+   */
+  hasMountedCard(): boolean {
+    return this.card !== null;
+  }
+
+  /**
+   * Destroy the card form
+   */
+  async destroyCard(): Promise<void> {
+    if (!this.card) {
+      return;
+    }
+
+    const card = this.card;
+    this.card = null;
+    this.verification = null;
+
+    try {
+      await card.destroy();
+      console.debug("[Square] Card form destroyed");
+    } catch (error) {
+      console.debug("[Square] Card form destroy failed:", error);
+    }
+  }
+
+  /**
+   * Reset Square instance
+   */
+  reset(): void {
+    void this.destroyCard();
+    this.payments = null;
+    this.squareReadyPromise = null;
+    console.debug("[Square] Reset complete");
+  }
+
+  /**
+   * Check if Square is ready
+   */
+  isReady(): boolean {
+    return this.payments !== null;
+  }
+}
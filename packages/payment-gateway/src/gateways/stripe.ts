@@ -4,19 +4,54 @@
  */
 
 import {
+  BankAccountInput,
+  BankAccountProvider,
+  BankAccountTokenResult,
+  BnplPaymentRequest,
+  BnplProvider,
+  BnplTokenResult,
   CardInput,
+  DirectDebitInput,
+  DirectDebitTokenResult,
   PaymentError,
   PaymentErrorCode,
   StripeInstance,
-  EnvironmentAdapter
+  StripeElement,
+  StripeElements,
+  StripeElementType,
+  StripeElementsMountOptions,
+  StripeBillingDetails,
+  StripeBnplConfirmData,
+  StripeBnplConfirmResult,
+  StripePaymentRequest,
+  StripePaymentRequestOptions,
+  StripeTokenResult,
+  EnvironmentAdapter,
+  FutureUseConsent,
+  FutureUseSetupRequest,
+  FutureUseSetupResult,
+  GatewayProvider,
+  GatewayCapabilities,
+  PendingPaymentResult,
+  StripeVoucherConfirmData,
+  StripeVoucherConfirmResult,
+  VoucherPaymentMethodType,
+  VoucherPaymentRequest,
+  WalletAvailability,
+  WalletPaymentRequest,
+  WalletProvider,
+  WalletType
 } from "../types";
-import { loadScript } from "../utils";
+import { ScriptLoader } from "../utils";
+import { toSmallestUnit } from "../utils/currency";
+import { checkEnvironmentMismatch } from "../utils/environment";
+import { electronicFormatIBAN } from "../utils/iban-validation";
+import { toStripeMandateData } from "../utils/mandate";
+import { toVoucherDetails } from "../utils/vouchers";
+import { completeWalletPayment, NO_WALLETS, selectWalletType } from "../utils/wallets";
 
 const STRIPE_JS_URL = "https://js.stripe.com/v3/";
 
-let stripeInstance: StripeInstance | null = null;
-let stripeReadyPromise: Promise<void> | null = null;
-
 /**
  * Get Stripe publishable key from configuration
  */
@@ -37,136 +72,955 @@ function getStripePublishableKey(adapter: EnvironmentAdapter): string {
     );
   }
 
+  // Stripe.js is served from one URL; the key prefix decides test vs live mode
+  const keyEnvironment = key.startsWith("pk_live_")
+    ? "production"
+    : key.startsWith("pk_test_")
+      ? "sandbox"
+      : null;
+  checkEnvironmentMismatch("Stripe", "publishable key", keyEnvironment, adapter);
+
   return key;
 }
 
 /**
- * Initialize Stripe SDK
+ * Create a SetupIntent on the backend and return its client secret
+ * Calls /api/payments/stripe/setup-intent
+ *
+ * @param options - Customer to attach the payment method to, with their consent to future charges
  */
-export async function initializeStripe(adapter: EnvironmentAdapter): Promise<void> {
-  if (!adapter.isBrowser()) {
+async function createSetupIntent(
+  paymentMethodType: string,
+  adapter: EnvironmentAdapter,
+  options: { customerId?: string; consent?: FutureUseConsent; makeDefault?: boolean } = {}
+): Promise<string> {
+  const apiBaseUrl = adapter.getConfig("apiBaseUrl") || "";
+  const response = await adapter.fetch(`${apiBaseUrl}/api/payments/stripe/setup-intent`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({
+      paymentMethodType,
+      customerId: options.customerId,
+      usage: options.consent?.usage,
+      consent: options.consent,
+      makeDefault: options.makeDefault
+    })
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.clientSecret) {
     throw new PaymentError(
-      PaymentErrorCode.SDK_LOAD_FAILED,
-      "Cannot initialize Stripe in server environment"
+      PaymentErrorCode.TOKENIZATION_FAILED,
+      result.error || `Failed to create Stripe SetupIntent: ${response.status}`,
+      { status: response.status }
     );
   }
 
-  if (stripeInstance) {
-    console.debug("[Stripe] Already initialized");
-    return;
+  return result.clientSecret;
+}
+
+/**
+ * Create an unconfirmed PaymentIntent on the backend and return its client secret
+ * Calls /api/payments/stripe/payment-intent
+ */
+async function createPaymentIntent(
+  params: { paymentMethodType: string; amount: number; currency: string; metadata?: Record<string, string> },
+  adapter: EnvironmentAdapter
+): Promise<string> {
+  const apiBaseUrl = adapter.getConfig("apiBaseUrl") || "";
+  const response = await adapter.fetch(`${apiBaseUrl}/api/payments/stripe/payment-intent`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({
+      paymentMethodType: params.paymentMethodType,
+      amount: toSmallestUnit(params.amount, params.currency),
+      currency: params.currency.toLowerCase(),
+      metadata: params.metadata
+    })
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.clientSecret) {
+    throw new PaymentError(
+      PaymentErrorCode.TOKENIZATION_FAILED,
+      result.error || `Failed to create Stripe PaymentIntent: ${response.status}`,
+      { status: response.status }
+    );
   }
 
-  if (stripeReadyPromise) {
-    console.debug("[Stripe] Already initializing, waiting...");
-    return stripeReadyPromise;
+  return result.clientSecret;
+}
+
+/**
+ * Confirm a BNPL PaymentIntent with the provider-specific Stripe.js method
+ */
+function confirmBnplIntent(
+  stripe: StripeInstance,
+  provider: Exclude<BnplProvider, "paypal_paylater">,
+  clientSecret: string,
+  data: StripeBnplConfirmData
+): Promise<StripeBnplConfirmResult> {
+  const options = { handleActions: false } as const;
+
+  switch (provider) {
+    case "klarna":
+      return stripe.confirmKlarnaPayment(clientSecret, data, options);
+    case "afterpay_clearpay":
+      return stripe.confirmAfterpayClearpayPayment(clientSecret, data, options);
+    case "affirm":
+      return stripe.confirmAffirmPayment(clientSecret, data, options);
   }
+}
 
-  stripeReadyPromise = (async () => {
-    try {
-      console.debug("[Stripe] Starting initialization...");
+/**
+ * Confirm a voucher PaymentIntent with the method-specific Stripe.js method
+ */
+function confirmVoucherIntent(
+  stripe: StripeInstance,
+  paymentMethodType: VoucherPaymentMethodType,
+  clientSecret: string,
+  data: StripeVoucherConfirmData
+): Promise<StripeVoucherConfirmResult> {
+  const options = { handleActions: false } as const;
+
+  switch (paymentMethodType) {
+    case "oxxo":
+      return stripe.confirmOxxoPayment(clientSecret, data, options);
+    case "boleto":
+      return stripe.confirmBoletoPayment(clientSecret, data, options);
+    case "konbini":
+      return stripe.confirmKonbiniPayment(clientSecret, data, options);
+  }
+}
 
-      await loadScript(STRIPE_JS_URL, adapter);
+/**
+ * Wrap a PaymentMethod ID as a token result
+ */
+function toTokenResult(paymentMethodId: string, walletType?: WalletType): StripeTokenResult {
+  return {
+    gatewayName: "Stripe",
+    tokenType: "paymentMethodId",
+    token: paymentMethodId,
+    ...(walletType && { walletType })
+  };
+}
+
+/**
+ * PaymentRequest created for a wallet request, waiting to be shown
+ */
+interface PendingPaymentRequest {
+  key: string;
+  paymentRequest: StripePaymentRequest;
+  availability: Promise<WalletAvailability>;
+}
+
+/**
+ * Wallets hidden from a Stripe PaymentRequest so only the requested one is offered
+ */
+function getDisabledWallets(walletType?: WalletType): StripePaymentRequestOptions["disableWallets"] {
+  switch (walletType) {
+    case "applePay":
+      return ["googlePay", "browserCard", "link"];
+    case "googlePay":
+      return ["applePay", "browserCard", "link"];
+    default:
+      return ["browserCard", "link"];
+  }
+}
+
+/**
+ * Stripe Gateway Provider
+ * Each instance owns its own Stripe.js instance and readiness state
+ */
+export class StripeGateway implements GatewayProvider, WalletProvider, BankAccountProvider {
+  readonly name = "Stripe";
+
+  readonly capabilities: GatewayCapabilities = {
+    cardTokenization: true,
+    threeDSecure: true,
+    hostedFields: true
+  };
+
+  // Financial Connections collects routing and account numbers in Stripe's own modal
+  readonly requiresBankAccountDetails = false;
+
+  private stripeInstance: StripeInstance | null = null;
+  private stripeReadyPromise: Promise<void> | null = null;
+  private elements: StripeElements | null = null;
+  private element: StripeElement | null = null;
+  private elementType: StripeElementType | null = null;
+  private walletRequest: PendingPaymentRequest | null = null;
+
+  constructor(private scripts: ScriptLoader = new ScriptLoader()) {}
+
+  /**
+   * Initialize Stripe SDK
+   */
+  async initialize(adapter: EnvironmentAdapter): Promise<void> {
+    if (!adapter.isBrowser()) {
+      throw new PaymentError(
+        PaymentErrorCode.SDK_LOAD_FAILED,
+        "Cannot initialize Stripe in server environment"
+      );
+    }
+
+    if (this.stripeInstance) {
+      console.debug("[Stripe] Already initialized");
+      return;
+    }
+
+    if (this.stripeReadyPromise) {
+      console.debug("[Stripe] Already initializing, waiting...");
+      return this.stripeReadyPromise;
+    }
+
+    this.stripeReadyPromise = (async () => {
+      try {
+        console.debug("[Stripe] Starting initialization...");
+
+        await this.scripts.load(STRIPE_JS_URL, adapter);
+
+        if (!window.Stripe) {
+          throw new PaymentError(
+            PaymentErrorCode.SDK_LOAD_FAILED,
+            "Stripe.js loaded but window.Stripe is undefined"
+          );
+        }
+
+        const publishableKey = getStripePublishableKey(adapter);
+        this.stripeInstance = window.Stripe(publishableKey);
+
+        console.debug("[Stripe] Initialization complete");
+      } catch (error) {
+        this.stripeReadyPromise = null;
+
+        if (error instanceof PaymentError) {
+          throw error;
+        }
 
-      if (!window.Stripe) {
         throw new PaymentError(
           PaymentErrorCode.SDK_LOAD_FAILED,
-          "Stripe.js loaded but window.Stripe is undefined"
+          "Failed to initialize Stripe SDK",
+          error
+        );
+      }
+    })();
+
+    return this.stripeReadyPromise;
+  }
+
+  /**
+   * Create payment method token from card details
+   *
+   * For Edge Checkout scenarios, this calls the backend API endpoint
+   * since Stripe doesn't allow raw card data from browser with publishable key.
+   * Raw card data reaching the backend puts it in full PCI DSS scope;
+   * prefer mountElements() + tokenizeElements() where possible.
+   */
+  async tokenize(card: CardInput, adapter: EnvironmentAdapter): Promise<StripeTokenResult> {
+    try {
+      console.debug("[Stripe] Creating payment method via backend API...");
+
+      const apiBaseUrl = adapter.getConfig("apiBaseUrl") || "";
+      const response = await adapter.fetch(`${apiBaseUrl}/api/payments/stripe/create-payment-method`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          cardNumber: card.number,
+          expMonth: card.expMonth,
+          expYear: card.expYear,
+          cvc: card.cvc
+        })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || result.error) {
+        throw new PaymentError(
+          PaymentErrorCode.INVALID_CARD,
+          result.error || "Invalid card details",
+          { code: result.code }
         );
       }
 
-      const publishableKey = getStripePublishableKey(adapter);
-      stripeInstance = window.Stripe(publishableKey);
+      if (!result.paymentMethodId) {
+        throw new PaymentError(
+          PaymentErrorCode.TOKENIZATION_FAILED,
+          "No payment method ID returned"
+        );
+      }
 
-      console.debug("[Stripe] Initialization complete");
+      console.debug(`[Stripe] Payment method created: ${result.paymentMethodId}`);
+      return toTokenResult(result.paymentMethodId);
     } catch (error) {
-      stripeReadyPromise = null;
+      if (error instanceof PaymentError) {
+        throw error;
+      }
 
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        "Failed to create Stripe payment method",
+        error
+      );
+    }
+  }
+
+  /**
+   * Link a US bank account through Financial Connections
+   * The customer picks their bank (or enters details manually) in Stripe's modal;
+   * the backend confirms the returned SetupIntent with the ACH mandate
+   */
+  async tokenizeBankAccount(
+    bankAccount: BankAccountInput,
+    adapter: EnvironmentAdapter
+  ): Promise<BankAccountTokenResult> {
+    if (!this.stripeInstance) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Stripe SDK not initialized. Call initialize() first."
+      );
+    }
+
+    try {
+      console.debug("[Stripe] Creating SetupIntent for us_bank_account...");
+      const clientSecret = await createSetupIntent("us_bank_account", adapter);
+
+      console.debug("[Stripe] Opening Financial Connections...");
+      const result = await this.stripeInstance.collectBankAccountForSetup({
+        clientSecret,
+        params: {
+          payment_method_type: "us_bank_account",
+          payment_method_data: {
+            billing_details: {
+              name: bankAccount.accountHolderName,
+              email: bankAccount.email
+            }
+          }
+        },
+        expand: ["payment_method"]
+      });
+
+      if (result.error) {
+        throw new PaymentError(
+          PaymentErrorCode.TOKENIZATION_FAILED,
+          result.error.message,
+          { error: result.error }
+        );
+      }
+
+      const setupIntent = result.setupIntent;
+
+      // requires_payment_method means the modal was closed without linking an account
+      if (!setupIntent?.payment_method || setupIntent.status === "requires_payment_method") {
+        throw new PaymentError(
+          PaymentErrorCode.CANCELED,
+          "Customer closed Financial Connections without linking a bank account"
+        );
+      }
+
+      const paymentMethod = setupIntent.payment_method;
+      const details = typeof paymentMethod === "string" ? undefined : paymentMethod.us_bank_account;
+      const paymentMethodId = typeof paymentMethod === "string" ? paymentMethod : paymentMethod.id;
+
+      console.debug(`[Stripe] Bank account payment method created: ${paymentMethodId}`);
+
+      return {
+        gatewayName: "Stripe",
+        tokenType: "bankAccount",
+        token: paymentMethodId,
+        accountType: bankAccount.accountType,
+        last4: details?.last4,
+        bankName: details?.bank_name,
+        setupIntentId: setupIntent.id
+      };
+    } catch (error) {
       if (error instanceof PaymentError) {
         throw error;
       }
 
       throw new PaymentError(
-        PaymentErrorCode.SDK_LOAD_FAILED,
-        "Failed to initialize Stripe SDK",
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        "Failed to link Stripe bank account",
         error
       );
     }
-  })();
+  }
 
-  return stripeReadyPromise;
-}
+  /**
+   * Create a sepa_debit or bacs_debit PaymentMethod
+   * The mandate acceptance is returned with the token so the backend can pass
+   * mandate_data when confirming the PaymentIntent / SetupIntent
+   */
+  async tokenizeDirectDebit(input: DirectDebitInput): Promise<DirectDebitTokenResult> {
+    if (!this.stripeInstance) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Stripe SDK not initialized. Call initialize() first."
+      );
+    }
 
-/**
- * Create payment method token from card details
- *
- * For Edge Checkout scenarios, this calls the backend API endpoint
- * since Stripe doesn't allow raw card data from browser with publishable key
- */
-export async function createStripeToken(
-  card: CardInput,
-  adapter: EnvironmentAdapter
-): Promise<string> {
-  try {
-    console.debug("[Stripe] Creating payment method via backend API...");
-
-    const apiBaseUrl = adapter.getConfig("apiBaseUrl") || "";
-    const response = await adapter.fetch(`${apiBaseUrl}/api/payments/stripe/create-payment-method`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
+    const address = input.billingAddress;
+
+    try {
+      console.debug(`[Stripe] Creating ${input.scheme} payment method...`);
+
+      const result = await this.stripeInstance.createPaymentMethod({
+        type: input.scheme,
+        ...(input.scheme === "sepa_debit"
+          ? { sepa_debit: { iban: electronicFormatIBAN(input.iban || "") } }
+          : {
+            bacs_debit: {
+              sort_code: (input.sortCode || "").replace(/\D/g, ""),
+              account_number: (input.accountNumber || "").replace(/\D/g, "")
+            }
+          }),
+        billing_details: {
+          name: input.accountHolderName,
+          email: input.email,
+          address: address && {
+            line1: address.address,
+            line2: address.address2,
+            city: address.city,
+            state: address.state,
+            postal_code: address.zip,
+            country: address.country
+          }
+        }
+      });
+
+      if (result.error) {
+        throw new PaymentError(
+          PaymentErrorCode.VALIDATION_ERROR,
+          result.error.message,
+          { error: result.error }
+        );
+      }
+
+      const paymentMethod = result.paymentMethod;
+
+      if (!paymentMethod?.id) {
+        throw new PaymentError(
+          PaymentErrorCode.TOKENIZATION_FAILED,
+          "No payment method ID returned"
+        );
+      }
+
+      console.debug(`[Stripe] ${input.scheme} payment method created: ${paymentMethod.id}`);
+
+      return {
+        gatewayName: "Stripe",
+        tokenType: "directDebit",
+        token: paymentMethod.id,
+        scheme: input.scheme,
+        last4: paymentMethod.sepa_debit?.last4 || paymentMethod.bacs_debit?.last4,
+        mandate: input.mandate,
+        mandateData: toStripeMandateData(input.mandate)
+      };
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        `Failed to create Stripe ${input.scheme} payment method`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Mount a Card Element or Payment Element into a caller-supplied container
+   * Card data is collected in Stripe-hosted iframes and never touches our JavaScript
+   */
+  mountElements(options: StripeElementsMountOptions): void {
+    if (!this.stripeInstance) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Stripe SDK not initialized. Call initialize() first."
+      );
+    }
+
+    const elementType = options.elementType || "card";
+
+    if (elementType === "payment" && !options.elementsOptions?.currency) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        "Payment Element requires elementsOptions with mode, amount and currency"
+      );
+    }
+
+    this.unmountElements();
+
+    console.debug(`[Stripe] Mounting ${elementType} element...`);
+
+    this.elements = this.stripeInstance.elements(
+      elementType === "payment"
+        ? { paymentMethodCreation: "manual", ...options.elementsOptions }
+        : options.elementsOptions
+    );
+    this.element = this.elements.create(elementType, options.elementOptions);
+    this.elementType = elementType;
+
+    if (options.onChange) {
+      this.element.on("change", options.onChange);
+    }
+
+    this.element.mount(options.container);
+    console.debug(`[Stripe] ${elementType} element mounted`);
+  }
+
+  /**
+   * Create a payment method from the mounted element
+   */
+  async tokenizeElements(billingDetails?: StripeBillingDetails): Promise<StripeTokenResult> {
+    if (!this.stripeInstance || !this.elements || !this.element) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Stripe Elements not mounted. Call mountElements() first."
+      );
+    }
+
+    try {
+      console.debug("[Stripe] Creating payment method from Elements...");
+
+      let result: Awaited<ReturnType<StripeInstance["createPaymentMethod"]>>;
+
+      if (this.elementType === "payment") {
+        const submitResult = await this.elements.submit();
+
+        if (submitResult.error) {
+          throw new PaymentError(
+            PaymentErrorCode.VALIDATION_ERROR,
+            submitResult.error.message,
+            { error: submitResult.error }
+          );
+        }
+
+        result = await this.stripeInstance.createPaymentMethod({
+          elements: this.elements,
+          params: billingDetails ? { billing_details: billingDetails } : undefined
+        });
+      } else {
+        result = await this.stripeInstance.createPaymentMethod({
+          type: "card",
+          card: this.element,
+          billing_details: billingDetails
+        });
+      }
+
+      if (result.error) {
+        throw new PaymentError(
+          PaymentErrorCode.INVALID_CARD,
+          result.error.message,
+          { error: result.error }
+        );
+      }
+
+      if (!result.paymentMethod?.id) {
+        throw new PaymentError(
+          PaymentErrorCode.TOKENIZATION_FAILED,
+          "No payment method ID returned"
+        );
+      }
+
+      console.debug(`[Stripe] Payment method created: ${result.paymentMethod.id}`);
+      return toTokenResult(result.paymentMethod.id);
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        "Failed to create Stripe payment method from Elements",
+        error
+      );
+    }
+  }
+
+  /**
+   * Check if an element is currently mounted
+   */
+  hasMountedElements(): boolean {
+    return this.element !== null;
+  }
+
+  /**
+   * Unmount and destroy the mounted element
+   */
+  unmountElements(): void {
+    if (this.element) {
+      this.element.destroy();
+      console.debug("[Stripe] Element destroyed");
+    }
+
+    this.element = null;
+    this.elements = null;
+    this.elementType = null;
+  }
+
+  /**
+   * Get a PaymentRequest for the wallet request, reusing the pending one for the same total
+   * Stripe only shows a PaymentRequest that has already answered canMakePayment()
+   */
+  private getPaymentRequest(request: WalletPaymentRequest): PendingPaymentRequest {
+    if (!this.stripeInstance) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Stripe SDK not initialized. Call initialize() first."
+      );
+    }
+
+    const key = [request.amount, request.currency, request.country, request.label, request.walletType].join("|");
+
+    if (this.walletRequest?.key === key) {
+      return this.walletRequest;
+    }
+
+    const paymentRequest = this.stripeInstance.paymentRequest({
+      country: request.country.toUpperCase(),
+      currency: request.currency.toLowerCase(),
+      total: {
+        label: request.label,
+        amount: toSmallestUnit(request.amount, request.currency)
       },
-      body: JSON.stringify({
-        cardNumber: card.number,
-        expMonth: card.expMonth,
-        expYear: card.expYear,
-        cvc: card.cvc
-      })
+      disableWallets: getDisabledWallets(request.walletType)
+    });
+
+    const availability = paymentRequest.canMakePayment()
+      .then((result) => ({
+        applePay: !!result?.applePay,
+        googlePay: !!result?.googlePay
+      }))
+      .catch((error) => {
+        console.debug("[Stripe] canMakePayment failed", error);
+        return { ...NO_WALLETS };
+      });
+
+    this.walletRequest = { key, paymentRequest, availability };
+    return this.walletRequest;
+  }
+
+  /**
+   * Check which wallets Stripe can present for this request
+   * Calling this before tokenizeWallet() lets the sheet open without further async work
+   */
+  async canMakeWalletPayment(request: WalletPaymentRequest): Promise<WalletAvailability> {
+    return this.getPaymentRequest(request).availability;
+  }
+
+  /**
+   * Show the Apple Pay / Google Pay sheet and create a PaymentMethod from it
+   * Must be called from a user gesture (click handler)
+   */
+  async tokenizeWallet(request: WalletPaymentRequest): Promise<StripeTokenResult> {
+    const { paymentRequest, availability } = this.getPaymentRequest(request);
+
+    // Event handlers stay attached to a shown PaymentRequest, so it is never reused
+    this.walletRequest = null;
+
+    const walletType = selectWalletType(request, await availability, this.name);
+
+    console.debug(`[Stripe] Showing ${walletType} payment sheet...`);
+
+    return new Promise((resolve, reject) => {
+      paymentRequest.on("paymentmethod", (event) => {
+        console.debug(`[Stripe] Wallet payment method created: ${event.paymentMethod.id}`);
+
+        const token = toTokenResult(
+          event.paymentMethod.id,
+          event.walletName === "applePay" || event.walletName === "googlePay"
+            ? event.walletName
+            : walletType
+        );
+
+        // The sheet stays open until request.onAuthorized reports the payment outcome
+        completeWalletPayment(request, token).then(
+          (result) => {
+            event.complete("success");
+            resolve(result);
+          },
+          (error) => {
+            event.complete("fail");
+            reject(error);
+          }
+        );
+      });
+
+      paymentRequest.on("cancel", () => {
+        reject(new PaymentError(PaymentErrorCode.CANCELED, `Customer canceled ${walletType}`));
+      });
+
+      paymentRequest.show();
     });
+  }
+
+  /**
+   * Confirm a Klarna, Afterpay / Clearpay or Affirm PaymentIntent
+   * Actions are not handled here, so the result carries the provider URL to redirect to
+   */
+  async confirmBnplPayment(
+    request: BnplPaymentRequest,
+    adapter: EnvironmentAdapter
+  ): Promise<BnplTokenResult> {
+    const stripe = this.stripeInstance;
+
+    if (!stripe) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Stripe SDK not initialized. Call initialize() first."
+      );
+    }
+
+    const provider = request.provider;
+
+    if (provider === "paypal_paylater") {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        "PayPal Pay Later is only available through Braintree"
+      );
+    }
+
+    try {
+      const clientSecret = await createPaymentIntent({
+        paymentMethodType: provider,
+        amount: request.amount,
+        currency: request.currency,
+        metadata: request.metadata
+      }, adapter);
+
+      console.debug(`[Stripe] Confirming ${provider} PaymentIntent...`);
+
+      const result = await confirmBnplIntent(stripe, provider, clientSecret, {
+        payment_method: { billing_details: request.billingDetails || {} },
+        ...(request.shipping && { shipping: request.shipping }),
+        return_url: request.returnUrl || ""
+      });
+
+      if (result.error) {
+        throw new PaymentError(
+          PaymentErrorCode.VALIDATION_ERROR,
+          result.error.message,
+          { error: result.error }
+        );
+      }
+
+      const paymentIntent = result.paymentIntent;
+      const redirectUrl = paymentIntent?.next_action?.redirect_to_url?.url;
+
+      if (!paymentIntent?.id || !redirectUrl) {
+        throw new PaymentError(
+          PaymentErrorCode.TOKENIZATION_FAILED,
+          `No ${provider} redirect URL returned`,
+          { status: paymentIntent?.status }
+        );
+      }
+
+      console.debug(`[Stripe] ${provider} PaymentIntent confirmed: ${paymentIntent.id}`);
+
+      return {
+        gatewayName: "Stripe",
+        tokenType: "bnpl",
+        token: paymentIntent.id,
+        provider,
+        redirectUrl
+      };
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
 
-    const result = await response.json();
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        `Failed to confirm Stripe ${provider} payment`,
+        error
+      );
+    }
+  }
 
-    if (!response.ok || result.error) {
+  /**
+   * Save a card PaymentMethod to a customer for later charges
+   * Confirms a SetupIntent created for the customer; Stripe.js shows the 3D Secure
+   * challenge if the issuer asks for one
+   */
+  async confirmCardSetup(
+    paymentMethodId: string,
+    request: FutureUseSetupRequest,
+    adapter: EnvironmentAdapter
+  ): Promise<FutureUseSetupResult> {
+    if (!this.stripeInstance) {
       throw new PaymentError(
-        PaymentErrorCode.INVALID_CARD,
-        result.error || "Invalid card details",
-        { code: result.code }
+        PaymentErrorCode.NOT_READY,
+        "Stripe SDK not initialized. Call initialize() first."
       );
     }
 
-    if (!result.paymentMethodId) {
+    try {
+      const clientSecret = await createSetupIntent("card", adapter, {
+        customerId: request.customerId,
+        consent: request.consent,
+        makeDefault: request.makeDefault
+      });
+
+      console.debug("[Stripe] Confirming card SetupIntent...");
+
+      const result = await this.stripeInstance.confirmCardSetup(clientSecret, {
+        payment_method: paymentMethodId
+      });
+
+      if (result.error) {
+        throw new PaymentError(
+          PaymentErrorCode.INVALID_CARD,
+          result.error.message,
+          { error: result.error }
+        );
+      }
+
+      const setupIntent = result.setupIntent;
+
+      if (setupIntent?.status !== "succeeded") {
+        throw new PaymentError(
+          PaymentErrorCode.TOKENIZATION_FAILED,
+          `Card setup did not complete: ${setupIntent?.status || "no SetupIntent returned"}`,
+          { status: setupIntent?.status }
+        );
+      }
+
+      const savedPaymentMethodId = typeof setupIntent.payment_method === "string"
+        ? setupIntent.payment_method
+        : setupIntent.payment_method?.id || paymentMethodId;
+
+      console.debug(`[Stripe] SetupIntent confirmed: ${setupIntent.id}`);
+
+      return {
+        gatewayName: "Stripe",
+        customerId: request.customerId,
+        paymentMethodId: savedPaymentMethodId,
+        setupIntentId: setupIntent.id,
+        consent: request.consent
+      };
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
       throw new PaymentError(
         PaymentErrorCode.TOKENIZATION_FAILED,
-        "No payment method ID returned"
+        "Failed to confirm Stripe card SetupIntent",
+        error
+      );
+    }
+  }
+
+  /**
+   * Create an OXXO, Boleto or Konbini voucher
+   * Confirms the PaymentIntent without showing Stripe's voucher modal and returns
+   * the voucher details so the application can display them
+   */
+  async confirmVoucherPayment(
+    request: VoucherPaymentRequest,
+    adapter: EnvironmentAdapter
+  ): Promise<PendingPaymentResult> {
+    if (!this.stripeInstance) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        "Stripe SDK not initialized. Call initialize() first."
       );
     }
 
-    console.debug(`[Stripe] Payment method created: ${result.paymentMethodId}`);
-    return result.paymentMethodId;
-  } catch (error) {
-    if (error instanceof PaymentError) {
-      throw error;
+    const { paymentMethodType } = request;
+
+    try {
+      const clientSecret = await createPaymentIntent({
+        paymentMethodType,
+        amount: request.amount,
+        currency: request.currency,
+        metadata: request.metadata
+      }, adapter);
+
+      console.debug(`[Stripe] Confirming ${paymentMethodType} PaymentIntent...`);
+
+      const result = await confirmVoucherIntent(this.stripeInstance, paymentMethodType, clientSecret, {
+        payment_method: {
+          billing_details: request.billingDetails,
+          ...(paymentMethodType === "boleto" && {
+            boleto: { tax_id: (request.taxId || "").replace(/\D/g, "") }
+          })
+        }
+      });
+
+      if (result.error) {
+        throw new PaymentError(
+          PaymentErrorCode.VALIDATION_ERROR,
+          result.error.message,
+          { error: result.error }
+        );
+      }
+
+      const paymentIntent = result.paymentIntent;
+      const voucher = toVoucherDetails(paymentMethodType, paymentIntent?.next_action);
+
+      if (!paymentIntent?.id || !voucher) {
+        throw new PaymentError(
+          PaymentErrorCode.TOKENIZATION_FAILED,
+          `No ${paymentMethodType} voucher details returned`,
+          { status: paymentIntent?.status }
+        );
+      }
+
+      console.debug(`[Stripe] ${paymentMethodType} voucher created: ${paymentIntent.id}`);
+
+      return {
+        gatewayName: "Stripe",
+        paymentIntentId: paymentIntent.id,
+        paymentMethodType,
+        status: "pending",
+        voucher
+      };
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        `Failed to create Stripe ${paymentMethodType} voucher`,
+        error
+      );
     }
+  }
 
-    throw new PaymentError(
-      PaymentErrorCode.TOKENIZATION_FAILED,
-      "Failed to create Stripe payment method",
-      error
-    );
+  /**
+   * Get the initialized Stripe.js instance
+   */
+  getStripe(): StripeInstance | null {
+    return this.stripeInstance;
   }
-}
 
-/**
- * Reset Stripe instance
- */
-export function resetStripe(): void {
-  stripeInstance = null;
-  stripeReadyPromise = null;
-  console.debug("[Stripe] Reset complete");
-}
+  /**
+   * Reset Stripe instance
+   */
+  reset(): void {
+    this.unmountElements();
+    this.walletRequest = null;
+    this.stripeInstance = null;
+    this.stripeReadyPromise = null;
+    console.debug("[Stripe] Reset complete");
+  }
 
-/**
- * Check if Stripe is ready
- */
-export function isStripeReady(): boolean {
-  return stripeInstance !== null;
+  /**
+   * Check if Stripe is ready
+   */
+  isReady(): boolean {
+    return this.stripeInstance !== null;
+  }
 }
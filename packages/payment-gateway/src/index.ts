@@ -1,7 +1,7 @@
 /**
  * Framework-Agnostic Payment Gateway Library
  *
- * Supports Stripe, Braintree, and Authorize.Net
+ * Supports Stripe, Braintree, Authorize.Net, Adyen, Square, Checkout.com, and Razorpay
  * Works with Next.js, Angular, React, and any JavaScript framework
  */
 
@@ -10,38 +10,26 @@ import {
   CardInput,
   TokenResult,
   GatewayReadyResult,
+  GatewayProvider,
   PaymentError,
   PaymentErrorCode,
   EnvironmentAdapter
 } from "./types";
 
-import {
-  initializeStripe,
-  createStripeToken,
-  resetStripe,
-  isStripeReady
-} from "./gateways/stripe";
-
-import {
-  initializeBraintree,
-  createBraintreeToken,
-  resetBraintree,
-  isBraintreeReady
-} from "./gateways/braintree";
-
-import {
-  initializeAuthorizeNet,
-  createAuthorizeNetToken,
-  resetAuthorizeNet,
-  isAuthorizeNetReady
-} from "./gateways/authorizenet";
+import { createBuiltInProviders, StripeGateway, BraintreeGateway, AdyenGateway, SquareGateway, CheckoutComGateway, RazorpayGateway, ScriptTokenizerGateway } from "./gateways";
 
-import { Storage, STORAGE_KEY_GATEWAY } from "./utils";
+import { Storage, ScriptLoader, STORAGE_KEY_GATEWAY } from "./utils";
 import { logger, LogLevel } from "./utils/logger";
 import { PaymentEventEmitter, PaymentEvent } from "./utils/events";
 import { validateCard } from "./utils/card-validation";
 import { withRetry, RetryOptions } from "./utils/retry";
-import { detectActiveGateway, determinePaymentScenario } from "./utils/gateway-detection";
+import {
+  detectActiveGateway,
+  determinePaymentScenario,
+  getScenarioDefinition,
+  requiresEdgeCheckout,
+  requiresStripeRedirect
+} from "./utils/gateway-detection";
 import {
   createStripeSession,
   redirectToStripeCheckout,
@@ -49,10 +37,99 @@ import {
   isStripeSuccessUrl,
   isStripeCancelUrl
 } from "./utils/stripe-session";
+import {
+  getAvailableRedirectMethods,
+  validateRedirectPaymentRequest,
+  createRedirectPaymentIntent,
+  redirectToBank,
+  extractRedirectResultFromUrl,
+  retrieveRedirectPaymentStatus
+} from "./utils/stripe-redirect";
+import {
+  getAvailableVoucherMethods,
+  validateVoucherPaymentRequest,
+  pollPendingPayment,
+  PendingPaymentPollOptions
+} from "./utils/vouchers";
+import {
+  fetchSavedPaymentMethods,
+  removeSavedPaymentMethod,
+  updateDefaultPaymentMethod,
+  chargeSavedPaymentMethod,
+  saveBraintreePaymentMethod,
+  createAuthorizeNetPaymentProfile
+} from "./utils/vault";
+import {
+  handleStripe3DS,
+  handleBraintree3DS,
+  handleAuthorizeNet3DS,
+  handleAdyen3DS,
+  handleCheckoutCom3DS,
+  ThreeDSAuthenticationRequest,
+  ThreeDSOptions,
+  ThreeDSResult,
+  ThreeDSStatus
+} from "./utils/three-d-secure";
+import {
+  fetchAcceptHostedToken,
+  getAcceptHostedUrl,
+  openAcceptHosted
+} from "./utils/accept-hosted";
+import { getGatewayEnvironment } from "./utils/environment";
+import { NO_WALLETS, supportsWallets } from "./utils/wallets";
+import { supportsBankAccounts, validateBankAccount } from "./utils/bank-account";
+import { validateDirectDebit } from "./utils/iban-validation";
+import {
+  BNPL_PROVIDERS,
+  checkBnplEligibility,
+  getEligibleBnplProviders,
+  redirectToBnplProvider,
+  validateBnplPaymentRequest
+} from "./utils/bnpl";
 import type {
+  AcceptHostedTokenRequest,
+  AcceptHostedOptions,
+  AcceptHostedResult,
+  AcceptHostedDisplayMode,
+  AdyenAction,
+  AdyenActionOptions,
+  AdyenComponentMountOptions,
+  AdyenPaymentResponse,
+  SquareCardField,
+  SquareCardMountOptions,
+  SquareVerificationDetails,
+  CheckoutComFramesMountOptions,
+  RazorpayCheckoutRequest,
+  PaymentMethodTokenInput,
+  PaymentMethodTokenResult,
+  PaymentScenarioInput,
+  BraintreeHostedFieldsOptions,
+  BraintreePayPalOptions,
+  BraintreeVenmoOptions,
+  StripeElementsMountOptions,
+  StripeBillingDetails,
   PaymentConfiguration,
+  WalletAvailability,
+  WalletPaymentRequest,
+  WalletProvider,
+  BankAccountInput,
+  DirectDebitInput,
+  BnplPaymentRequest,
+  BnplProvider,
   StripeSessionRequest,
   StripeSessionResponse,
+  RedirectPaymentMethodType,
+  RedirectPaymentRequest,
+  RedirectPaymentIntentResponse,
+  RedirectPaymentResult,
+  VoucherPaymentMethodType,
+  VoucherPaymentRequest,
+  PendingPaymentResult,
+  SavedPaymentMethod,
+  SavedMethodPaymentRequest,
+  SavedMethodPaymentResult,
+  FutureUseSetupRequest,
+  FutureUseSetupResult,
   GatewayDetectionResponse
 } from "./types";
 
@@ -64,6 +141,8 @@ export class PaymentGatewayManager {
   private adapter: EnvironmentAdapter;
   private storage: Storage;
   private readinessPromises: Partial<Record<GatewayName, Promise<void>>> = {};
+  private providers = new Map<GatewayName, GatewayProvider>();
+  private scripts = new ScriptLoader();
   private paymentConfig: PaymentConfiguration | null = null;
 
   /**
@@ -101,11 +180,81 @@ export class PaymentGatewayManager {
     this.events = new PaymentEventEmitter();
     this.autoDetectGateway = options?.autoDetectGateway ?? true;
 
+    for (const provider of createBuiltInProviders(this.scripts)) {
+      this.providers.set(provider.name, provider);
+    }
+
     logger.info('Payment Gateway Manager initialized', {
       autoDetect: this.autoDetectGateway
     });
   }
 
+  /**
+   * Register a gateway provider
+   * Custom providers can be added, or built-in ones replaced by registering the same name
+   */
+  registerGateway(provider: GatewayProvider): void {
+    const existing = this.providers.get(provider.name);
+
+    if (existing) {
+      logger.warn(`Replacing registered gateway: ${provider.name}`, {}, provider.name);
+      existing.reset();
+      delete this.readinessPromises[provider.name];
+    }
+
+    this.providers.set(provider.name, provider);
+    logger.debug(`Gateway registered: ${provider.name}`, {
+      capabilities: provider.capabilities
+    }, provider.name);
+  }
+
+  /**
+   * Remove a registered gateway provider
+   */
+  unregisterGateway(gatewayName: GatewayName): boolean {
+    const provider = this.providers.get(gatewayName);
+
+    if (!provider) {
+      return false;
+    }
+
+    provider.reset();
+    delete this.readinessPromises[gatewayName];
+    this.providers.delete(gatewayName);
+    logger.debug(`Gateway unregistered: ${gatewayName}`, {}, gatewayName);
+    return true;
+  }
+
+  /**
+   * Get a registered gateway provider
+   */
+  getGatewayProvider(gatewayName: GatewayName): GatewayProvider | undefined {
+    return this.providers.get(gatewayName);
+  }
+
+  /**
+   * Get names of all registered gateways
+   */
+  getRegisteredGateways(): GatewayName[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Look up a provider or throw NOT_SUPPORTED
+   */
+  private requireProvider(gatewayName: GatewayName): GatewayProvider {
+    const provider = this.providers.get(gatewayName);
+
+    if (!provider) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        `Unsupported gateway: ${gatewayName}`
+      );
+    }
+
+    return provider;
+  }
+
   /**
    * Initialize gateway SDK
    */
@@ -119,27 +268,7 @@ export class PaymentGatewayManager {
       this.events.emitSync(PaymentEvent.GATEWAY_INITIALIZING, { gateway: gatewayName });
       logger.info(`Initializing ${gatewayName} SDK...`, {}, gatewayName);
 
-      const initFn = async () => {
-        switch (gatewayName) {
-          case "Stripe":
-            await initializeStripe(this.adapter);
-            break;
-
-          case "Braintree":
-            await initializeBraintree(this.adapter);
-            break;
-
-          case "Authorize.Net":
-            await initializeAuthorizeNet(this.adapter);
-            break;
-
-          default:
-            throw new PaymentError(
-              PaymentErrorCode.NOT_SUPPORTED,
-              `Unsupported gateway: ${gatewayName}`
-            );
-        }
-      };
+      const initFn = () => this.requireProvider(gatewayName).initialize(this.adapter);
 
       try {
         if (this.enableRetry) {
@@ -199,9 +328,15 @@ export class PaymentGatewayManager {
     card: CardInput,
     gatewayName: GatewayName
   ): Promise<TokenResult> {
-    try {
-      // Validate card if enabled
-      if (this.validateCards) {
+    return this.runTokenization(
+      gatewayName,
+      () => this.requireProvider(gatewayName).tokenize(card, this.adapter),
+      () => {
+        // Validate card if enabled
+        if (!this.validateCards) {
+          return {};
+        }
+
         logger.debug('Validating card details', { gateway: gatewayName }, gatewayName);
         const validation = validateCard(card);
 
@@ -216,53 +351,118 @@ export class PaymentGatewayManager {
         }
 
         logger.debug('Card validation passed', { cardBrand: validation.cardBrand }, gatewayName);
+        return { cardBrand: validation.cardBrand };
       }
+    );
+  }
 
-      // Ensure gateway is ready
-      await this.ensureGatewayReady(gatewayName);
+  /**
+   * Tokenize a US bank account (ACH / eCheck)
+   * Stripe opens Financial Connections; Braintree and Authorize.Net take the routing and account numbers
+   */
+  async createBankAccountToken(
+    bankAccount: BankAccountInput,
+    gatewayName: GatewayName
+  ): Promise<TokenResult> {
+    return this.runTokenization(
+      gatewayName,
+      () => {
+        const provider = this.requireProvider(gatewayName);
 
-      // Emit tokenization started event
-      this.events.emitSync(PaymentEvent.TOKENIZATION_STARTED, {
-        gateway: gatewayName,
-        cardBrand: this.validateCards ? validateCard(card).cardBrand : undefined
-      });
+        if (!supportsBankAccounts(provider)) {
+          throw new PaymentError(
+            PaymentErrorCode.NOT_SUPPORTED,
+            `${gatewayName} does not support bank account payments`
+          );
+        }
 
-      logger.info(`Creating payment token via ${gatewayName}...`, {}, gatewayName);
+        return provider.tokenizeBankAccount(bankAccount, this.adapter);
+      },
+      () => {
+        const provider = this.requireProvider(gatewayName);
+        const requireAccountDetails = !supportsBankAccounts(provider) || provider.requiresBankAccountDetails;
+        const validation = validateBankAccount(bankAccount, requireAccountDetails);
 
-      let token: string;
+        if (!validation.isValid) {
+          logger.warn('Bank account validation failed', { errors: validation.errors }, gatewayName);
 
-      switch (gatewayName) {
-        case "Stripe":
-          token = await createStripeToken(card, this.adapter);
-          break;
+          throw new PaymentError(
+            PaymentErrorCode.VALIDATION_ERROR,
+            `Bank account validation failed: ${validation.errors.join(', ')}`
+          );
+        }
+
+        return {};
+      }
+    );
+  }
 
-        case "Braintree":
-          token = await createBraintreeToken(card, this.adapter);
-          break;
+  /**
+   * Tokenize a SEPA (IBAN) or BACS (sort code + account number) direct debit through Stripe
+   * Capture the mandate first with captureMandateConsent(); it is returned with the token
+   */
+  async createDirectDebitToken(input: DirectDebitInput): Promise<TokenResult> {
+    return this.runTokenization(
+      'Stripe',
+      () => this.getStripeGateway('SEPA and BACS Direct Debit').tokenizeDirectDebit(input),
+      () => {
+        const validation = validateDirectDebit(input);
 
-        case "Authorize.Net":
-          token = await createAuthorizeNetToken(card, this.adapter);
-          break;
+        if (!validation.isValid) {
+          logger.warn('Direct debit validation failed', { errors: validation.errors }, 'Stripe');
 
-        default:
           throw new PaymentError(
-            PaymentErrorCode.NOT_SUPPORTED,
-            `Unsupported gateway: ${gatewayName}`
+            PaymentErrorCode.VALIDATION_ERROR,
+            `Direct debit validation failed: ${validation.errors.join(', ')}`
           );
+        }
+
+        return {};
       }
+    );
+  }
+
+  /**
+   * Run a tokenization step with readiness checks, lifecycle events and error normalization
+   *
+   * @param prepare - Runs first (e.g. input validation); may return a card brand for the started event
+   */
+  private async runTokenization(
+    gatewayName: GatewayName,
+    tokenize: () => Promise<string | TokenResult>,
+    prepare?: () => { cardBrand?: string }
+  ): Promise<TokenResult> {
+    try {
+      const { cardBrand } = prepare ? prepare() : { cardBrand: undefined };
+
+      // Ensure gateway is ready
+      await this.ensureGatewayReady(gatewayName);
+
+      // Emit tokenization started event
+      this.events.emitSync(PaymentEvent.TOKENIZATION_STARTED, {
+        gateway: gatewayName,
+        cardBrand
+      });
+
+      logger.info(`Creating payment token via ${gatewayName}...`, {}, gatewayName);
+
+      const tokenized = await tokenize();
+      const result: TokenResult = typeof tokenized === 'string'
+        ? { gatewayName, tokenType: 'token', token: tokenized }
+        : tokenized;
 
-      logger.info(`Payment token created successfully`, { hasToken: !!token }, gatewayName);
+      logger.info(`Payment token created successfully`, {
+        hasToken: !!result.token,
+        tokenType: result.tokenType
+      }, gatewayName);
 
       // Emit tokenization success event
       this.events.emitSync(PaymentEvent.TOKENIZATION_SUCCESS, {
         gateway: gatewayName,
-        token: token.substring(0, 10) + '...' // Only log first 10 chars
+        token: result.token.substring(0, 10) + '...' // Only log first 10 chars
       });
 
-      return {
-        token,
-        gatewayName
-      };
+      return result;
     } catch (error) {
       logger.error(`Tokenization failed`, error, gatewayName);
 
@@ -285,207 +485,1550 @@ export class PaymentGatewayManager {
   }
 
   /**
-   * Check if gateway is ready
+   * Get a registered provider that must be a specific built-in gateway class
    */
-  isGatewayReady(gatewayName: GatewayName): boolean {
-    switch (gatewayName) {
-      case "Stripe":
-        return isStripeReady();
-      case "Braintree":
-        return isBraintreeReady();
-      case "Authorize.Net":
-        return isAuthorizeNetReady();
-      default:
-        return false;
+  private getBuiltInGateway<T extends GatewayProvider>(
+    gatewayName: GatewayName,
+    gatewayClass: new (...args: never[]) => T,
+    feature: string
+  ): T {
+    const provider = this.requireProvider(gatewayName);
+
+    if (!(provider instanceof gatewayClass)) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        `${feature} require the built-in ${gatewayName} provider`
+      );
     }
+
+    return provider;
   }
 
   /**
-   * Clear all payment context
+   * Get the built-in Stripe provider
    */
-  async clearPaymentContext(): Promise<void> {
-    logger.info("Clearing payment context...");
+  private getStripeGateway(feature = 'Stripe Elements'): StripeGateway {
+    return this.getBuiltInGateway('Stripe', StripeGateway, feature);
+  }
 
-    this.storage.remove(STORAGE_KEY_GATEWAY);
+  /**
+   * Get the built-in Braintree provider
+   */
+  private getBraintreeGateway(feature = 'Braintree Hosted Fields'): BraintreeGateway {
+    return this.getBuiltInGateway('Braintree', BraintreeGateway, feature);
+  }
 
-    resetStripe();
-    resetBraintree();
-    resetAuthorizeNet();
+  /**
+   * Get the built-in Adyen provider
+   */
+  private getAdyenGateway(feature = 'Adyen Components'): AdyenGateway {
+    return this.getBuiltInGateway('Adyen', AdyenGateway, feature);
+  }
 
-    for (const key in this.readinessPromises) {
-      delete this.readinessPromises[key as GatewayName];
+  /**
+   * Get the built-in Square provider
+   */
+  private getSquareGateway(feature = 'The Square card form'): SquareGateway {
+    return this.getBuiltInGateway('Square', SquareGateway, feature);
+  }
+
+  /**
+   * Get the built-in Checkout.com provider
+   */
+  private getCheckoutComGateway(feature = 'Checkout.com Frames'): CheckoutComGateway {
+    return this.getBuiltInGateway('Checkout.com', CheckoutComGateway, feature);
+  }
+
+  /**
+   * Get the built-in Razorpay provider
+   */
+  private getRazorpayGateway(feature = 'Razorpay Checkout'): RazorpayGateway {
+    return this.getBuiltInGateway('Razorpay', RazorpayGateway, feature);
+  }
+
+  /**
+   * Get a registered ScriptTokenizerGateway
+   */
+  private getScriptTokenizerGateway(gatewayName: GatewayName): ScriptTokenizerGateway {
+    const provider = this.requireProvider(gatewayName);
+
+    if (!(provider instanceof ScriptTokenizerGateway)) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        `${gatewayName} is not a script tokenizer gateway`
+      );
     }
 
-    logger.info("Payment context cleared");
+    return provider;
   }
 
   /**
-   * Set log level
+   * Mount Stripe Elements (Card Element or Payment Element) into a container
+   * Card data stays inside Stripe iframes, keeping the backend out of PCI DSS scope
    */
-  setLogLevel(level: LogLevel): void {
-    logger.setLevel(level);
+  async mountStripeElements(options: StripeElementsMountOptions): Promise<void> {
+    await this.ensureGatewayReady('Stripe');
+    this.getStripeGateway().mountElements(options);
+    logger.info('Stripe Elements mounted', { elementType: options.elementType || 'card' }, 'Stripe');
   }
 
   /**
-   * Get transaction logs
+   * Create a payment method from the mounted Stripe Elements
    */
-  getLogs(): string {
-    return logger.exportLogs();
+  async createStripeElementsToken(billingDetails?: StripeBillingDetails): Promise<TokenResult> {
+    return this.runTokenization(
+      'Stripe',
+      () => this.getStripeGateway().tokenizeElements(billingDetails)
+    );
   }
 
   /**
-   * Get transaction stats
+   * Unmount Stripe Elements
    */
-  getStats() {
-    return logger.getStats();
+  unmountStripeElements(): void {
+    this.getStripeGateway().unmountElements();
   }
 
   /**
-   * Detect active payment gateway from backend
-   * Should be called at application startup
+   * Render Braintree Hosted Fields into the given selectors
+   * Field focus, emptiness and validity changes are emitted as FIELD_STATE_CHANGED,
+   * and VALIDATION_SUCCESS / VALIDATION_FAILED track whether the whole form is valid
    */
-  async detectGateway(): Promise<PaymentConfiguration> {
-    logger.info('Detecting active payment gateway from backend...');
+  async mountBraintreeHostedFields(options: BraintreeHostedFieldsOptions): Promise<void> {
+    await this.ensureGatewayReady('Braintree');
+
+    await this.getBraintreeGateway().mountHostedFields(options, this.adapter, (event, state) => {
+      this.events.emitSync(PaymentEvent.FIELD_STATE_CHANGED, {
+        gateway: 'Braintree',
+        cardBrand: state.cards.length === 1 ? state.cards[0].type : undefined,
+        data: { event, emittedBy: state.emittedBy, fields: state.fields }
+      });
 
-    try {
-      const config = await detectActiveGateway(this.adapter);
-      this.paymentConfig = config;
+      if (event !== 'validityChange') {
+        return;
+      }
 
-      // Auto-set active gateway
-      this.setActiveGateway(config.gatewayName);
+      const fields = Object.values(state.fields);
+      const isValid = fields.every((field) => field?.isValid);
+      const invalidFields = Object.entries(state.fields)
+        .filter(([, field]) => field && !field.isPotentiallyValid)
+        .map(([name]) => name);
 
-      logger.info('Gateway detection completed', {
-        gateway: config.gatewayName,
-        method: config.paymentMethod,
-        scenario: config.scenario
-      });
+      if (isValid) {
+        this.events.emitSync(PaymentEvent.VALIDATION_SUCCESS, {
+          gateway: 'Braintree',
+          data: { fields: state.fields }
+        });
+      } else if (invalidFields.length > 0) {
+        this.events.emitSync(PaymentEvent.VALIDATION_FAILED, {
+          gateway: 'Braintree',
+          data: { invalidFields, fields: state.fields }
+        });
+      }
+    });
 
-      // Emit detection success event
-      this.events.emitSync(PaymentEvent.GATEWAY_INITIALIZED, {
-        gateway: config.gatewayName,
-        metadata: { scenario: config.scenario }
-      });
+    logger.info('Braintree Hosted Fields mounted', {
+      fields: Object.keys(options.fields)
+    }, 'Braintree');
+  }
 
-      return config;
-    } catch (error) {
-      logger.error('Gateway detection failed', error);
-      throw error;
-    }
+  /**
+   * Create a payment method nonce from the mounted Braintree Hosted Fields
+   */
+  async createBraintreeHostedFieldsToken(options?: { cardholderName?: string }): Promise<TokenResult> {
+    return this.runTokenization(
+      'Braintree',
+      () => this.getBraintreeGateway().tokenizeHostedFields(options)
+    );
   }
 
   /**
-   * Get current payment configuration
+   * Remove Braintree Hosted Fields
    */
-  getPaymentConfiguration(): PaymentConfiguration | null {
-    return this.paymentConfig;
+  async teardownBraintreeHostedFields(): Promise<void> {
+    await this.getBraintreeGateway().teardownHostedFields();
   }
 
   /**
-   * Manually set payment configuration (alternative to detectGateway)
+   * Check if Braintree Hosted Fields are mounted
    */
-  setPaymentConfiguration(response: GatewayDetectionResponse): PaymentConfiguration {
-    const config = determinePaymentScenario(response);
-    this.paymentConfig = config;
-    this.setActiveGateway(config.gatewayName);
-    return config;
+  hasBraintreeHostedFields(): boolean {
+    const provider = this.providers.get('Braintree');
+    return provider instanceof BraintreeGateway && provider.hasHostedFields();
   }
 
   /**
-   * Create Stripe checkout session
-   * For scenario A: Stripe with session-based checkout
+   * Mount an Adyen Component (card by default) or Drop-in into a container
+   * Card data is encrypted inside Adyen iframes; validity changes are emitted as
+   * VALIDATION_SUCCESS / VALIDATION_FAILED
    */
-  async createStripeCheckoutSession(request: StripeSessionRequest): Promise<StripeSessionResponse> {
-    if (!this.paymentConfig) {
-      throw new PaymentError(
-        PaymentErrorCode.NOT_READY,
-        'Payment configuration not detected. Call detectGateway() first.'
-      );
-    }
+  async mountAdyenComponent(options: AdyenComponentMountOptions): Promise<void> {
+    await this.ensureGatewayReady('Adyen');
 
-    if (this.paymentConfig.gatewayName !== 'Stripe') {
-      throw new PaymentError(
-        PaymentErrorCode.NOT_SUPPORTED,
-        'Current gateway is not Stripe'
-      );
-    }
+    let wasValid: boolean | undefined;
 
-    logger.info('Creating Stripe checkout session...', {
-      scenario: this.paymentConfig.scenario
-    });
+    await this.getAdyenGateway().mountComponent({
+      ...options,
+      onChange: (state) => {
+        options.onChange?.(state);
 
-    const session = await createStripeSession(request, this.adapter);
+        if (state.isValid === wasValid) {
+          return;
+        }
 
-    // If redirect is required, redirect automatically
-    if (this.paymentConfig.requiresRedirect && session.url) {
-      logger.info('Redirecting to Stripe checkout...');
-      redirectToStripeCheckout(session.url);
-    }
+        wasValid = state.isValid;
+        this.events.emitSync(
+          state.isValid ? PaymentEvent.VALIDATION_SUCCESS : PaymentEvent.VALIDATION_FAILED,
+          {
+            gateway: 'Adyen',
+            data: { paymentMethodType: state.data.paymentMethod?.type }
+          }
+        );
+      }
+    });
 
-    return session;
+    logger.info('Adyen Component mounted', { type: options.type || 'card' }, 'Adyen');
   }
 
   /**
-   * Extract session ID from URL after Stripe redirect
-   * For scenario B: Stripe with redirect
+   * Get the payment method data from the mounted Adyen Component or Drop-in
    */
-  extractStripeSessionId(url?: string): string | null {
-    return extractSessionIdFromUrl(url);
+  async createAdyenComponentToken(): Promise<TokenResult> {
+    return this.runTokenization(
+      'Adyen',
+      () => this.getAdyenGateway().tokenizeComponent()
+    );
   }
 
   /**
-   * Check if current URL is Stripe success redirect
+   * Unmount the Adyen Component or Drop-in
    */
-  isStripeSuccessRedirect(url?: string): boolean {
-    return isStripeSuccessUrl(url);
+  unmountAdyenComponent(): void {
+    this.getAdyenGateway().unmountComponent();
   }
 
   /**
-   * Check if current URL is Stripe cancel redirect
+   * Check if an Adyen Component or Drop-in is mounted
    */
-  isStripeCancelRedirect(url?: string): boolean {
-    return isStripeCancelUrl(url);
+  hasAdyenComponent(): boolean {
+    const provider = this.providers.get('Adyen');
+    return provider instanceof AdyenGateway && provider.hasMountedComponent();
   }
 
   /**
-   * Get payment method token based on current scenario
-   * This is the main method applications should use
+   * Handle the action returned by Adyen /payments (redirect, threeDS2, await)
+   * Resolves with the final /payments/details response, or RedirectShopper once the page is leaving
    */
-  async getPaymentMethodToken(input?: {
-    card?: CardInput;
-    amount?: number;
-    sessionRequest?: StripeSessionRequest;
-  }): Promise<{ token: string; tokenType: string; gatewayName: GatewayName }> {
-    if (!this.paymentConfig) {
-      throw new PaymentError(
-        PaymentErrorCode.NOT_READY,
-        'Payment configuration not detected. Call detectGateway() first.'
-      );
-    }
+  async handleAdyenAction(
+    action: AdyenAction,
+    options: AdyenActionOptions = {}
+  ): Promise<AdyenPaymentResponse> {
+    await this.ensureGatewayReady('Adyen');
+    return this.getAdyenGateway('Adyen actions').handleAction(action, this.adapter, options);
+  }
 
-    const { scenario, gatewayName, tokenType } = this.paymentConfig;
+  /**
+   * Attach the Square Web Payments card form to a container
+   * Card form events are emitted as FIELD_STATE_CHANGED, and VALIDATION_SUCCESS /
+   * VALIDATION_FAILED track whether the card number, expiry and CVV are valid
+   */
+  async mountSquareCard(options: SquareCardMountOptions): Promise<void> {
+    await this.ensureGatewayReady('Square');
 
-    logger.info('Getting payment method token...', { scenario, tokenType });
+    const validity: Partial<Record<SquareCardField, boolean>> = {};
+    let wasValid = false;
 
-    switch (scenario) {
-      case 'stripe-session': {
-        // Scenario A: Create Stripe session
-        if (!input?.sessionRequest) {
-          throw new PaymentError(
-            PaymentErrorCode.VALIDATION_ERROR,
-            'Session request is required for Stripe session scenario'
-          );
-        }
+    await this.getSquareGateway().mountCard(options, ({ detail }) => {
+      this.events.emitSync(PaymentEvent.FIELD_STATE_CHANGED, {
+        gateway: 'Square',
+        cardBrand: detail.cardBrand,
+        data: { event: detail.eventType, field: detail.field, state: detail.currentState }
+      });
 
-        const session = await this.createStripeCheckoutSession(input.sessionRequest);
-        return {
-          token: session.sessionId,
-          tokenType: 'sessionId',
-          gatewayName
+      validity[detail.field] = detail.currentState.isCompletelyValid;
+
+      if (detail.eventType === 'errorClassAdded') {
+        wasValid = false;
+        this.events.emitSync(PaymentEvent.VALIDATION_FAILED, {
+          gateway: 'Square',
+          data: { invalidFields: [detail.field] }
+        });
+        return;
+      }
+
+      const isValid = !!(validity.cardNumber && validity.expirationDate && validity.cvv);
+
+      if (isValid && !wasValid) {
+        this.events.emitSync(PaymentEvent.VALIDATION_SUCCESS, { gateway: 'Square' });
+      }
+
+      wasValid = isValid;
+    });
+
+    logger.info('Square card form attached', undefined, 'Square');
+  }
+
+  /**
+   * Create a source id from the Square card form
+   * Pass verification details (or set them when mounting) to run verifyBuyer() for SCA
+   */
+  async createSquareCardToken(verification?: SquareVerificationDetails): Promise<TokenResult> {
+    return this.runTokenization(
+      'Square',
+      () => this.getSquareGateway().tokenizeCard(verification)
+    );
+  }
+
+  /**
+   * Remove the Square card form
+   */
+  async destroySquareCard(): Promise<void> {
+    await this.getSquareGateway().destroyCard();
+  }
+
+  /**
+   * Check if the Square card form is attached
+   */
+  hasSquareCard(): boolean {
+    const provider = this.providers.get('Square');
+    return provider instanceof SquareGateway && provider.hasMountedCard();
+  }
+
+  /**
+   * Render Checkout.com Frames into the card number, expiry date and CVV containers
+   * Frame validation changes are emitted as FIELD_STATE_CHANGED and VALIDATION_FAILED,
+   * and VALIDATION_SUCCESS / VALIDATION_FAILED track whether the whole card is valid
+   */
+  async mountCheckoutComFrames(options: CheckoutComFramesMountOptions = {}): Promise<void> {
+    await this.ensureGatewayReady('Checkout.com');
+
+    this.getCheckoutComGateway().mountFrames(
+      options,
+      (event) => {
+        this.events.emitSync(PaymentEvent.FIELD_STATE_CHANGED, {
+          gateway: 'Checkout.com',
+          data: { field: event.element, isValid: event.isValid, isEmpty: event.isEmpty }
+        });
+
+        if (!event.isValid && !event.isEmpty) {
+          this.events.emitSync(PaymentEvent.VALIDATION_FAILED, {
+            gateway: 'Checkout.com',
+            data: { invalidFields: [event.element] }
+          });
+        }
+      },
+      (event) => {
+        this.events.emitSync(
+          event.isValid ? PaymentEvent.VALIDATION_SUCCESS : PaymentEvent.VALIDATION_FAILED,
+          {
+            gateway: 'Checkout.com',
+            data: { fields: event.isElementValid }
+          }
+        );
+      }
+    );
+
+    logger.info('Checkout.com Frames mounted', undefined, 'Checkout.com');
+  }
+
+  /**
+   * Create a card token (tok_...) from the mounted Checkout.com Frames
+   */
+  async createCheckoutComFramesToken(
+    cardholder?: CheckoutComFramesMountOptions['cardholder']
+  ): Promise<TokenResult> {
+    return this.runTokenization(
+      'Checkout.com',
+      () => this.getCheckoutComGateway().tokenizeFrames(cardholder)
+    );
+  }
+
+  /**
+   * Stop listening to Checkout.com Frames events
+   */
+  unmountCheckoutComFrames(): void {
+    this.getCheckoutComGateway().unmountFrames();
+  }
+
+  /**
+   * Check if Checkout.com Frames are mounted
+   */
+  hasCheckoutComFrames(): boolean {
+    const provider = this.providers.get('Checkout.com');
+    return provider instanceof CheckoutComGateway && provider.hasMountedFrames();
+  }
+
+  /**
+   * Render a script tokenizer's iframes (e.g. NMI Collect.js inline fields)
+   */
+  async mountTokenizerFields<TMountOptions>(gatewayName: GatewayName, options: TMountOptions): Promise<void> {
+    await this.ensureGatewayReady(gatewayName);
+    await this.getScriptTokenizerGateway(gatewayName).mountFields(options, this.adapter);
+    logger.info('Tokenizer fields mounted', undefined, gatewayName);
+  }
+
+  /**
+   * Create a token from a script tokenizer's mounted iframes
+   */
+  async createTokenizerFieldsToken(gatewayName: GatewayName): Promise<TokenResult> {
+    return this.runTokenization(
+      gatewayName,
+      () => this.getScriptTokenizerGateway(gatewayName).tokenizeFields(this.adapter)
+    );
+  }
+
+  /**
+   * Tear down a script tokenizer's iframes
+   */
+  unmountTokenizerFields(gatewayName: GatewayName): void {
+    this.getScriptTokenizerGateway(gatewayName).unmountFields();
+  }
+
+  /**
+   * Check if a script tokenizer's iframes are mounted
+   */
+  hasTokenizerFields(gatewayName: GatewayName): boolean {
+    const provider = this.providers.get(gatewayName);
+    return provider instanceof ScriptTokenizerGateway && provider.hasMountedFields();
+  }
+
+  /**
+   * Open Razorpay Checkout (UPI, netbanking, cards) for a backend order
+   * Resolves with razorpay_payment_id, razorpay_order_id and razorpay_signature;
+   * verify the signature on the server with verifyRazorpaySignature()
+   */
+  async openRazorpayCheckout(request: RazorpayCheckoutRequest): Promise<TokenResult> {
+    return this.runTokenization(
+      'Razorpay',
+      () => this.getRazorpayGateway().openCheckout(request, this.adapter)
+    );
+  }
+
+  /**
+   * Render the PayPal button (via Braintree) and resolve with a PayPal nonce once the buyer approves
+   * Use flow "checkout" for one-time payments and "vault" to save the account for later
+   */
+  async createPayPalToken(options: BraintreePayPalOptions): Promise<TokenResult> {
+    return this.runTokenization(
+      'Braintree',
+      () => this.getBraintreeGateway('PayPal payments').tokenizePayPal(options, this.adapter)
+    );
+  }
+
+  /**
+   * Check if Venmo (via Braintree) can be used in this browser
+   */
+  async isVenmoAvailable(options: BraintreeVenmoOptions = {}): Promise<boolean> {
+    await this.ensureGatewayReady('Braintree');
+    return this.getBraintreeGateway('Venmo payments').isVenmoAvailable(options, this.adapter);
+  }
+
+  /**
+   * Open Venmo (via Braintree) and resolve with a Venmo nonce
+   * Must be called from a user gesture (click handler)
+   */
+  async createVenmoToken(options: BraintreeVenmoOptions = {}): Promise<TokenResult> {
+    return this.runTokenization(
+      'Braintree',
+      () => this.getBraintreeGateway('Venmo payments').tokenizeVenmo(options, this.adapter)
+    );
+  }
+
+  /**
+   * Get the buy-now-pay-later providers that can be offered for an order
+   * Providers whose gateway is not registered are left out
+   */
+  getEligibleBnplProviders(amount: number, currency: string, country: string): BnplProvider[] {
+    return getEligibleBnplProviders(amount, currency, country).filter(
+      (provider) => this.providers.has(BNPL_PROVIDERS[provider].gateway)
+    );
+  }
+
+  /**
+   * Pay with a buy-now-pay-later provider
+   * Klarna, Afterpay / Clearpay and Affirm confirm a PaymentIntent through Stripe and redirect
+   * to the provider (call handleRedirectReturn() on returnUrl); PayPal Pay Later renders the
+   * Braintree PayPal button and resolves with a nonce once the buyer approves
+   */
+  async createBnplPayment(request: BnplPaymentRequest): Promise<TokenResult> {
+    const info = BNPL_PROVIDERS[request.provider];
+
+    if (!info) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        `Unsupported BNPL provider: ${request.provider}`
+      );
+    }
+
+    const result = await this.runTokenization(
+      info.gateway,
+      () => request.provider === 'paypal_paylater'
+        ? this.getBraintreeGateway('PayPal Pay Later').tokenizePayPal({
+          container: request.container!,
+          flow: 'checkout',
+          amount: request.amount,
+          currency: request.currency,
+          fundingSource: 'paylater'
+        }, this.adapter)
+        : this.getStripeGateway('Klarna, Afterpay and Affirm').confirmBnplPayment(request, this.adapter),
+      () => {
+        const validation = validateBnplPaymentRequest(request);
+
+        if (!validation.isValid) {
+          throw new PaymentError(
+            PaymentErrorCode.VALIDATION_ERROR,
+            `BNPL validation failed: ${validation.errors.join(', ')}`
+          );
+        }
+
+        const eligibility = checkBnplEligibility(
+          request.provider,
+          request.amount,
+          request.currency,
+          request.country
+        );
+
+        if (!eligibility.eligible) {
+          throw new PaymentError(
+            PaymentErrorCode.NOT_SUPPORTED,
+            eligibility.reason || `${request.provider} is not available for this order`
+          );
+        }
+
+        return {};
+      }
+    );
+
+    if (result.tokenType === 'bnpl') {
+      redirectToBnplProvider(result.redirectUrl);
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolve the gateway for wallet payments, defaulting to the active gateway
+   */
+  private requireWalletGatewayName(gatewayName?: GatewayName): GatewayName {
+    const resolved = gatewayName || this.getActiveGateway();
+
+    if (!resolved) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        'No active gateway. Call detectGateway() or pass a gateway name.'
+      );
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Get a registered provider that implements Apple Pay / Google Pay
+   */
+  private getWalletProvider(gatewayName: GatewayName): GatewayProvider & WalletProvider {
+    const provider = this.requireProvider(gatewayName);
+
+    if (!supportsWallets(provider)) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        `${gatewayName} does not support wallet payments`
+      );
+    }
+
+    return provider;
+  }
+
+  /**
+   * Check which wallets (Apple Pay / Google Pay) can be presented
+   * Call this before showing a wallet button; it also prepares the sheet so
+   * createWalletPaymentToken() can open it straight from the click handler
+   */
+  async canMakeWalletPayment(
+    request: WalletPaymentRequest,
+    gatewayName?: GatewayName
+  ): Promise<WalletAvailability> {
+    const resolved = this.requireWalletGatewayName(gatewayName);
+    const provider = this.providers.get(resolved);
+
+    if (!provider || !supportsWallets(provider)) {
+      return { ...NO_WALLETS };
+    }
+
+    try {
+      await this.ensureGatewayReady(resolved);
+      const availability = await provider.canMakeWalletPayment(request, this.adapter);
+      logger.debug('Wallet availability checked', availability, resolved);
+      return availability;
+    } catch (error) {
+      logger.warn('Wallet availability check failed', error, resolved);
+      return { ...NO_WALLETS };
+    }
+  }
+
+  /**
+   * Present the Apple Pay / Google Pay sheet and tokenize the result through the gateway
+   * Must be called from a user gesture (click handler)
+   */
+  async createWalletPaymentToken(
+    request: WalletPaymentRequest,
+    gatewayName?: GatewayName
+  ): Promise<TokenResult> {
+    const resolved = this.requireWalletGatewayName(gatewayName);
+
+    return this.runTokenization(
+      resolved,
+      () => this.getWalletProvider(resolved).tokenizeWallet(request, this.adapter),
+      () => {
+        if (!(request.amount > 0) || !request.currency || !request.country || !request.label) {
+          throw new PaymentError(
+            PaymentErrorCode.VALIDATION_ERROR,
+            'Wallet payments require a positive amount, currency, country and label'
+          );
+        }
+
+        return {};
+      }
+    );
+  }
+
+  /**
+   * Check if gateway is ready
+   */
+  isGatewayReady(gatewayName: GatewayName): boolean {
+    return this.providers.get(gatewayName)?.isReady() ?? false;
+  }
+
+  /**
+   * Clear all payment context
+   */
+  async clearPaymentContext(): Promise<void> {
+    logger.info("Clearing payment context...");
+
+    this.storage.remove(STORAGE_KEY_GATEWAY);
+
+    for (const provider of this.providers.values()) {
+      provider.reset();
+    }
+
+    for (const key in this.readinessPromises) {
+      delete this.readinessPromises[key as GatewayName];
+    }
+
+    logger.info("Payment context cleared");
+  }
+
+  /**
+   * Tear down this manager
+   * Clears payment context and removes all event listeners
+   */
+  async destroy(): Promise<void> {
+    await this.clearPaymentContext();
+    this.scripts.reset();
+    this.events.removeAllListeners();
+    logger.info("Payment Gateway Manager destroyed");
+  }
+
+  /**
+   * Set log level
+   */
+  setLogLevel(level: LogLevel): void {
+    logger.setLevel(level);
+  }
+
+  /**
+   * Get transaction logs
+   */
+  getLogs(): string {
+    return logger.exportLogs();
+  }
+
+  /**
+   * Get transaction stats
+   */
+  getStats() {
+    return logger.getStats();
+  }
+
+  /**
+   * Detect active payment gateway from backend
+   * Should be called at application startup
+   */
+  async detectGateway(): Promise<PaymentConfiguration> {
+    logger.info('Detecting active payment gateway from backend...');
+
+    try {
+      const config = await detectActiveGateway(this.adapter, this.getRegisteredGateways());
+      this.paymentConfig = config;
+
+      // Auto-set active gateway
+      this.setActiveGateway(config.gatewayName);
+
+      logger.info('Gateway detection completed', {
+        gateway: config.gatewayName,
+        method: config.paymentMethod,
+        scenario: config.scenario
+      });
+
+      // Emit detection success event
+      this.events.emitSync(PaymentEvent.GATEWAY_INITIALIZED, {
+        gateway: config.gatewayName,
+        metadata: { scenario: config.scenario }
+      });
+
+      return config;
+    } catch (error) {
+      logger.error('Gateway detection failed', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get current payment configuration
+   */
+  getPaymentConfiguration(): PaymentConfiguration | null {
+    return this.paymentConfig;
+  }
+
+  /**
+   * Manually set payment configuration (alternative to detectGateway)
+   */
+  setPaymentConfiguration(response: GatewayDetectionResponse): PaymentConfiguration {
+    const config = determinePaymentScenario(response, this.getRegisteredGateways());
+    this.paymentConfig = config;
+    this.setActiveGateway(config.gatewayName);
+    return config;
+  }
+
+  /**
+   * Create Stripe checkout session
+   * For scenario A: Stripe with session-based checkout
+   */
+  async createStripeCheckoutSession(request: StripeSessionRequest): Promise<StripeSessionResponse> {
+    if (!this.paymentConfig) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        'Payment configuration not detected. Call detectGateway() first.'
+      );
+    }
+
+    if (this.paymentConfig.gatewayName !== 'Stripe') {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        'Current gateway is not Stripe'
+      );
+    }
+
+    logger.info('Creating Stripe checkout session...', {
+      scenario: this.paymentConfig.scenario
+    });
+
+    const session = await createStripeSession(request, this.adapter);
+
+    // If redirect is required, redirect automatically
+    if (this.paymentConfig.requiresRedirect && session.url) {
+      logger.info('Redirecting to Stripe checkout...');
+      redirectToStripeCheckout(session.url);
+    }
+
+    return session;
+  }
+
+  /**
+   * Extract session ID from URL after Stripe redirect
+   * For scenario B: Stripe with redirect
+   */
+  extractStripeSessionId(url?: string): string | null {
+    return extractSessionIdFromUrl(url);
+  }
+
+  /**
+   * Check if current URL is Stripe success redirect
+   */
+  isStripeSuccessRedirect(url?: string): boolean {
+    return isStripeSuccessUrl(url);
+  }
+
+  /**
+   * Check if current URL is Stripe cancel redirect
+   */
+  isStripeCancelRedirect(url?: string): boolean {
+    return isStripeCancelUrl(url);
+  }
+
+  /**
+   * Get the bank-redirect methods (iDEAL, Bancontact, EPS, Przelewy24)
+   * available for a currency and customer country
+   */
+  getAvailableRedirectMethods(currency: string, country: string): RedirectPaymentMethodType[] {
+    return getAvailableRedirectMethods(currency, country);
+  }
+
+  /**
+   * Start a Stripe bank-redirect payment
+   * Creates a PaymentIntent through the backend and redirects the customer to their bank;
+   * call handleRedirectReturn() on the returnUrl page to get the outcome
+   */
+  async startRedirectPayment(request: RedirectPaymentRequest): Promise<RedirectPaymentIntentResponse> {
+    const validation = validateRedirectPaymentRequest(request);
+
+    if (!validation.isValid) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        validation.errors.join(', '),
+        { errors: validation.errors }
+      );
+    }
+
+    const { country } = request.billingDetails;
+
+    if (!getAvailableRedirectMethods(request.currency, country).includes(request.paymentMethodType)) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        `${request.paymentMethodType} is not available for ${request.currency.toUpperCase()} in ${country.toUpperCase()}`
+      );
+    }
+
+    this.events.emitSync(PaymentEvent.PAYMENT_STARTED, {
+      gateway: 'Stripe',
+      metadata: { paymentMethodType: request.paymentMethodType }
+    });
+
+    try {
+      const intent = await createRedirectPaymentIntent(request, this.adapter);
+      redirectToBank(intent.redirectUrl);
+      return intent;
+    } catch (error) {
+      this.events.emitSync(PaymentEvent.PAYMENT_FAILED, {
+        gateway: 'Stripe',
+        error: error as Error
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Handle the customer's return from a bank-redirect payment
+   * Reads payment_intent and redirect_status from the URL, then confirms the status
+   * with the backend. Returns null if the URL is not a redirect return.
+   */
+  async handleRedirectReturn(url?: string): Promise<RedirectPaymentResult | null> {
+    const redirectResult = extractRedirectResultFromUrl(url);
+
+    if (!redirectResult) {
+      return null;
+    }
+
+    const result = await retrieveRedirectPaymentStatus(redirectResult.paymentIntentId, this.adapter);
+
+    logger.info('Redirect payment returned', { status: result.status }, 'Stripe');
+
+    if (result.status === 'succeeded') {
+      this.events.emitSync(PaymentEvent.PAYMENT_SUCCESS, {
+        gateway: 'Stripe',
+        data: result
+      });
+    } else if (result.status === 'failed') {
+      this.events.emitSync(PaymentEvent.PAYMENT_FAILED, {
+        gateway: 'Stripe',
+        data: result
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the cash voucher methods (OXXO, Boleto, Konbini) available for a currency and customer country
+   */
+  getAvailableVoucherMethods(currency: string, country: string): VoucherPaymentMethodType[] {
+    return getAvailableVoucherMethods(currency, country);
+  }
+
+  /**
+   * Create an OXXO, Boleto or Konbini voucher through Stripe
+   * Resolves with the voucher details to show the customer and emits PAYMENT_PENDING;
+   * use pollPendingPayment() to wait for the customer to pay
+   */
+  async createVoucherPayment(request: VoucherPaymentRequest): Promise<PendingPaymentResult> {
+    const validation = validateVoucherPaymentRequest(request);
+
+    if (!validation.isValid) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        validation.errors.join(', '),
+        { errors: validation.errors }
+      );
+    }
+
+    this.events.emitSync(PaymentEvent.PAYMENT_STARTED, {
+      gateway: 'Stripe',
+      metadata: { paymentMethodType: request.paymentMethodType }
+    });
+
+    try {
+      await this.ensureGatewayReady('Stripe');
+
+      const result = await this.getStripeGateway('Cash voucher payments')
+        .confirmVoucherPayment(request, this.adapter);
+
+      logger.info('Voucher created', {
+        paymentMethodType: result.paymentMethodType,
+        expiresAt: result.voucher.expiresAt
+      }, 'Stripe');
+
+      this.events.emitSync(PaymentEvent.PAYMENT_PENDING, {
+        gateway: 'Stripe',
+        data: result
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Voucher creation failed', error, 'Stripe');
+      this.events.emitSync(PaymentEvent.PAYMENT_FAILED, {
+        gateway: 'Stripe',
+        error: error as Error
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Poll the backend until a voucher is paid, expires or fails
+   * Emits PAYMENT_SUCCESS, PAYMENT_EXPIRED or PAYMENT_FAILED when it settles;
+   * returns the still-pending result if polling gives up first
+   */
+  async pollPendingPayment(
+    result: PendingPaymentResult,
+    options: PendingPaymentPollOptions = {}
+  ): Promise<PendingPaymentResult> {
+    const settled = await pollPendingPayment(result, this.adapter, options);
+
+    const event = {
+      succeeded: PaymentEvent.PAYMENT_SUCCESS,
+      expired: PaymentEvent.PAYMENT_EXPIRED,
+      failed: PaymentEvent.PAYMENT_FAILED,
+      pending: null
+    }[settled.status];
+
+    if (event) {
+      this.events.emitSync(event, {
+        gateway: 'Stripe',
+        data: settled
+      });
+    }
+
+    return settled;
+  }
+
+  /**
+   * Run 3D Secure for a payment through the gateway that created it
+   * - Stripe: confirms the PaymentIntent client secret with the initialized Stripe.js instance
+   * - Braintree: verifies the nonce with the card BIN and billing address
+   * - Authorize.Net: checks the transaction's 3DS status with the backend
+   * - Adyen: handles the action returned by /payments and submits its details
+   * - Checkout.com: returns the 3DS redirectUrl, or checks the payment once the customer is back
+   * Emits THREE_DS_STARTED, THREE_DS_CHALLENGE (when the issuer asks for one) and THREE_DS_COMPLETED,
+   * which carries the error when authentication throws; invalid requests throw before any event
+   */
+  async authenticate(
+    request: ThreeDSAuthenticationRequest,
+    options: ThreeDSOptions = {}
+  ): Promise<ThreeDSResult> {
+    const gatewayName = request.gatewayName || this.paymentConfig?.gatewayName || this.getActiveGateway();
+
+    if (!gatewayName) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        'No gateway to authenticate with. Call detectGateway() first.'
+      );
+    }
+
+    const braintreeToken = request.token?.gatewayName === 'Braintree' && request.token.tokenType === 'nonce'
+      ? request.token
+      : undefined;
+    const threeDSOptions: ThreeDSOptions = {
+      ...options,
+      bin: request.bin || braintreeToken?.bin || options.bin,
+      email: request.email || options.email,
+      billingAddress: request.billingAddress || options.billingAddress,
+      onChallenge: () => {
+        this.events.emitSync(PaymentEvent.THREE_DS_CHALLENGE, { gateway: gatewayName });
+        options.onChallenge?.();
+      }
+    };
+
+    // Validate before THREE_DS_STARTED so every started event is followed by THREE_DS_COMPLETED
+    let runGateway3DS: () => Promise<ThreeDSResult>;
+
+    switch (gatewayName) {
+      case 'Stripe': {
+        const clientSecret = request.clientSecret;
+
+        if (!clientSecret) {
+          throw new PaymentError(
+            PaymentErrorCode.VALIDATION_ERROR,
+            'Stripe 3D Secure requires the PaymentIntent clientSecret'
+          );
+        }
+
+        runGateway3DS = async () => {
+          await this.ensureGatewayReady('Stripe');
+          const stripe = this.getStripeGateway('3D Secure').getStripe();
+
+          if (!stripe) {
+            throw new PaymentError(
+              PaymentErrorCode.NOT_READY,
+              'Stripe.js not initialized. Call initialize() first.'
+            );
+          }
+
+          return handleStripe3DS(clientSecret, stripe, threeDSOptions);
+        };
+        break;
+      }
+
+      case 'Braintree': {
+        const nonce = request.nonce || braintreeToken?.token;
+        const amount = request.amount;
+
+        if (!nonce || !amount || amount <= 0) {
+          throw new PaymentError(
+            PaymentErrorCode.VALIDATION_ERROR,
+            'Braintree 3D Secure requires a nonce and a positive amount'
+          );
+        }
+
+        runGateway3DS = async () => {
+          await this.ensureGatewayReady('Braintree');
+          const threeDSecure = await this.getBraintreeGateway('3D Secure').createThreeDSecure(this.adapter);
+          return handleBraintree3DS(nonce, amount, threeDSecure, threeDSOptions);
+        };
+        break;
+      }
+
+      case 'Authorize.Net': {
+        const transactionId = request.transactionId;
+
+        if (!transactionId) {
+          throw new PaymentError(
+            PaymentErrorCode.VALIDATION_ERROR,
+            'Authorize.Net 3D Secure requires a transactionId'
+          );
+        }
+
+        runGateway3DS = () => handleAuthorizeNet3DS(transactionId, this.adapter, threeDSOptions);
+        break;
+      }
+
+      case 'Adyen': {
+        const action = request.action;
+
+        if (!action) {
+          throw new PaymentError(
+            PaymentErrorCode.VALIDATION_ERROR,
+            'Adyen 3D Secure requires the action returned by /payments'
+          );
+        }
+
+        runGateway3DS = async () => {
+          await this.ensureGatewayReady('Adyen');
+          return handleAdyen3DS(action, this.getAdyenGateway('3D Secure'), this.adapter, threeDSOptions);
+        };
+        break;
+      }
+
+      case 'Checkout.com': {
+        if (!request.redirectUrl && !request.transactionId) {
+          throw new PaymentError(
+            PaymentErrorCode.VALIDATION_ERROR,
+            'Checkout.com 3D Secure requires the redirectUrl or the payment ID (cko-session-id)'
+          );
+        }
+
+        runGateway3DS = () => handleCheckoutCom3DS(
+          { paymentId: request.transactionId, redirectUrl: request.redirectUrl },
+          this.adapter,
+          threeDSOptions
+        );
+        break;
+      }
+
+      default:
+        throw new PaymentError(
+          PaymentErrorCode.NOT_SUPPORTED,
+          `3D Secure is not supported for ${gatewayName}`
+        );
+    }
+
+    this.events.emitSync(PaymentEvent.THREE_DS_STARTED, { gateway: gatewayName });
+
+    let result: ThreeDSResult;
+
+    try {
+      result = await runGateway3DS();
+
+      if (result.status === ThreeDSStatus.REQUIRES_ACTION && result.redirectUrl && options.challengePresenter) {
+        result = await options.challengePresenter.present({
+          url: result.redirectUrl,
+          challengeWindowSize: options.challengeWindowSize
+        });
+      }
+    } catch (error) {
+      logger.error('3D Secure failed', error, gatewayName);
+
+      this.events.emitSync(PaymentEvent.THREE_DS_COMPLETED, {
+        gateway: gatewayName,
+        error: error as Error
+      });
+
+      throw error;
+    }
+
+    logger.info('3D Secure completed', { status: result.status }, gatewayName);
+
+    this.events.emitSync(PaymentEvent.THREE_DS_COMPLETED, {
+      gateway: gatewayName,
+      data: result,
+      error: result.error ? new Error(result.error) : undefined
+    });
+
+    return result;
+  }
+
+  /**
+   * List a returning customer's saved payment methods, normalized across gateways
+   */
+  async listSavedPaymentMethods(customerId: string): Promise<SavedPaymentMethod[]> {
+    const paymentMethods = await fetchSavedPaymentMethods(customerId, this.adapter);
+    logger.debug('Saved payment methods loaded', { count: paymentMethods.length });
+    return paymentMethods;
+  }
+
+  /**
+   * Remove a saved payment method from the customer's vault
+   */
+  async deleteSavedPaymentMethod(customerId: string, paymentMethodId: string): Promise<void> {
+    await removeSavedPaymentMethod(customerId, paymentMethodId, this.adapter);
+    logger.info('Saved payment method deleted', { paymentMethodId });
+  }
+
+  /**
+   * Make a saved payment method the customer's default
+   */
+  async setDefaultPaymentMethod(customerId: string, paymentMethodId: string): Promise<void> {
+    await updateDefaultPaymentMethod(customerId, paymentMethodId, this.adapter);
+    logger.info('Default payment method updated', { paymentMethodId });
+  }
+
+  /**
+   * Charge a saved payment method through the backend
+   * If a Stripe charge needs 3D Secure, the challenge is shown before resolving
+   */
+  async payWithSavedMethod(request: SavedMethodPaymentRequest): Promise<SavedMethodPaymentResult> {
+    if (!(request.amount > 0) || !request.currency) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        'Saved method payments require a positive amount and currency'
+      );
+    }
+
+    this.events.emitSync(PaymentEvent.PAYMENT_STARTED, {
+      metadata: { paymentMethodId: request.paymentMethodId }
+    });
+
+    try {
+      let result = await chargeSavedPaymentMethod(request, this.adapter);
+
+      if (result.status === 'requires_action' && result.clientSecret && result.gatewayName === 'Stripe') {
+        const threeDS = await this.authenticate(result);
+
+        result = {
+          ...result,
+          status: threeDS.status === ThreeDSStatus.SUCCEEDED
+            ? 'succeeded'
+            : threeDS.status === ThreeDSStatus.PENDING ? 'processing' : 'failed',
+          error: threeDS.error
+        };
+      }
+
+      logger.info('Saved method payment completed', { status: result.status }, result.gatewayName);
+
+      const event = {
+        succeeded: PaymentEvent.PAYMENT_SUCCESS,
+        processing: PaymentEvent.PAYMENT_PENDING,
+        failed: PaymentEvent.PAYMENT_FAILED,
+        requires_action: null
+      }[result.status];
+
+      if (event) {
+        this.events.emitSync(event, {
+          gateway: result.gatewayName,
+          data: result
+        });
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Saved method payment failed', error);
+      this.events.emitSync(PaymentEvent.PAYMENT_FAILED, {
+        error: error as Error
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Save a card for later charges (e.g. auto-renewals) without charging it
+   * - Stripe: confirms a customer SetupIntent, including 3D Secure
+   * - Braintree: vaults the nonce on the backend with card verification
+   * - Authorize.Net: creates a CIM customer payment profile on the backend
+   * Capture consent first with captureFutureUseConsent(); it is sent to the backend with the card
+   */
+  async setupPaymentMethodForFutureUse(request: FutureUseSetupRequest): Promise<FutureUseSetupResult> {
+    const gatewayName = request.gatewayName || this.getActiveGateway();
+
+    if (!gatewayName) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        'No active gateway. Call setActiveGateway() or pass gatewayName.'
+      );
+    }
+
+    if (gatewayName !== 'Stripe' && gatewayName !== 'Braintree' && gatewayName !== 'Authorize.Net') {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        `Saving cards for future use is not supported for ${gatewayName}`
+      );
+    }
+
+    if (!request.customerId || !request.consent?.acceptedAt) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        'A customerId and the customer\'s consent are required to save a payment method'
+      );
+    }
+
+    const mounted = this.hasMountedCardFields(gatewayName);
+
+    if (!mounted && !request.card) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        `Card details are required for ${gatewayName}`
+      );
+    }
+
+    let token: TokenResult;
+
+    if (mounted) {
+      token = gatewayName === 'Stripe'
+        ? await this.createStripeElementsToken(request.billingDetails)
+        : await this.createBraintreeHostedFieldsToken({ cardholderName: request.billingDetails?.name });
+    } else {
+      token = await this.createPaymentToken(request.card!, gatewayName);
+    }
+
+    logger.info('Saving payment method for future use...', { usage: request.consent.usage }, gatewayName);
+
+    let result: FutureUseSetupResult;
+
+    if (gatewayName === 'Stripe') {
+      result = await this.getStripeGateway('Card-on-file setup')
+        .confirmCardSetup(token.token, request, this.adapter);
+    } else if (gatewayName === 'Braintree') {
+      result = await saveBraintreePaymentMethod(token.token, request, this.adapter);
+    } else {
+      if (token.tokenType !== 'opaqueData') {
+        throw new PaymentError(
+          PaymentErrorCode.TOKENIZATION_FAILED,
+          'Authorize.Net did not return opaque data'
+        );
+      }
+
+      result = await createAuthorizeNetPaymentProfile(token.opaqueData, request, this.adapter);
+    }
+
+    logger.info('Payment method saved for future use', { paymentMethodId: result.paymentMethodId }, gatewayName);
+    return result;
+  }
+
+  /**
+   * Open Authorize.Net Accept Hosted for the given payment
+   * Fetches a hosted payment page token from the backend, then shows the form
+   * as a redirect, inline iframe or lightbox (default)
+   */
+  async openAuthorizeNetHostedCheckout(
+    request: AcceptHostedTokenRequest,
+    options: AcceptHostedOptions = {}
+  ): Promise<AcceptHostedResult> {
+    const displayMode = this.getAcceptHostedDisplayMode(request, options);
+
+    this.events.emitSync(PaymentEvent.PAYMENT_STARTED, {
+      gateway: 'Authorize.Net',
+      metadata: { displayMode }
+    });
+
+    try {
+      const result = await this.runAcceptHosted(request, options);
+
+      if (result.status === 'approved' || result.status === 'held') {
+        this.events.emitSync(PaymentEvent.PAYMENT_SUCCESS, {
+          gateway: 'Authorize.Net',
+          data: result
+        });
+      } else if (result.status !== 'redirected') {
+        this.events.emitSync(PaymentEvent.PAYMENT_FAILED, {
+          gateway: 'Authorize.Net',
+          data: result
+        });
+      }
+
+      return result;
+    } catch (error) {
+      this.events.emitSync(PaymentEvent.PAYMENT_FAILED, {
+        gateway: 'Authorize.Net',
+        error: error as Error
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the Accept Hosted display mode, checking the request supports it
+   */
+  private getAcceptHostedDisplayMode(
+    request: AcceptHostedTokenRequest,
+    options: AcceptHostedOptions
+  ): AcceptHostedDisplayMode {
+    const displayMode = options.displayMode || 'lightbox';
+
+    if (displayMode !== 'redirect' && !request.iframeCommunicatorUrl) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        `iframeCommunicatorUrl is required for Accept Hosted ${displayMode} mode`
+      );
+    }
+
+    return displayMode;
+  }
+
+  /**
+   * Show Accept Hosted without emitting payment events, so checkout sessions
+   * built on getPaymentMethodToken() report the payment lifecycle themselves
+   */
+  private async runAcceptHosted(
+    request: AcceptHostedTokenRequest,
+    options: AcceptHostedOptions = {}
+  ): Promise<AcceptHostedResult> {
+    const displayMode = this.getAcceptHostedDisplayMode(request, options);
+
+    try {
+      const token = await fetchAcceptHostedToken(request, this.adapter);
+      const result = await openAcceptHosted(token, {
+        ...options,
+        displayMode,
+        paymentPageUrl: options.paymentPageUrl || getAcceptHostedUrl(getGatewayEnvironment(this.adapter))
+      });
+
+      logger.info('Accept Hosted completed', { status: result.status }, 'Authorize.Net');
+      return result;
+    } catch (error) {
+      logger.error('Accept Hosted failed', error, 'Authorize.Net');
+      throw error;
+    }
+  }
+
+  /**
+   * Check if hosted card fields (Stripe Elements / Braintree Hosted Fields / Adyen Components / Square card form / Checkout.com Frames / script tokenizer fields) are mounted for a gateway
+   */
+  private hasMountedCardFields(gatewayName: GatewayName): boolean {
+    const provider = this.providers.get(gatewayName);
+
+    if (provider instanceof StripeGateway) {
+      return provider.hasMountedElements();
+    }
+
+    if (provider instanceof BraintreeGateway) {
+      return provider.hasHostedFields();
+    }
+
+    if (provider instanceof AdyenGateway) {
+      return provider.hasMountedComponent();
+    }
+
+    if (provider instanceof SquareGateway) {
+      return provider.hasMountedCard();
+    }
+
+    if (provider instanceof CheckoutComGateway) {
+      return provider.hasMountedFrames();
+    }
+
+    if (provider instanceof ScriptTokenizerGateway) {
+      return provider.hasMountedFields();
+    }
+
+    return false;
+  }
+
+  /**
+   * Check for a non-card payment method (wallet, PayPal, Venmo, bank account, direct debit) that replaces card input
+   */
+  private hasAlternativeInput(input?: PaymentMethodTokenInput): boolean {
+    return !!(
+      input?.wallet || input?.paypal || input?.venmo || input?.bankAccount || input?.directDebit || input?.bnpl
+    );
+  }
+
+  /**
+   * Check that a scenario input has been supplied
+   */
+  private hasScenarioInput(
+    requiredInput: PaymentScenarioInput,
+    gatewayName: GatewayName,
+    input?: PaymentMethodTokenInput
+  ): boolean {
+    switch (requiredInput) {
+      case 'card':
+        return !!input?.card || this.hasAlternativeInput(input) || this.hasMountedCardFields(gatewayName);
+      case 'hostedFields':
+        return this.hasAlternativeInput(input) || this.hasMountedCardFields(gatewayName);
+      case 'sessionRequest':
+        return !!input?.sessionRequest;
+      case 'hostedPaymentRequest':
+        return !!input?.hostedPaymentRequest;
+      case 'razorpayCheckout':
+        return !!input?.razorpay;
+    }
+  }
+
+  /**
+   * Tokenize card data for an edge/hosted-fields scenario
+   * An alternative payment method (wallet, PayPal, Venmo, bank account, direct debit) wins,
+   * then mounted hosted fields, then raw card details
+   */
+  private async tokenizeCardForScenario(
+    gatewayName: GatewayName,
+    input?: PaymentMethodTokenInput
+  ): Promise<TokenResult> {
+    if (input?.wallet) {
+      return this.createWalletPaymentToken(input.wallet, gatewayName);
+    }
+
+    if (input?.bankAccount) {
+      return this.createBankAccountToken(input.bankAccount, gatewayName);
+    }
+
+    if (input?.directDebit) {
+      if (gatewayName !== 'Stripe') {
+        throw new PaymentError(
+          PaymentErrorCode.NOT_SUPPORTED,
+          `SEPA and BACS Direct Debit are only available through Stripe, not ${gatewayName}`
+        );
+      }
+
+      return this.createDirectDebitToken(input.directDebit);
+    }
+
+    if (input?.bnpl) {
+      const bnplGateway = BNPL_PROVIDERS[input.bnpl.provider]?.gateway;
+
+      if (bnplGateway !== gatewayName) {
+        throw new PaymentError(
+          PaymentErrorCode.NOT_SUPPORTED,
+          `${input.bnpl.provider} is not available through ${gatewayName}`
+        );
+      }
+
+      return this.createBnplPayment(input.bnpl);
+    }
+
+    if ((input?.paypal || input?.venmo) && gatewayName !== 'Braintree') {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        `PayPal and Venmo are only available through Braintree, not ${gatewayName}`
+      );
+    }
+
+    if (input?.paypal) {
+      return this.createPayPalToken(input.paypal);
+    }
+
+    if (input?.venmo) {
+      return this.createVenmoToken(input.venmo);
+    }
+
+    if (this.hasTokenizerFields(gatewayName)) {
+      return this.createTokenizerFieldsToken(gatewayName);
+    }
+
+    if (this.hasMountedCardFields(gatewayName)) {
+      switch (gatewayName) {
+        case 'Stripe':
+          return this.createStripeElementsToken();
+        case 'Adyen':
+          return this.createAdyenComponentToken();
+        case 'Square':
+          return this.createSquareCardToken(input?.squareVerification);
+        case 'Checkout.com':
+          return this.createCheckoutComFramesToken();
+        default:
+          return this.createBraintreeHostedFieldsToken();
+      }
+    }
+
+    if (!input?.card) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        `Card details are required for ${gatewayName}`
+      );
+    }
+
+    return this.createPaymentToken(input.card, gatewayName);
+  }
+
+  /**
+   * Get payment method token based on current scenario
+   * This is the main method applications should use
+   */
+  async getPaymentMethodToken(input?: PaymentMethodTokenInput): Promise<PaymentMethodTokenResult> {
+    if (!this.paymentConfig) {
+      throw new PaymentError(
+        PaymentErrorCode.NOT_READY,
+        'Payment configuration not detected. Call detectGateway() first.'
+      );
+    }
+
+    const { scenario, gatewayName, tokenType } = this.paymentConfig;
+    const definition = getScenarioDefinition(scenario);
+
+    logger.info('Getting payment method token...', { scenario, tokenType });
+
+    const missingInputs = definition.requiredInputs.filter(
+      (requiredInput) => !this.hasScenarioInput(requiredInput, gatewayName, input)
+    );
+
+    if (missingInputs.length > 0) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        `${definition.description} requires: ${missingInputs.join(', ')}`,
+        { scenario, missingInputs }
+      );
+    }
+
+    switch (scenario) {
+      case 'stripe-session':
+      case 'stripe-hosted': {
+        // Create Stripe session; the hosted scenario redirects to session.url
+        const session = await this.createStripeCheckoutSession(input!.sessionRequest!);
+        return {
+          token: session.sessionId,
+          tokenType: 'sessionId',
+          gatewayName: 'Stripe'
         };
       }
 
       case 'stripe-redirect': {
-        // Scenario B: Extract session ID from URL after redirect
+        // Extract session ID from URL after redirect
         const sessionId = this.extractStripeSessionId();
         if (!sessionId) {
           throw new PaymentError(
@@ -497,41 +2040,64 @@ export class PaymentGatewayManager {
         return {
           token: sessionId,
           tokenType: 'sessionId',
-          gatewayName
+          gatewayName: 'Stripe'
         };
       }
 
-      case 'braintree-edge': {
-        // Scenario C: Create Braintree nonce
-        if (!input?.card) {
+      case 'stripe-edge':
+      case 'braintree-edge':
+      case 'braintree-hosted':
+      case 'authorizenet-edge':
+      case 'adyen-edge':
+      case 'adyen-dropin':
+      case 'square-edge':
+      case 'checkoutcom-edge':
+      case 'checkoutcom-frames':
+      case 'custom-provider': {
+        // Tokenize card data, hosted fields, or an alternative payment method when present
+        return this.tokenizeCardForScenario(gatewayName, input);
+      }
+
+      case 'razorpay-checkout': {
+        // Razorpay Checkout modal, resolved from its payment handler
+        return this.openRazorpayCheckout(input!.razorpay!);
+      }
+
+      case 'authorizenet-hosted': {
+        // Accept Hosted payment form, resolved from iframe communicator messages
+        if (input!.hostedPaymentOptions?.displayMode === 'redirect') {
           throw new PaymentError(
-            PaymentErrorCode.VALIDATION_ERROR,
-            'Card details are required for Braintree Edge Checkout'
+            PaymentErrorCode.NOT_SUPPORTED,
+            'Redirect mode leaves the page; use openAuthorizeNetHostedCheckout() instead'
           );
         }
 
-        const result = await this.createPaymentToken(input.card, 'Braintree');
-        return {
-          token: result.token,
-          tokenType: 'nonce',
-          gatewayName
-        };
-      }
+        const result = await this.runAcceptHosted(
+          input!.hostedPaymentRequest!,
+          input!.hostedPaymentOptions
+        );
 
-      case 'authorizenet-edge': {
-        // Scenario D: Return raw card or create token
-        if (!input?.card) {
+        if (result.status === 'canceled') {
           throw new PaymentError(
-            PaymentErrorCode.VALIDATION_ERROR,
-            'Card details are required for Authorize.Net Edge Checkout'
+            PaymentErrorCode.CANCELED,
+            'Customer canceled Authorize.Net Hosted Checkout',
+            result
+          );
+        }
+
+        if (result.status === 'declined' || result.status === 'error' || !result.transactionId) {
+          throw new PaymentError(
+            PaymentErrorCode.INVALID_CARD,
+            `Authorize.Net Hosted Checkout payment ${result.status}`,
+            result
           );
         }
 
-        const result = await this.createPaymentToken(input.card, 'Authorize.Net');
         return {
-          token: result.token,
-          tokenType: 'rawCard',
-          gatewayName
+          token: result.transactionId,
+          tokenType: 'transactionId',
+          gatewayName: 'Authorize.Net',
+          acceptHosted: result
         };
       }
 
@@ -551,18 +2117,19 @@ export class PaymentGatewayManager {
       return false;
     }
 
-    return this.paymentConfig.paymentMethod === 'Edge Checkout';
+    return requiresEdgeCheckout(this.paymentConfig);
   }
 
   /**
-   * Check if Stripe redirect is required
+   * Check if Stripe redirect to config.redirectUrl is required
+   * False for stripe-hosted: getPaymentMethodToken() redirects to the Checkout Session URL itself
    */
   requiresStripeRedirect(): boolean {
     if (!this.paymentConfig) {
       return false;
     }
 
-    return this.paymentConfig.scenario === 'stripe-redirect';
+    return requiresStripeRedirect(this.paymentConfig);
   }
 }
 
@@ -573,24 +2140,67 @@ export type {
   GatewayName,
   CardInput,
   TokenResult,
+  StripeTokenResult,
+  BraintreeTokenResult,
+  AuthorizeNetTokenResult,
+  AuthorizeNetOpaqueData,
+  AdyenTokenResult,
+  SquareTokenResult,
+  CheckoutComTokenResult,
+  RazorpayTokenResult,
+  BankAccountInput,
+  BankAccountType,
+  BankAccountTokenResult,
+  BankAccountProvider,
+  DirectDebitScheme,
+  DirectDebitInput,
+  DirectDebitTokenResult,
+  BnplProvider,
+  BnplPaymentRequest,
+  BnplShippingDetails,
+  BnplEligibility,
+  BnplTokenResult,
+  MandateAcceptance,
+  StripeMandateData,
+  GenericTokenResult,
   GatewayReadyResult,
   GatewayConfig,
+  GatewayProvider,
+  GatewayCapabilities,
+  BuiltInGatewayName,
   EnvironmentAdapter
 } from "./types";
 
 export { PaymentError, PaymentErrorCode } from "./types";
 
+// Built-in gateway providers (for wrapping or re-registering)
+export * from "./gateways";
+export { ScriptLoader, loadScript } from "./utils";
+
 // Export all utilities
 export * from "./utils/card-validation";
+export * from "./utils/bank-account";
+export * from "./utils/iban-validation";
+export * from "./utils/mandate";
+export * from "./utils/bnpl";
 export * from "./utils/address-validation";
 export * from "./utils/currency";
 export * from "./utils/logger";
 export * from "./utils/events";
 export * from "./utils/retry";
 export * from "./utils/three-d-secure";
+export * from "./utils/three-ds-challenge";
 export * from "./utils/card-icons";
 export * from "./utils/gateway-detection";
 export * from "./utils/stripe-session";
+export * from "./utils/stripe-redirect";
+export * from "./utils/vouchers";
+export * from "./utils/vault";
+export * from "./utils/accept-hosted";
+export * from "./utils/environment";
+export * from "./utils/wallets";
+export * from "./utils/razorpay";
+export * from "./checkout-session";
 export * from "./test-utils";
 
 // Export new types
@@ -599,7 +2209,96 @@ export type {
   PaymentConfiguration,
   GatewayDetectionResponse,
   StripeSessionRequest,
-  StripeSessionResponse
+  StripeSessionResponse,
+  RedirectPaymentMethodType,
+  RedirectPaymentRequest,
+  RedirectPaymentIntentResponse,
+  RedirectPaymentStatus,
+  RedirectPaymentResult,
+  VoucherPaymentMethodType,
+  VoucherPaymentRequest,
+  VoucherDetails,
+  PendingPaymentStatus,
+  PendingPaymentResult,
+  SavedPaymentMethodType,
+  SavedPaymentMethod,
+  SavedMethodPaymentRequest,
+  SavedMethodPaymentStatus,
+  SavedMethodPaymentResult,
+  FutureUseConsent,
+  FutureUseSetupRequest,
+  FutureUseSetupResult,
+  PaymentScenario,
+  PaymentTokenType,
+  PaymentScenarioInput,
+  PaymentScenarioDefinition,
+  PaymentMethodTokenInput,
+  PaymentMethodTokenResult,
+  StripeSessionTokenResult,
+  AcceptHostedTokenResult,
+  AcceptHostedTokenRequest,
+  AcceptHostedOptions,
+  AcceptHostedDisplayMode,
+  AcceptHostedTransactionResponse,
+  AcceptHostedMessage,
+  AcceptHostedStatus,
+  AcceptHostedResult,
+  StripeElementType,
+  StripeElementsOptions,
+  StripeElementsMountOptions,
+  StripeElementChangeEvent,
+  StripeBillingDetails,
+  BraintreeHostedFieldName,
+  BraintreeHostedFieldOptions,
+  BraintreeHostedFieldsOptions,
+  BraintreeHostedFieldState,
+  BraintreeHostedFieldsState,
+  BraintreeHostedFieldsEvent,
+  BraintreeInstrumentType,
+  BraintreeAccountDetails,
+  BraintreePayPalFlow,
+  BraintreePayPalOptions,
+  BraintreeVenmoOptions,
+  AdyenPaymentMethodData,
+  AdyenBrowserInfo,
+  AdyenComponentState,
+  AdyenAction,
+  AdyenAdditionalDetails,
+  AdyenResultCode,
+  AdyenPaymentResponse,
+  AdyenActionOptions,
+  AdyenComponentType,
+  AdyenComponentMountOptions,
+  SquareBillingContact,
+  SquareVerificationDetails,
+  SquareCardField,
+  SquareCardEventType,
+  SquareCardInputEvent,
+  SquareCardMountOptions,
+  CheckoutComFrameElement,
+  CheckoutComFrameValidationEvent,
+  CheckoutComCardValidationEvent,
+  CheckoutComCardTokenizedEvent,
+  CheckoutComFramesMountOptions,
+  CheckoutComPaymentResponse,
+  RazorpayPaymentMethod,
+  RazorpayUpiFlow,
+  RazorpayPaymentResponse,
+  RazorpayOrder,
+  RazorpayCheckoutRequest,
+  RazorpayPaymentFailedResponse,
+  ScriptTokenizerConfig,
+  ScriptTokenizerContext,
+  ScriptTokenizerMappedToken,
+  CollectJs,
+  CollectJsField,
+  CollectJsResponse,
+  CollectJsMountOptions,
+  CollectJsConfigureOptions,
+  WalletType,
+  WalletPaymentRequest,
+  WalletAvailability,
+  WalletProvider
 } from "./types";
 
 // Default export for better bundler compatibility
@@ -3,7 +3,7 @@
  * Helpers for testing payment integrations
  */
 
-import { GatewayName, CardInput, EnvironmentAdapter, GatewayConfig } from './types';
+import { GatewayName, CardInput, BankAccountInput, EnvironmentAdapter, GatewayConfig } from './types';
 
 /**
  * Test card numbers for each gateway
@@ -33,9 +33,59 @@ export const TEST_CARDS = {
     insufficientFunds: '4024007134364842',
     invalidExpiryDate: '4000300011112220',
     processingError: '4012888888881881'
+  },
+  adyen: {
+    success: '4111111145551142',
+    mastercard: '2222400070000005',
+    amex: '370000000000002',
+    requiresAuthentication: '4917610000000000' // 3DS2 challenge
+  },
+  square: {
+    success: '4111111111111111',
+    mastercard: '5105105105105100',
+    amex: '340000000000009',
+    verifiedWithoutChallenge: '4800000000000004',
+    requiresAuthentication: '4310000000201019' // verifyBuyer challenge
+  },
+  checkoutcom: {
+    success: '4242424242424242',
+    mastercard: '5436031030606378',
+    amex: '345678901234564',
+    discover: '6011111111111117',
+    requiresAuthentication: '4485040371536584' // 3DS challenge
+  },
+  razorpay: {
+    success: '4111111111111111',
+    mastercard: '5267318187975449'
   }
 };
 
+/**
+ * Razorpay test mode UPI IDs for the collect flow
+ */
+export const TEST_UPI_IDS = {
+  success: 'success@razorpay',
+  failure: 'failure@razorpay'
+};
+
+/**
+ * Look up test cards by gateway name
+ * Custom gateways without their own entry fall back to the Stripe set
+ */
+function getGatewayTestCards(gateway: GatewayName): Record<string, string> {
+  const cards: Record<string, Record<string, string>> = {
+    'Stripe': TEST_CARDS.stripe,
+    'Braintree': TEST_CARDS.braintree,
+    'Authorize.Net': TEST_CARDS.authorizenet,
+    'Adyen': TEST_CARDS.adyen,
+    'Square': TEST_CARDS.square,
+    'Checkout.com': TEST_CARDS.checkoutcom,
+    'Razorpay': TEST_CARDS.razorpay
+  };
+
+  return cards[gateway] || TEST_CARDS.stripe;
+}
+
 /**
  * Get test card for specific scenario
  */
@@ -43,13 +93,7 @@ export function getTestCard(
   gateway: GatewayName,
   scenario: keyof typeof TEST_CARDS.stripe = 'success'
 ): CardInput {
-  const cards = {
-    'Stripe': TEST_CARDS.stripe,
-    'Braintree': TEST_CARDS.braintree,
-    'Authorize.Net': TEST_CARDS.authorizenet
-  };
-
-  const gatewayCards = cards[gateway] as any;
+  const gatewayCards = getGatewayTestCards(gateway);
   const cardNumber = gatewayCards[scenario] || gatewayCards.success;
 
   return {
@@ -64,13 +108,7 @@ export function getTestCard(
  * Get all test cards for a gateway
  */
 export function getAllTestCards(gateway: GatewayName): Record<string, CardInput> {
-  const cards = {
-    'Stripe': TEST_CARDS.stripe,
-    'Braintree': TEST_CARDS.braintree,
-    'Authorize.Net': TEST_CARDS.authorizenet
-  };
-
-  const gatewayCards = cards[gateway] as any;
+  const gatewayCards = getGatewayTestCards(gateway);
   const result: Record<string, CardInput> = {};
 
   for (const [scenario, number] of Object.entries(gatewayCards)) {
@@ -85,6 +123,33 @@ export function getAllTestCards(gateway: GatewayName): Record<string, CardInput>
   return result;
 }
 
+/**
+ * Test bank accounts (routing / account number) for each gateway sandbox
+ */
+export const TEST_BANK_ACCOUNTS = {
+  stripe: { routingNumber: '110000000', accountNumber: '000123456789' },
+  braintree: { routingNumber: '011000015', accountNumber: '1000000000' },
+  authorizenet: { routingNumber: '121042882', accountNumber: '123456789' }
+};
+
+/**
+ * Get a test bank account for a gateway
+ * Custom gateways without their own entry fall back to the Stripe account
+ */
+export function getTestBankAccount(gateway: GatewayName): BankAccountInput {
+  const accounts: Record<string, { routingNumber: string; accountNumber: string }> = {
+    'Stripe': TEST_BANK_ACCOUNTS.stripe,
+    'Braintree': TEST_BANK_ACCOUNTS.braintree,
+    'Authorize.Net': TEST_BANK_ACCOUNTS.authorizenet
+  };
+
+  return {
+    ...(accounts[gateway] || TEST_BANK_ACCOUNTS.stripe),
+    accountType: 'checking',
+    accountHolderName: 'Test User'
+  };
+}
+
 /**
  * Create mock environment adapter for testing
  */
@@ -94,7 +159,13 @@ export function createMockAdapter(config: Partial<GatewayConfig> = {}): Environm
     authorizeNetClientKey: 'mock_client_key',
     authorizeNetApiLoginId: 'mock_api_login',
     braintreeClientTokenUrl: '/api/braintree/token',
+    adyenClientKey: 'test_mock',
+    squareApplicationId: 'sandbox-sq0idb-mock',
+    squareLocationId: 'mock_location',
+    checkoutComPublicKey: 'pk_sbox_mock',
+    razorpayKeyId: 'rzp_test_mock',
     apiBaseUrl: 'https://mock-api.example.com',
+    environment: 'sandbox',
     ...config
   };
 
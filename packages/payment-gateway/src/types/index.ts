@@ -3,7 +3,16 @@
  * Framework-agnostic types for payment processing
  */
 
-export type GatewayName = "Stripe" | "Braintree" | "Authorize.Net";
+import type { BillingAddress } from "../utils/address-validation";
+import type { CardBrand } from "../utils/card-validation";
+
+export type BuiltInGatewayName = "Stripe" | "Braintree" | "Authorize.Net" | "Adyen" | "Square" | "Checkout.com" | "Razorpay";
+
+/**
+ * Gateway identifier
+ * Built-in names are listed for autocompletion; custom providers may use any name
+ */
+export type GatewayName = BuiltInGatewayName | (string & Record<never, never>);
 
 export interface CardInput {
   number: string;
@@ -12,108 +21,1577 @@ export interface CardInput {
   cvc: string;
 }
 
-export interface TokenResult {
-  token: string;
-  gatewayName: GatewayName;
+export type BankAccountType = "checking" | "savings" | "businessChecking";
+
+/**
+ * US bank account (ACH / eCheck) details
+ */
+export interface BankAccountInput {
+  /**
+   * 9-digit ABA routing number
+   * Required for Authorize.Net and Braintree; Stripe collects it in Financial Connections
+   */
+  routingNumber?: string;
+  /** Required for Authorize.Net and Braintree; Stripe collects it in Financial Connections */
+  accountNumber?: string;
+  accountType: BankAccountType;
+  accountHolderName: string;
+  /** Defaults to business for businessChecking, otherwise personal */
+  ownershipType?: "personal" | "business";
+  /** Stripe Financial Connections billing email */
+  email?: string;
+  /** Required by Braintree US Bank Account */
+  billingAddress?: BillingAddress;
+  /** Authorization text the customer agreed to; required by Braintree */
+  mandateText?: string;
+}
+
+export type DirectDebitScheme = "sepa_debit" | "bacs_debit";
+
+/**
+ * Customer acceptance of a direct debit mandate
+ */
+export interface MandateAcceptance {
+  scheme: DirectDebitScheme;
+  /** Exact mandate text shown to the customer */
+  mandateText: string;
+  /** ISO timestamp of acceptance */
+  acceptedAt: string;
+  userAgent: string;
+}
+
+/**
+ * SEPA Direct Debit (IBAN) or BACS Direct Debit (sort code + account number) details
+ */
+export interface DirectDebitInput {
+  scheme: DirectDebitScheme;
+  accountHolderName: string;
+  /** Required by Stripe for mandate notifications */
+  email: string;
+  /** SEPA only */
+  iban?: string;
+  /** BACS only */
+  sortCode?: string;
+  /** BACS only */
+  accountNumber?: string;
+  /** Required for BACS */
+  billingAddress?: BillingAddress;
+  mandate: MandateAcceptance;
+}
+
+/**
+ * Authorize.Net Accept.js opaque data
+ * Both fields go into createTransactionRequest's payment.opaqueData
+ */
+export interface AuthorizeNetOpaqueData {
+  dataDescriptor: string;
+  dataValue: string;
+  /**
+   * ISO timestamp; Accept.js nonces can only be used for 15 minutes
+   */
+  expiresAt: string;
+}
+
+export interface StripeTokenResult {
+  gatewayName: "Stripe";
+  tokenType: "paymentMethodId";
+  /** Stripe PaymentMethod ID (pm_...) */
+  token: string;
+  /** Set when the payment method came from Apple Pay / Google Pay */
+  walletType?: WalletType;
+}
+
+export interface BraintreeTokenResult {
+  gatewayName: "Braintree";
+  tokenType: "nonce";
+  /** Braintree payment method nonce */
+  token: string;
+  /** Payment instrument behind the nonce, so the backend can tell PayPal from card nonces */
+  instrumentType: BraintreeInstrumentType;
+  /** Set when the nonce came from Apple Pay / Google Pay */
+  walletType?: WalletType;
+  /** PayPal payer / Venmo account details */
+  accountDetails?: BraintreeAccountDetails;
+  /** Card BIN (first six digits), passed to the 3D Secure lookup */
+  bin?: string;
+}
+
+export interface AuthorizeNetTokenResult {
+  gatewayName: "Authorize.Net";
+  tokenType: "opaqueData";
+  /** Same as opaqueData.dataValue */
+  token: string;
+  opaqueData: AuthorizeNetOpaqueData;
+  /** Set when the opaque data came from Apple Pay */
+  walletType?: WalletType;
+}
+
+/**
+ * Adyen payment method data for the /payments request
+ * From client-side encryption of card fields, or a mounted Component / Drop-in
+ */
+export interface AdyenTokenResult {
+  gatewayName: "Adyen";
+  tokenType: "paymentMethodData";
+  /** paymentMethod serialized as JSON, for backends that expect a single string */
+  token: string;
+  /** Send as paymentMethod in the /payments request */
+  paymentMethod: AdyenPaymentMethodData;
+  /** Send as browserInfo in the /payments request; needed for native 3D Secure 2 */
+  browserInfo?: AdyenBrowserInfo;
+}
+
+/**
+ * Square Web Payments source id from the card form
+ */
+export interface SquareTokenResult {
+  gatewayName: "Square";
+  tokenType: "sourceId";
+  /** Payment source id (cnon:...), sent as source_id to CreatePayment */
+  token: string;
+  /** From verifyBuyer(); sent as verification_token to CreatePayment */
+  verificationToken?: string;
+  card?: {
+    brand: string;
+    last4: string;
+    expMonth: number;
+    expYear: number;
+  };
+  postalCode?: string;
+}
+
+/**
+ * Checkout.com card token from Frames or the tokens API
+ */
+export interface CheckoutComTokenResult {
+  gatewayName: "Checkout.com";
+  tokenType: "token";
+  /** Card token (tok_...), valid for 15 minutes */
+  token: string;
+  expiresOn?: string;
+  bin?: string;
+  last4?: string;
+  scheme?: string;
+}
+
+/**
+ * Razorpay Checkout payment
+ * Verify razorpay_signature on the server before capturing or fulfilling
+ */
+export interface RazorpayTokenResult extends RazorpayPaymentResponse {
+  gatewayName: "Razorpay";
+  tokenType: "razorpayPayment";
+  /** Same as razorpay_payment_id */
+  token: string;
+}
+
+/**
+ * Token from a custom gateway provider that returned a plain string
+ */
+export interface GenericTokenResult {
+  gatewayName: GatewayName;
+  tokenType: "token";
+  token: string;
+  /** Extra fields a script tokenizer mapped from the processor response (card type, last4, ...) */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Tokenized bank account (ACH / eCheck)
+ * - Stripe: us_bank_account PaymentMethod ID collected through Financial Connections
+ * - Braintree: US Bank Account nonce
+ * - Authorize.Net: eCheck opaque data value
+ */
+export interface BankAccountTokenResult {
+  gatewayName: GatewayName;
+  tokenType: "bankAccount";
+  token: string;
+  accountType: BankAccountType;
+  last4?: string;
+  bankName?: string;
+  /** Authorize.Net opaque data for the eCheck */
+  opaqueData?: AuthorizeNetOpaqueData;
+  /** Stripe SetupIntent that collected the account; the backend confirms it with the mandate */
+  setupIntentId?: string;
+}
+
+/**
+ * Stripe mandate_data payload for confirming a direct debit
+ * online.ip_address is added by the backend from the request
+ */
+export interface StripeMandateData {
+  customer_acceptance: {
+    type: "online";
+    /** Unix timestamp (seconds) */
+    accepted_at: number;
+    online: {
+      user_agent: string;
+      ip_address?: string;
+    };
+  };
+}
+
+/**
+ * Tokenized SEPA / BACS direct debit, with the mandate the customer accepted
+ */
+export interface DirectDebitTokenResult {
+  gatewayName: "Stripe";
+  tokenType: "directDebit";
+  /** Stripe PaymentMethod ID (pm_...) */
+  token: string;
+  scheme: DirectDebitScheme;
+  last4?: string;
+  mandate: MandateAcceptance;
+  /** Pass to PaymentIntent / SetupIntent confirmation as mandate_data */
+  mandateData: StripeMandateData;
+}
+
+/**
+ * Confirmed buy-now-pay-later PaymentIntent waiting for the customer at the provider
+ * PayPal Pay Later returns a BraintreeTokenResult instead
+ */
+export interface BnplTokenResult {
+  gatewayName: "Stripe";
+  tokenType: "bnpl";
+  /** Stripe PaymentIntent ID (pi_...) */
+  token: string;
+  provider: BnplProvider;
+  /** Klarna / Afterpay / Affirm page the customer is sent to; they come back to returnUrl */
+  redirectUrl: string;
+}
+
+/**
+ * Tokenization result, discriminated by tokenType
+ */
+export type TokenResult =
+  | StripeTokenResult
+  | BraintreeTokenResult
+  | AuthorizeNetTokenResult
+  | AdyenTokenResult
+  | SquareTokenResult
+  | CheckoutComTokenResult
+  | RazorpayTokenResult
+  | BankAccountTokenResult
+  | DirectDebitTokenResult
+  | BnplTokenResult
+  | GenericTokenResult;
+
+export interface GatewayReadyResult {
+  ready: true;
+  gatewayName: GatewayName;
+}
+
+/**
+ * Configuration for gateway credentials
+ * Pass these when initializing the library in your application
+ */
+export interface GatewayConfig {
+  // Stripe
+  stripePublishableKey?: string;
+
+  // Authorize.Net
+  authorizeNetClientKey?: string;
+  authorizeNetApiLoginId?: string;
+
+  // Braintree - requires backend endpoint for client token
+  braintreeClientTokenUrl?: string;
+  // Braintree JS SDK version (defaults to 3.97.2)
+  braintreeSdkVersion?: string;
+
+  // Adyen - Web SDK client key (test_... / live_...)
+  adyenClientKey?: string;
+  // Adyen hosted client-side encryption library token, for tokenizing raw card details
+  adyenCseLibraryToken?: string;
+  // Adyen Web SDK version (defaults to 5.68.0)
+  adyenSdkVersion?: string;
+
+  // Square - Web Payments application ID (sandbox-sq0idb-... / sq0idp-...)
+  squareApplicationId?: string;
+  // Square location ID the payments are taken for
+  squareLocationId?: string;
+
+  // Checkout.com public key (pk_sbox_... / pk_...)
+  checkoutComPublicKey?: string;
+
+  // Razorpay key ID (rzp_test_... / rzp_live_...)
+  razorpayKeyId?: string;
+
+  // Google Pay merchant ID - required for Google Pay in production
+  googlePayMerchantId?: string;
+
+  // Gateway environment - selects sandbox or production SDK URLs and endpoints
+  environment?: "sandbox" | "production";
+
+  // API base URL for backend calls
+  apiBaseUrl?: string;
+}
+
+/**
+ * Environment adapter for framework-specific implementations
+ * Each framework provides its own implementation
+ */
+export interface EnvironmentAdapter {
+  /**
+   * Get configuration value
+   */
+  getConfig(key: keyof GatewayConfig): string | undefined;
+
+  /**
+   * Check if running in browser
+   */
+  isBrowser(): boolean;
+
+  /**
+   * Make HTTP request
+   */
+  fetch(url: string, options?: RequestInit): Promise<Response>;
+}
+
+/**
+ * Features a gateway provider supports
+ */
+export interface GatewayCapabilities {
+  /** Can tokenize a plain CardInput */
+  cardTokenization: boolean;
+  /** Supports 3D Secure / SCA authentication */
+  threeDSecure: boolean;
+  /** Collects card data in gateway-hosted fields or iframes */
+  hostedFields: boolean;
+}
+
+/**
+ * Gateway Provider
+ * Contract every gateway (built-in or custom) implements to plug into PaymentGatewayManager
+ */
+export interface GatewayProvider {
+  /**
+   * Unique gateway name, used as the registry key
+   */
+  readonly name: GatewayName;
+
+  /**
+   * Supported features
+   */
+  readonly capabilities: GatewayCapabilities;
+
+  /**
+   * Load the SDK and prepare the gateway for tokenization
+   */
+  initialize(adapter: EnvironmentAdapter): Promise<void>;
+
+  /**
+   * Create a payment token from card details
+   * A plain string is reported as a GenericTokenResult
+   */
+  tokenize(card: CardInput, adapter: EnvironmentAdapter): Promise<string | TokenResult>;
+
+  /**
+   * Clear SDK state so the gateway can be initialized again
+   */
+  reset(): void;
+
+  /**
+   * Check if the gateway is ready for tokenization
+   */
+  isReady(): boolean;
+}
+
+/**
+ * Apple Pay / Google Pay support
+ * Optional extension a GatewayProvider implements to accept wallet payments
+ */
+export interface WalletProvider {
+  /**
+   * Check which wallets the browser and gateway can present
+   */
+  canMakeWalletPayment(request: WalletPaymentRequest, adapter: EnvironmentAdapter): Promise<WalletAvailability>;
+
+  /**
+   * Present the wallet sheet and tokenize the authorized payment
+   */
+  tokenizeWallet(request: WalletPaymentRequest, adapter: EnvironmentAdapter): Promise<TokenResult>;
+}
+
+/**
+ * ACH / eCheck support
+ * Optional extension a GatewayProvider implements to tokenize US bank accounts
+ */
+export interface BankAccountProvider {
+  /**
+   * Whether the gateway needs routing and account numbers from the application
+   * False when the gateway collects them itself (Stripe Financial Connections)
+   */
+  readonly requiresBankAccountDetails: boolean;
+
+  /**
+   * Tokenize a US bank account
+   */
+  tokenizeBankAccount(bankAccount: BankAccountInput, adapter: EnvironmentAdapter): Promise<BankAccountTokenResult>;
+}
+
+/**
+ * Payment Error Codes
+ */
+export enum PaymentErrorCode {
+  DETECTION_FAILED = "DETECTION_FAILED",
+  SDK_LOAD_FAILED = "SDK_LOAD_FAILED",
+  INVALID_CARD = "INVALID_CARD",
+  VALIDATION_ERROR = "VALIDATION_ERROR",
+  TOKENIZATION_FAILED = "TOKENIZATION_FAILED",
+  CLIENT_TOKEN_FAILED = "CLIENT_TOKEN_FAILED",
+  NOT_SUPPORTED = "NOT_SUPPORTED",
+  NOT_READY = "NOT_READY",
+  NETWORK_ERROR = "NETWORK_ERROR",
+  CONFIG_MISSING = "CONFIG_MISSING",
+  CANCELED = "CANCELED",
+  PAYMENT_FAILED = "PAYMENT_FAILED",
+  INVALID_STATE = "INVALID_STATE"
+}
+
+export class PaymentError extends Error {
+  constructor(
+    public code: PaymentErrorCode,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = "PaymentError";
+    console.debug(`[PaymentError] ${code}: ${message}`, details);
+  }
+}
+
+/**
+ * Stripe SDK Types
+ */
+export interface StripeInstance {
+  createPaymentMethod(
+    params: StripeCardPaymentMethodParams | StripeElementsPaymentMethodParams | StripeDirectDebitPaymentMethodParams
+  ): Promise<{
+    paymentMethod?: {
+      id: string;
+      sepa_debit?: { last4?: string; country?: string; bank_code?: string };
+      bacs_debit?: { last4?: string; sort_code?: string };
+    };
+    error?: { message: string };
+  }>;
+  elements(options?: StripeElementsOptions): StripeElements;
+  collectBankAccountForSetup(options: {
+    clientSecret: string;
+    params: {
+      payment_method_type: "us_bank_account";
+      payment_method_data: { billing_details: { name: string; email?: string } };
+    };
+    expand?: string[];
+  }): Promise<{ setupIntent?: StripeBankAccountSetupIntent; error?: { message: string } }>;
+  paymentRequest(options: StripePaymentRequestOptions): StripePaymentRequest;
+  confirmKlarnaPayment(
+    clientSecret: string,
+    data: StripeBnplConfirmData,
+    options: { handleActions: false }
+  ): Promise<StripeBnplConfirmResult>;
+  confirmAfterpayClearpayPayment(
+    clientSecret: string,
+    data: StripeBnplConfirmData,
+    options: { handleActions: false }
+  ): Promise<StripeBnplConfirmResult>;
+  confirmAffirmPayment(
+    clientSecret: string,
+    data: StripeBnplConfirmData,
+    options: { handleActions: false }
+  ): Promise<StripeBnplConfirmResult>;
+  confirmCardSetup(
+    clientSecret: string,
+    data: { payment_method: string }
+  ): Promise<{ setupIntent?: StripeSetupIntent; error?: { message: string } }>;
+  confirmCardPayment(
+    clientSecret: string,
+    data?: { return_url?: string }
+  ): Promise<{ paymentIntent?: { id: string; status: string }; error?: { message: string } }>;
+  retrievePaymentIntent(
+    clientSecret: string
+  ): Promise<{ paymentIntent?: { id: string; status: string }; error?: { message: string } }>;
+  confirmOxxoPayment(
+    clientSecret: string,
+    data: StripeVoucherConfirmData,
+    options: { handleActions: false }
+  ): Promise<StripeVoucherConfirmResult>;
+  confirmBoletoPayment(
+    clientSecret: string,
+    data: StripeVoucherConfirmData,
+    options: { handleActions: false }
+  ): Promise<StripeVoucherConfirmResult>;
+  confirmKonbiniPayment(
+    clientSecret: string,
+    data: StripeVoucherConfirmData,
+    options: { handleActions: false }
+  ): Promise<StripeVoucherConfirmResult>;
+}
+
+export interface StripeBnplConfirmData {
+  payment_method: { billing_details: StripeBillingDetails };
+  shipping?: BnplShippingDetails;
+  return_url: string;
+}
+
+export interface StripeSetupIntent {
+  id: string;
+  status: string;
+  payment_method: string | { id: string } | null;
+}
+
+export interface StripeVoucherConfirmData {
+  payment_method: {
+    billing_details: StripeBillingDetails;
+    /** Boleto: customer CPF or CNPJ */
+    boleto?: { tax_id: string };
+  };
+}
+
+export interface StripeVoucherNextAction {
+  type: string;
+  oxxo_display_details?: {
+    number: string;
+    /** Unix timestamp (seconds) */
+    expires_after: number;
+    hosted_voucher_url: string;
+  };
+  boleto_display_details?: {
+    number: string;
+    /** Unix timestamp (seconds) */
+    expires_at: number;
+    hosted_voucher_url: string;
+    pdf?: string;
+  };
+  konbini_display_details?: {
+    /** Unix timestamp (seconds) */
+    expires_at: number;
+    hosted_voucher_url: string;
+    stores: Record<string, { payment_code: string; confirmation_number?: string } | null>;
+  };
+}
+
+export interface StripeVoucherConfirmResult {
+  paymentIntent?: {
+    id: string;
+    status: string;
+    next_action?: StripeVoucherNextAction;
+  };
+  error?: { message: string };
+}
+
+export interface StripeBnplConfirmResult {
+  paymentIntent?: {
+    id: string;
+    status: string;
+    next_action?: { type: string; redirect_to_url?: { url: string } };
+  };
+  error?: { message: string };
+}
+
+export interface StripeBillingDetails {
+  name?: string;
+  email?: string;
+  phone?: string;
+  address?: {
+    line1?: string;
+    line2?: string;
+    city?: string;
+    state?: string;
+    postal_code?: string;
+    country?: string;
+  };
+}
+
+export interface StripePaymentRequestOptions {
+  country: string;
+  /** Lowercase ISO currency code */
+  currency: string;
+  total: {
+    label: string;
+    /** Amount in the smallest currency unit */
+    amount: number;
+  };
+  disableWallets?: Array<"applePay" | "googlePay" | "browserCard" | "link">;
+}
+
+export interface StripePaymentRequestPaymentMethodEvent {
+  paymentMethod: { id: string };
+  walletName: string;
+  complete(status: "success" | "fail"): void;
+}
+
+export interface StripePaymentRequest {
+  canMakePayment(): Promise<{ applePay?: boolean; googlePay?: boolean; link?: boolean } | null>;
+  show(): void;
+  on(event: "paymentmethod", handler: (event: StripePaymentRequestPaymentMethodEvent) => void): void;
+  on(event: "cancel", handler: () => void): void;
+}
+
+export interface StripeBankAccountSetupIntent {
+  id: string;
+  status: string;
+  payment_method: string | {
+    id: string;
+    us_bank_account?: { last4?: string; bank_name?: string; account_type?: string };
+  } | null;
+}
+
+export interface StripeCardPaymentMethodParams {
+  type: string;
+  card: StripeElement | {
+    number: string;
+    exp_month: string;
+    exp_year: string;
+    cvc: string;
+  };
+  billing_details?: StripeBillingDetails;
+}
+
+export interface StripeDirectDebitPaymentMethodParams {
+  type: DirectDebitScheme;
+  sepa_debit?: { iban: string };
+  bacs_debit?: { sort_code: string; account_number: string };
+  billing_details: StripeBillingDetails;
+}
+
+export interface StripeElementsPaymentMethodParams {
+  elements: StripeElements;
+  params?: {
+    billing_details?: StripeBillingDetails;
+  };
+}
+
+export type StripeElementType = "card" | "payment";
+
+/**
+ * Options passed to stripe.elements()
+ * The Payment Element requires mode, amount and currency when used with createPaymentMethod
+ */
+export interface StripeElementsOptions {
+  mode?: "payment" | "setup" | "subscription";
+  amount?: number;
+  currency?: string;
+  paymentMethodCreation?: "manual";
+  appearance?: Record<string, unknown>;
+  locale?: string;
+}
+
+export interface StripeElementChangeEvent {
+  elementType: string;
+  empty: boolean;
+  complete: boolean;
+  error?: { message: string; code?: string };
+  brand?: string;
+}
+
+export interface StripeElement {
+  mount(domElement: string | HTMLElement): void;
+  unmount(): void;
+  destroy(): void;
+  on(event: "change", handler: (event: StripeElementChangeEvent) => void): void;
+  on(event: "ready" | "focus" | "blur", handler: () => void): void;
+}
+
+/**
+ * Options for mounting Stripe Elements into the page
+ */
+export interface StripeElementsMountOptions {
+  /**
+   * Element (or CSS selector) the card / Payment Element is mounted into
+   */
+  container: string | HTMLElement;
+
+  /**
+   * "card" for the single-line Card Element, "payment" for the Payment Element
+   */
+  elementType?: StripeElementType;
+
+  elementsOptions?: StripeElementsOptions;
+
+  /**
+   * Options passed to elements.create()
+   */
+  elementOptions?: Record<string, unknown>;
+
+  /**
+   * Called whenever the element's completeness or validation error changes
+   */
+  onChange?: (event: StripeElementChangeEvent) => void;
+}
+
+export interface StripeElements {
+  create(type: StripeElementType, options?: Record<string, unknown>): StripeElement;
+  submit(): Promise<{ error?: { message: string } }>;
+}
+
+/**
+ * Adyen Web SDK Types
+ */
+export interface AdyenPaymentMethodData {
+  /** "scheme" for cards, otherwise the payment method type (e.g. "ideal") */
+  type: string;
+  encryptedCardNumber?: string;
+  encryptedExpiryMonth?: string;
+  encryptedExpiryYear?: string;
+  encryptedSecurityCode?: string;
+  holderName?: string;
+  brand?: string;
+  [key: string]: unknown;
+}
+
+export interface AdyenBrowserInfo {
+  acceptHeader?: string;
+  colorDepth: number;
+  language: string;
+  javaEnabled: boolean;
+  screenHeight: number;
+  screenWidth: number;
+  userAgent: string;
+  timeZoneOffset: number;
+}
+
+export interface AdyenComponentState {
+  isValid: boolean;
+  data: {
+    paymentMethod: AdyenPaymentMethodData;
+    browserInfo?: AdyenBrowserInfo;
+  };
+}
+
+/**
+ * Action returned by the Adyen /payments or /payments/details API
+ */
+export interface AdyenAction {
+  type: "redirect" | "threeDS2" | "await" | "qrCode" | "voucher" | "sdk" | (string & Record<never, never>);
+  paymentMethodType?: string;
+  url?: string;
+  method?: "GET" | "POST";
+  data?: Record<string, string>;
+  /** threeDS2: "fingerprint" runs silently, "challenge" shows the issuer's challenge */
+  subtype?: "fingerprint" | "challenge";
+  token?: string;
+  paymentData?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Data from onAdditionalDetails, sent to /payments/details
+ */
+export interface AdyenAdditionalDetails {
+  details: Record<string, unknown>;
+  paymentData?: string;
+}
+
+export type AdyenResultCode =
+  | "Authorised"
+  | "Refused"
+  | "Pending"
+  | "Received"
+  | "Cancelled"
+  | "Error"
+  | "RedirectShopper"
+  | "IdentifyShopper"
+  | "ChallengeShopper"
+  | "PresentToShopper";
+
+/**
+ * Outcome of /payments or /payments/details as returned by the backend
+ */
+export interface AdyenPaymentResponse {
+  resultCode: AdyenResultCode;
+  pspReference?: string;
+  merchantReference?: string;
+  refusalReason?: string;
+  action?: AdyenAction;
+}
+
+export interface AdyenActionOptions {
+  /** Element (or CSS selector) the threeDS2 / await component is mounted into; defaults to the mounted Component's container */
+  container?: string | HTMLElement;
+  challengeWindowSize?: "01" | "02" | "03" | "04" | "05";
+  /** Called when the issuer asks the shopper to complete a challenge */
+  onChallenge?: () => void;
+}
+
+export type AdyenComponentType = "card" | "dropin" | (string & Record<never, never>);
+
+export interface AdyenComponentMountOptions {
+  /** Element (or CSS selector) the Component or Drop-in is mounted into */
+  container: string | HTMLElement;
+  /** "card" (default), "dropin", or any Adyen Component type */
+  type?: AdyenComponentType;
+  /** Response of the backend's /paymentMethods call; required for Drop-in */
+  paymentMethodsResponse?: Record<string, unknown>;
+  /** Amount in major units, shown by Drop-in and used for 3DS */
+  amount?: number;
+  currency?: string;
+  countryCode?: string;
+  locale?: string;
+  /** Options passed to checkout.create() */
+  componentOptions?: Record<string, unknown>;
+  /** Called whenever the Component's data or validity changes */
+  onChange?: (state: AdyenComponentState) => void;
+}
+
+export interface AdyenComponent {
+  mount(container: string | HTMLElement): AdyenComponent;
+  unmount(): void;
+  isValid?: boolean;
+  data: AdyenComponentState["data"];
+  showValidation(): void;
+}
+
+export interface AdyenCheckoutConfiguration {
+  environment: "test" | "live";
+  clientKey: string;
+  locale?: string;
+  paymentMethodsResponse?: Record<string, unknown>;
+  amount?: { value: number; currency: string };
+  countryCode?: string;
+  onChange?: (state: AdyenComponentState) => void;
+  onAdditionalDetails?: (state: { data: AdyenAdditionalDetails }) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface AdyenCheckoutInstance {
+  create(type: string, options?: Record<string, unknown>): AdyenComponent;
+  createFromAction(action: AdyenAction, options?: Record<string, unknown>): AdyenComponent;
+}
+
+/**
+ * Hosted client-side encryption library (adyen.encrypt)
+ */
+export interface AdyenCseInstance {
+  /** Returns false when the data fails the library's validation */
+  encrypt(data: Record<string, string>): string | false;
+}
+
+/**
+ * Square Web Payments SDK Types
+ */
+export interface SquareBillingContact {
+  givenName?: string;
+  familyName?: string;
+  email?: string;
+  phone?: string;
+  addressLines?: string[];
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  /** ISO 3166-1 alpha-2 country code */
+  countryCode?: string;
+}
+
+/**
+ * Buyer verification (SCA) details passed to verifyBuyer()
+ */
+export interface SquareVerificationDetails {
+  /** Amount in major units; required for CHARGE */
+  amount?: number;
+  currencyCode: string;
+  /** CHARGE for a payment, STORE for card on file (defaults to CHARGE) */
+  intent?: "CHARGE" | "STORE";
+  billingContact: SquareBillingContact;
+  customerInitiated?: boolean;
+  sellerKeyedIn?: boolean;
+}
+
+export type SquareCardField = "cardNumber" | "expirationDate" | "cvv" | "postalCode";
+
+export type SquareCardEventType =
+  | "focusClassAdded"
+  | "focusClassRemoved"
+  | "errorClassAdded"
+  | "errorClassRemoved"
+  | "cardBrandChanged"
+  | "postalCodeChanged"
+  | "submit";
+
+export interface SquareCardInputEvent {
+  detail: {
+    field: SquareCardField;
+    eventType: SquareCardEventType;
+    currentState: {
+      hasErrorClass: boolean;
+      hasFocusClass: boolean;
+      isCompletelyValid: boolean;
+      isPotentiallyValid: boolean;
+      isEmpty: boolean;
+    };
+    /** cardBrandChanged: the detected brand, e.g. "visa" */
+    cardBrand?: string;
+  };
+}
+
+export interface SquareCardMountOptions {
+  /** Element (or CSS selector) the card form is attached to */
+  container: string | HTMLElement;
+  /** Card form style object, keyed by CSS selector */
+  style?: Record<string, Record<string, string>>;
+  /** Pre-filled postal code */
+  postalCode?: string;
+  /** Verify the buyer with these details after tokenizing, unless others are passed to createSquareCardToken() */
+  verification?: SquareVerificationDetails;
+}
+
+export interface SquareTokenizeResult {
+  status: "OK" | "Invalid" | "Abort" | "Cancel" | "Error" | "Unknown";
+  token?: string;
+  details?: {
+    card?: {
+      brand: string;
+      last4: string;
+      expMonth: number;
+      expYear: number;
+    };
+    billing?: { postalCode?: string };
+  };
+  errors?: Array<{ type?: string; field?: string; message: string }>;
+}
+
+export interface SquareCard {
+  attach(target: string | HTMLElement): Promise<void>;
+  tokenize(): Promise<SquareTokenizeResult>;
+  destroy(): Promise<boolean>;
+  addEventListener(type: SquareCardEventType, listener: (event: SquareCardInputEvent) => void): void;
+}
+
+export interface SquarePayments {
+  card(options?: { style?: SquareCardMountOptions["style"]; postalCode?: string }): Promise<SquareCard>;
+  verifyBuyer(
+    sourceId: string,
+    details: Omit<SquareVerificationDetails, "amount"> & { amount?: string }
+  ): Promise<{ token?: string; userChallenged?: boolean }>;
+}
+
+/**
+ * Checkout.com Frames Types
+ */
+export type CheckoutComFrameElement = "card-number" | "expiry-date" | "cvv";
+
+export interface CheckoutComFrameValidationEvent {
+  element: CheckoutComFrameElement;
+  isValid: boolean;
+  isEmpty: boolean;
+}
+
+export interface CheckoutComCardValidationEvent {
+  isValid: boolean;
+  isElementValid?: Record<"cardNumber" | "expiryDate" | "cvv", boolean>;
+}
+
+export interface CheckoutComCardTokenizedEvent {
+  type: "card";
+  token: string;
+  expires_on: string;
+  expiry_month: number;
+  expiry_year: number;
+  scheme?: string;
+  last4: string;
+  bin: string;
+  card_type?: string;
+  issuer_country?: string;
+}
+
+export interface CheckoutComFramesMountOptions {
+  /** Containers for each frame; default to the .card-number-frame, .expiry-date-frame and .cvv-frame classes */
+  selectors?: {
+    cardNumber?: string;
+    expiryDate?: string;
+    cvv?: string;
+  };
+  /** Frames style object (base, valid, invalid, placeholder, ...) */
+  style?: Record<string, unknown>;
+  /** Locale code (e.g. "EN-GB") or custom placeholder strings */
+  localization?: string | Record<string, string>;
+  /** Cardholder details sent with the token */
+  cardholder?: {
+    name?: string;
+    phone?: string;
+    billingAddress?: Record<string, string>;
+  };
+  /** Let the customer pick the network for co-badged cards */
+  schemeChoice?: boolean;
+}
+
+export interface CheckoutComFramesConfig extends Omit<CheckoutComFramesMountOptions, "selectors"> {
+  publicKey: string;
+  cardNumber?: { frameSelector: string };
+  expiryDate?: { frameSelector: string };
+  cvv?: { frameSelector: string };
+}
+
+export type CheckoutComFramesEvent =
+  | "ready"
+  | "frameActivated"
+  | "frameFocus"
+  | "frameBlur"
+  | "frameValidationChanged"
+  | "cardValidationChanged"
+  | "paymentMethodChanged"
+  | "cardSubmitted"
+  | "cardTokenized"
+  | "cardTokenizationFailed";
+
+export interface CheckoutComFrames {
+  init(config: CheckoutComFramesConfig): void;
+  addEventHandler(event: "frameValidationChanged", handler: (event: CheckoutComFrameValidationEvent) => void): void;
+  addEventHandler(event: "cardValidationChanged", handler: (event: CheckoutComCardValidationEvent) => void): void;
+  removeAllEventHandlers(event: CheckoutComFramesEvent): void;
+  isCardValid(): boolean;
+  submitCard(): Promise<CheckoutComCardTokenizedEvent>;
+  enableSubmitForm(): void;
+  cardholder?: CheckoutComFramesMountOptions["cardholder"];
+}
+
+/**
+ * Payment as returned by the backend from Checkout.com GET /payments/{id}
+ */
+export interface CheckoutComPaymentResponse {
+  id: string;
+  status: "Authorized" | "Captured" | "Card Verified" | "Pending" | "Declined" | "Canceled" | "Expired" | (string & Record<never, never>);
+  approved?: boolean;
+  response_summary?: string;
+  /** Present while the customer still has to complete 3DS */
+  _links?: { redirect?: { href: string } };
+}
+
+/**
+ * Razorpay Checkout Types
+ */
+export type RazorpayPaymentMethod = "upi" | "netbanking" | "card";
+
+/**
+ * UPI flows: intent opens a UPI app (mobile), collect sends a request to a VPA, qr shows a QR code
+ */
+export type RazorpayUpiFlow = "intent" | "collect" | "qr";
+
+/**
+ * Fields Razorpay Checkout passes to the success handler
+ */
+export interface RazorpayPaymentResponse {
+  razorpay_payment_id: string;
+  razorpay_order_id: string;
+  razorpay_signature: string;
+}
+
+/**
+ * Order created by the backend with the Razorpay Orders API
+ */
+export interface RazorpayOrder {
+  id: string;
+  /** Amount in paise */
+  amount: number;
+  currency: string;
+}
+
+export interface RazorpayCheckoutRequest {
+  /** Order created by your backend; when omitted one is created via /api/payments/razorpay/orders */
+  orderId?: string;
+  /** Amount in major units (rupees); required when orderId is omitted */
+  amount?: number;
+  /** Defaults to INR */
+  currency?: string;
+  receipt?: string;
+  notes?: Record<string, string>;
+  /** Payment methods to offer, in order (defaults to UPI, netbanking and cards) */
+  methods?: RazorpayPaymentMethod[];
+  /** UPI flows to offer (defaults to all) */
+  upiFlows?: RazorpayUpiFlow[];
+  /** Business name shown in Checkout */
+  name?: string;
+  description?: string;
+  /** Logo URL shown in Checkout */
+  image?: string;
+  prefill?: {
+    name?: string;
+    email?: string;
+    /** Phone number; required for UPI collect on some accounts */
+    contact?: string;
+    method?: RazorpayPaymentMethod;
+    /** UPI ID for the collect flow */
+    vpa?: string;
+  };
+  themeColor?: string;
+}
+
+/**
+ * Error passed to the payment.failed handler
+ */
+export interface RazorpayPaymentFailedResponse {
+  error: {
+    code: string;
+    description: string;
+    source?: string;
+    step?: string;
+    reason?: string;
+    metadata?: { order_id?: string; payment_id?: string };
+  };
+}
+
+export interface RazorpayCheckoutOptions {
+  key: string;
+  order_id: string;
+  amount?: number;
+  currency?: string;
+  name?: string;
+  description?: string;
+  image?: string;
+  prefill?: RazorpayCheckoutRequest["prefill"];
+  notes?: Record<string, string>;
+  theme?: { color?: string };
+  config?: {
+    display: {
+      blocks: Record<string, {
+        name: string;
+        instruments: Array<{ method: RazorpayPaymentMethod; flows?: RazorpayUpiFlow[] }>;
+      }>;
+      sequence: string[];
+      preferences: { show_default_blocks: boolean };
+    };
+  };
+  handler: (response: RazorpayPaymentResponse) => void;
+  modal?: {
+    ondismiss?: () => void;
+    escape?: boolean;
+    confirm_close?: boolean;
+  };
+  retry?: { enabled: boolean; max_count?: number };
+}
+
+export interface RazorpayInstance {
+  open(): void;
+  close(): void;
+  on(event: "payment.failed", handler: (response: RazorpayPaymentFailedResponse) => void): void;
+}
+
+/**
+ * Script Tokenizer Types
+ * Processors that load a tokenizer script with a public key, collect card data
+ * in iframes and hand back a token (NMI Collect.js, USAePay, Stax)
+ */
+
+/**
+ * Passed to ScriptTokenizerConfig hooks
+ */
+export interface ScriptTokenizerContext<TResponse = unknown> {
+  publicKey: string;
+  adapter: EnvironmentAdapter;
+  /**
+   * Settle the tokenization in progress
+   * Callback-style SDKs call these from the callback registered in configure() or mountFields()
+   */
+  resolve(response: TResponse): void;
+  reject(error: unknown): void;
+}
+
+/**
+ * Token mapped from a tokenizer response, with any extra fields worth keeping
+ */
+export interface ScriptTokenizerMappedToken {
+  token: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Everything ScriptTokenizerGateway needs to know about one processor
+ * Tokenize hooks either return a promise of the response or settle through context.resolve / context.reject
+ */
+export interface ScriptTokenizerConfig<TSdk = unknown, TResponse = unknown, TMountOptions = unknown> {
+  /** Gateway name, used as the registry key */
+  name: GatewayName;
+  /** Tokenizer script URL, or one per environment */
+  scriptUrl: string | { sandbox: string; production: string };
+  /** Global the script defines; dotted paths reach nested objects (e.g. "Stax.Tokenizer") */
+  globalName: string;
+  /** Public key, or a function that reads it when the gateway initializes */
+  publicKey: string | ((adapter: EnvironmentAdapter) => string | undefined);
+  /** Environment the public key belongs to, for the sandbox / production mismatch check */
+  keyEnvironment?: (publicKey: string) => "sandbox" | "production" | null;
+  /** Attributes for the script tag (Collect.js reads data-tokenization-key) */
+  scriptAttributes?: (publicKey: string) => Record<string, string>;
+  /** Supports 3D Secure / SCA authentication */
+  threeDSecure?: boolean;
+  /** Called once after the script loads */
+  configure?: (sdk: TSdk, context: ScriptTokenizerContext<TResponse>) => void | Promise<void>;
+  /** Tokenize raw card details; omit when the processor only tokenizes its own iframes */
+  tokenizeCard?: (sdk: TSdk, card: CardInput, context: ScriptTokenizerContext<TResponse>) => void | Promise<TResponse>;
+  /** Render the processor's iframes */
+  mountFields?: (sdk: TSdk, options: TMountOptions, context: ScriptTokenizerContext<TResponse>) => void | Promise<void>;
+  /** Tokenize the mounted iframes */
+  tokenizeFields?: (sdk: TSdk, context: ScriptTokenizerContext<TResponse>) => void | Promise<TResponse>;
+  /** Tear down the mounted iframes */
+  unmountFields?: (sdk: TSdk) => void;
+  /** Map a response to a token; return null when the response carries an error */
+  mapResponse: (response: TResponse) => string | ScriptTokenizerMappedToken | null;
+  /** Read an error message from a response mapResponse rejected */
+  mapError?: (response: TResponse) => string | undefined;
+  /** How long to wait for a callback before giving up, in milliseconds (default 30000) */
+  timeoutMs?: number;
+}
+
+/**
+ * NMI Collect.js Types
+ */
+export type CollectJsField = "ccnumber" | "ccexp" | "cvv";
+
+export interface CollectJsResponse {
+  token: string;
+  tokenType: "inline" | "lightbox";
+  card?: {
+    /** Masked card number, e.g. 411111******1111 */
+    number: string | null;
+    bin: string | null;
+    exp: string | null;
+    type: string | null;
+    hash: string | null;
+  };
+}
+
+export interface CollectJsMountOptions {
+  /** Container selectors (defaults: #ccnumber, #ccexp, #cvv) */
+  selectors?: Partial<Record<CollectJsField, string>>;
+  placeholders?: Partial<Record<CollectJsField, string>>;
+  /** CSS applied inside the iframes */
+  customCss?: Record<string, string>;
+  /** Called when a field becomes valid or invalid */
+  onValidation?: (field: CollectJsField, isValid: boolean, message: string) => void;
+  /** Called once the iframes have rendered */
+  onReady?: () => void;
+}
+
+export interface CollectJsConfigureOptions {
+  variant: "inline" | "lightbox";
+  fields: Partial<Record<CollectJsField, { selector: string; placeholder?: string }>>;
+  customCss?: Record<string, string>;
+  callback: (response: CollectJsResponse) => void;
+  validationCallback?: (field: CollectJsField, status: boolean, message: string) => void;
+  fieldsAvailableCallback?: () => void;
+  /** Milliseconds startPaymentRequest() waits before calling timeoutCallback */
+  timeoutDuration?: number;
+  timeoutCallback?: () => void;
+}
+
+export interface CollectJs {
+  configure(options: CollectJsConfigureOptions): void;
+  startPaymentRequest(): void;
+}
+
+/**
+ * Braintree SDK Types
+ */
+export interface BraintreeClientInstance {
+  request(params: {
+    endpoint: string;
+    method: string;
+    data: unknown;
+  }): Promise<any>;
+}
+
+export type BraintreeHostedFieldName =
+  | "number"
+  | "cvv"
+  | "expirationDate"
+  | "expirationMonth"
+  | "expirationYear"
+  | "postalCode"
+  | "cardholderName";
+
+export interface BraintreeHostedFieldOptions {
+  selector: string;
+  placeholder?: string;
+  type?: string;
+  maskInput?: boolean;
+}
+
+/**
+ * Options for rendering Braintree Hosted Fields
+ * Each field is an iframe rendered into the given selector
+ */
+export interface BraintreeHostedFieldsOptions {
+  fields: Partial<Record<BraintreeHostedFieldName, BraintreeHostedFieldOptions>> & {
+    number: BraintreeHostedFieldOptions;
+  };
+  styles?: Record<string, Record<string, string>>;
+}
+
+export interface BraintreeHostedFieldState {
+  container: HTMLElement;
+  isEmpty: boolean;
+  isFocused: boolean;
+  isPotentiallyValid: boolean;
+  isValid: boolean;
+}
+
+export interface BraintreeHostedFieldsState {
+  cards: Array<{ type: string; niceType: string; code: { name: string; size: number } }>;
+  emittedBy: BraintreeHostedFieldName;
+  fields: Partial<Record<BraintreeHostedFieldName, BraintreeHostedFieldState>>;
+}
+
+export type BraintreeHostedFieldsEvent =
+  | "validityChange"
+  | "cardTypeChange"
+  | "empty"
+  | "notEmpty"
+  | "focus"
+  | "blur";
+
+export interface BraintreeHostedFieldsTokenizePayload {
+  nonce: string;
+  type: string;
+  details: {
+    bin?: string;
+    cardType?: string;
+    lastFour?: string;
+    lastTwo?: string;
+    expirationMonth?: string;
+    expirationYear?: string;
+  };
+}
+
+export interface BraintreeHostedFieldsInstance {
+  on(event: BraintreeHostedFieldsEvent, handler: (state: BraintreeHostedFieldsState) => void): void;
+  getState(): BraintreeHostedFieldsState;
+  tokenize(options?: { cardholderName?: string }): Promise<BraintreeHostedFieldsTokenizePayload>;
+  teardown(): Promise<void>;
+}
+
+/**
+ * Braintree payment instrument types, as reported in tokenize payloads
+ */
+export type BraintreeInstrumentType =
+  | "CreditCard"
+  | "UsBankAccount"
+  | "PayPalAccount"
+  | "VenmoAccount"
+  | "ApplePayCard"
+  | "AndroidPayCard";
+
+/**
+ * PayPal payer / Venmo account details returned with the nonce
+ */
+export interface BraintreeAccountDetails {
+  email?: string;
+  payerId?: string;
+  firstName?: string;
+  lastName?: string;
+  countryCode?: string;
+  /** Venmo username */
+  username?: string;
+}
+
+export interface BraintreeAccountTokenizePayload {
+  nonce: string;
+  type: string;
+  details: BraintreeAccountDetails;
+}
+
+/**
+ * PayPal flow: one-time checkout, or vault to save a billing agreement for later charges
+ */
+export type BraintreePayPalFlow = "checkout" | "vault";
+
+/**
+ * Options for rendering the PayPal button
+ */
+export interface BraintreePayPalOptions {
+  /** Element (or CSS selector) the PayPal button is rendered into */
+  container: string | HTMLElement;
+  flow: BraintreePayPalFlow;
+  /** Required for the checkout flow */
+  amount?: number;
+  currency?: string;
+  intent?: "authorize" | "capture";
+  /** Shown to the buyer in the vault flow */
+  billingAgreementDescription?: string;
+  /** PayPal button style (layout, color, shape, label) */
+  style?: Record<string, unknown>;
+  /** Button to render; paylater offers PayPal Pay in 4 (checkout flow only, defaults to paypal) */
+  fundingSource?: "paypal" | "paylater";
+}
+
+export interface BraintreeVenmoOptions {
+  /** multi_use vaults the Venmo account; defaults to single_use */
+  paymentMethodUsage?: "single_use" | "multi_use";
+  /** Allow desktop buyers to scan a QR code (defaults to true) */
+  allowDesktop?: boolean;
 }
 
-export interface GatewayReadyResult {
-  ready: true;
-  gatewayName: GatewayName;
+export interface BraintreePayPalCheckoutInstance {
+  loadPayPalSDK(options: Record<string, unknown>): Promise<void>;
+  createPayment(options: {
+    flow: BraintreePayPalFlow;
+    amount?: string;
+    currency?: string;
+    intent?: "authorize" | "capture";
+    billingAgreementDescription?: string;
+  }): Promise<string>;
+  tokenizePayment(data: unknown): Promise<BraintreeAccountTokenizePayload>;
+  teardown(): Promise<void>;
+}
+
+export interface BraintreeUsBankAccountInstance {
+  tokenize(options: {
+    bankDetails: {
+      routingNumber: string;
+      accountNumber: string;
+      accountType: "checking" | "savings";
+      ownershipType: "personal" | "business";
+      firstName?: string;
+      lastName?: string;
+      businessName?: string;
+      billingAddress: {
+        streetAddress: string;
+        extendedAddress?: string;
+        locality: string;
+        region: string;
+        postalCode: string;
+      };
+    };
+    mandateText: string;
+  }): Promise<{ nonce: string; type: string; details: { last4?: string; bankName?: string } }>;
+  teardown(): Promise<void>;
+}
+
+export interface BraintreeVenmoInstance {
+  isBrowserSupported(): boolean;
+  tokenize(): Promise<BraintreeAccountTokenizePayload>;
+  teardown(): Promise<void>;
 }
 
 /**
- * Configuration for gateway credentials
- * Pass these when initializing the library in your application
+ * PayPal JS SDK Types (loaded through braintree.paypalCheckout)
  */
-export interface GatewayConfig {
-  // Stripe
-  stripePublishableKey?: string;
+export interface PayPalButtonsOptions {
+  fundingSource?: string;
+  style?: Record<string, unknown>;
+  createOrder?: () => Promise<string>;
+  createBillingAgreement?: () => Promise<string>;
+  onApprove: (data: unknown) => Promise<void>;
+  onCancel?: () => void;
+  onError?: (error: unknown) => void;
+}
 
-  // Authorize.Net
-  authorizeNetClientKey?: string;
-  authorizeNetApiLoginId?: string;
+export interface PayPalButtonsInstance {
+  isEligible(): boolean;
+  render(container: string | HTMLElement): Promise<void>;
+  close(): Promise<void>;
+}
 
-  // Braintree - requires backend endpoint for client token
-  braintreeClientTokenUrl?: string;
+export interface BraintreeThreeDSecureVerifyOptions {
+  nonce: string;
+  /** Amount in major units, as a string */
+  amount: string;
+  bin?: string;
+  email?: string;
+  billingAddress?: {
+    givenName?: string;
+    surname?: string;
+    phoneNumber?: string;
+    streetAddress?: string;
+    extendedAddress?: string;
+    locality?: string;
+    region?: string;
+    postalCode?: string;
+    countryCodeAlpha2?: string;
+  };
+  challengeRequested?: boolean;
+  onLookupComplete(data: { requiresUserAuthentication?: boolean }, next: () => void): void;
+}
 
-  // API base URL for backend calls
-  apiBaseUrl?: string;
+export interface BraintreeThreeDSecureVerifyPayload {
+  /** New nonce carrying the 3D Secure result */
+  nonce: string;
+  liabilityShifted: boolean;
+  liabilityShiftPossible: boolean;
 }
 
-/**
- * Environment adapter for framework-specific implementations
- * Each framework provides its own implementation
- */
-export interface EnvironmentAdapter {
-  /**
-   * Get configuration value
-   */
-  getConfig(key: keyof GatewayConfig): string | undefined;
+export interface BraintreeThreeDSecureInstance {
+  verifyCard(options: BraintreeThreeDSecureVerifyOptions): Promise<BraintreeThreeDSecureVerifyPayload>;
+  teardown(): Promise<void>;
+}
 
-  /**
-   * Check if running in browser
-   */
-  isBrowser(): boolean;
+export interface BraintreeApplePayInstance {
+  createPaymentRequest(request: Partial<ApplePayPaymentRequest>): ApplePayPaymentRequest;
+  performValidation(options: { validationURL: string; displayName: string }): Promise<unknown>;
+  tokenize(options: { token: ApplePayPaymentToken }): Promise<{ nonce: string }>;
+}
 
-  /**
-   * Make HTTP request
-   */
-  fetch(url: string, options?: RequestInit): Promise<Response>;
+export interface BraintreeGooglePaymentInstance {
+  createPaymentDataRequest(overrides: { transactionInfo: GooglePayTransactionInfo }): GooglePayPaymentDataRequest;
+  parseResponse(paymentData: GooglePayPaymentData): Promise<{ nonce: string; type: string }>;
 }
 
 /**
- * Payment Error Codes
+ * Apple Pay JS Types
  */
-export enum PaymentErrorCode {
-  DETECTION_FAILED = "DETECTION_FAILED",
-  SDK_LOAD_FAILED = "SDK_LOAD_FAILED",
-  INVALID_CARD = "INVALID_CARD",
-  VALIDATION_ERROR = "VALIDATION_ERROR",
-  TOKENIZATION_FAILED = "TOKENIZATION_FAILED",
-  CLIENT_TOKEN_FAILED = "CLIENT_TOKEN_FAILED",
-  NOT_SUPPORTED = "NOT_SUPPORTED",
-  NOT_READY = "NOT_READY",
-  NETWORK_ERROR = "NETWORK_ERROR",
-  CONFIG_MISSING = "CONFIG_MISSING"
+export interface ApplePayPaymentRequest {
+  countryCode: string;
+  currencyCode: string;
+  total: { label: string; amount: string };
+  supportedNetworks: string[];
+  merchantCapabilities: string[];
 }
 
-export class PaymentError extends Error {
-  constructor(
-    public code: PaymentErrorCode,
-    message: string,
-    public details?: unknown
-  ) {
-    super(message);
-    this.name = "PaymentError";
-    console.debug(`[PaymentError] ${code}: ${message}`, details);
-  }
+export interface ApplePayPaymentToken {
+  paymentData: unknown;
+  paymentMethod: { displayName: string; network: string; type: string };
+  transactionIdentifier: string;
+}
+
+export interface ApplePaySessionInstance {
+  onvalidatemerchant: ((event: { validationURL: string }) => void) | null;
+  onpaymentauthorized: ((event: { payment: { token: ApplePayPaymentToken } }) => void) | null;
+  oncancel: (() => void) | null;
+  begin(): void;
+  abort(): void;
+  completeMerchantValidation(merchantSession: unknown): void;
+  completePayment(status: number): void;
+}
+
+export interface ApplePaySessionConstructor {
+  new (version: number, request: ApplePayPaymentRequest): ApplePaySessionInstance;
+  canMakePayments(): boolean;
+  supportsVersion(version: number): boolean;
+  readonly STATUS_SUCCESS: number;
+  readonly STATUS_FAILURE: number;
 }
 
 /**
- * Stripe SDK Types
+ * Google Pay API Types
  */
-export interface StripeInstance {
-  createPaymentMethod(params: {
+export interface GooglePayTransactionInfo {
+  currencyCode: string;
+  countryCode?: string;
+  totalPriceStatus: "FINAL" | "ESTIMATED";
+  totalPrice: string;
+}
+
+export interface GooglePayPaymentDataRequest {
+  apiVersion: number;
+  apiVersionMinor: number;
+  allowedPaymentMethods: unknown[];
+  transactionInfo: GooglePayTransactionInfo;
+  [key: string]: unknown;
+}
+
+export interface GooglePayPaymentData {
+  paymentMethodData: {
     type: string;
-    card: {
-      number: string;
-      exp_month: string;
-      exp_year: string;
-      cvc: string;
-    };
-  }): Promise<{ paymentMethod?: { id: string }; error?: { message: string } }>;
+    tokenizationData: { type: string; token: string };
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
 }
 
-/**
- * Braintree SDK Types
- */
-export interface BraintreeClientInstance {
-  request(params: {
-    endpoint: string;
-    method: string;
-    data: unknown;
-  }): Promise<any>;
+export interface GooglePaymentsClient {
+  isReadyToPay(request: {
+    apiVersion: number;
+    apiVersionMinor: number;
+    allowedPaymentMethods: unknown[];
+  }): Promise<{ result: boolean }>;
+  loadPaymentData(request: GooglePayPaymentDataRequest): Promise<GooglePayPaymentData>;
 }
 
 /**
@@ -142,9 +1620,17 @@ export interface AuthNetResponse {
   };
 }
 
+export interface AuthNetBankData {
+  accountNumber: string;
+  routingNumber: string;
+  /** Max 22 characters */
+  nameOnAccount: string;
+  accountType: BankAccountType;
+}
+
 export interface AuthNetAccept {
   dispatchData(
-    data: { authData: AuthNetAuthData; cardData: AuthNetCardData },
+    data: { authData: AuthNetAuthData; cardData?: AuthNetCardData; bankData?: AuthNetBankData },
     callback: (response: AuthNetResponse) => void
   ): void;
 }
@@ -156,8 +1642,61 @@ declare global {
       client?: {
         create(options: { authorization: string }): Promise<BraintreeClientInstance>;
       };
+      hostedFields?: {
+        create(options: BraintreeHostedFieldsOptions & {
+          client: BraintreeClientInstance;
+        }): Promise<BraintreeHostedFieldsInstance>;
+      };
+      applePay?: {
+        create(options: { client: BraintreeClientInstance }): Promise<BraintreeApplePayInstance>;
+      };
+      paypalCheckout?: {
+        create(options: { client: BraintreeClientInstance }): Promise<BraintreePayPalCheckoutInstance>;
+      };
+      usBankAccount?: {
+        create(options: { client: BraintreeClientInstance }): Promise<BraintreeUsBankAccountInstance>;
+      };
+      threeDSecure?: {
+        create(options: { client: BraintreeClientInstance; version: 2 }): Promise<BraintreeThreeDSecureInstance>;
+      };
+      venmo?: {
+        create(options: BraintreeVenmoOptions & {
+          client: BraintreeClientInstance;
+          mobileWebFallBack?: boolean;
+        }): Promise<BraintreeVenmoInstance>;
+      };
+      googlePayment?: {
+        create(options: {
+          client: BraintreeClientInstance;
+          googlePayVersion: number;
+          googleMerchantId?: string;
+        }): Promise<BraintreeGooglePaymentInstance>;
+      };
     };
     Accept?: AuthNetAccept;
+    Frames?: CheckoutComFrames;
+    Razorpay?: new (options: RazorpayCheckoutOptions) => RazorpayInstance;
+    Square?: {
+      payments(applicationId: string, locationId?: string): SquarePayments;
+    };
+    AdyenCheckout?: (configuration: AdyenCheckoutConfiguration) => Promise<AdyenCheckoutInstance>;
+    adyen?: {
+      encrypt: {
+        createEncryption(options?: Record<string, unknown>): AdyenCseInstance;
+      };
+    };
+    ApplePaySession?: ApplePaySessionConstructor;
+    paypal?: {
+      Buttons(options: PayPalButtonsOptions): PayPalButtonsInstance;
+      FUNDING: Record<string, string>;
+    };
+    google?: {
+      payments?: {
+        api?: {
+          PaymentsClient: new (options: { environment: "TEST" | "PRODUCTION" }) => GooglePaymentsClient;
+        };
+      };
+    };
   }
 }
 
@@ -184,6 +1723,57 @@ export interface GatewayDetectionResponse {
   Token: string | null;
 }
 
+/**
+ * Payment scenarios the library can run
+ */
+export type PaymentScenario =
+  | 'stripe-session'
+  | 'stripe-redirect'
+  | 'stripe-edge'
+  | 'stripe-hosted'
+  | 'braintree-edge'
+  | 'braintree-hosted'
+  | 'authorizenet-edge'
+  | 'authorizenet-hosted'
+  | 'adyen-edge'
+  | 'adyen-dropin'
+  | 'square-edge'
+  | 'checkoutcom-edge'
+  | 'checkoutcom-frames'
+  | 'razorpay-checkout'
+  | 'custom-provider';
+
+/**
+ * Kind of token a scenario returns
+ */
+export type PaymentTokenType = 'sessionId' | 'paymentMethodId' | 'nonce' | 'opaqueData' | 'paymentMethodData' | 'sourceId' | 'razorpayPayment' | 'transactionId' | 'bankAccount' | 'directDebit' | 'token';
+
+/**
+ * Input a scenario needs from the application
+ * - card: a CardInput, or mounted hosted fields / Elements for the gateway
+ * - hostedFields: mounted hosted fields / Elements only
+ * - sessionRequest: a StripeSessionRequest
+ * - hostedPaymentRequest: an AcceptHostedTokenRequest
+ * - razorpayCheckout: a RazorpayCheckoutRequest
+ */
+export type PaymentScenarioInput = 'card' | 'hostedFields' | 'sessionRequest' | 'hostedPaymentRequest' | 'razorpayCheckout';
+
+/**
+ * Scenario table entry
+ */
+export interface PaymentScenarioDefinition {
+  scenario: PaymentScenario;
+  tokenType: PaymentTokenType;
+  /** Customer leaves the page to pay */
+  requiresRedirect: boolean;
+  /** Where the redirect URL comes from: the detection response or a created session */
+  redirectSource?: 'backend' | 'session';
+  /** Application shows its own card form */
+  edgeCheckout: boolean;
+  requiredInputs: PaymentScenarioInput[];
+  description: string;
+}
+
 /**
  * Payment Configuration Result
  */
@@ -194,12 +1784,66 @@ export interface PaymentConfiguration {
   redirectUrl?: string;
 
   // Scenario indicators
-  scenario: 'stripe-session' | 'stripe-redirect' | 'braintree-edge' | 'authorizenet-edge';
+  scenario: PaymentScenario;
 
   // What the library should return
-  tokenType: 'sessionId' | 'nonce' | 'rawCard';
+  tokenType: PaymentTokenType;
+
+  // What the application must pass to getPaymentMethodToken
+  requiredInputs: PaymentScenarioInput[];
+}
+
+/**
+ * Input for getPaymentMethodToken()
+ * Which fields are needed depends on PaymentConfiguration.requiredInputs
+ */
+export interface PaymentMethodTokenInput {
+  card?: CardInput;
+  amount?: number;
+  sessionRequest?: StripeSessionRequest;
+  hostedPaymentRequest?: AcceptHostedTokenRequest;
+  hostedPaymentOptions?: AcceptHostedOptions;
+  /** Pay with Apple Pay / Google Pay instead of card fields (edge scenarios) */
+  wallet?: WalletPaymentRequest;
+  /** Pay with PayPal (Braintree scenarios) */
+  paypal?: BraintreePayPalOptions;
+  /** Pay with Venmo (Braintree scenarios) */
+  venmo?: BraintreeVenmoOptions;
+  /** Pay by ACH / eCheck (edge scenarios) */
+  bankAccount?: BankAccountInput;
+  /** Pay by SEPA / BACS Direct Debit (Stripe edge scenario) */
+  directDebit?: DirectDebitInput;
+  /** Pay in installments with Klarna / Afterpay / Affirm (Stripe) or PayPal Pay Later (Braintree) */
+  bnpl?: BnplPaymentRequest;
+  /** Verify the buyer after tokenizing the Square card form (Square scenario) */
+  squareVerification?: SquareVerificationDetails;
+  /** Pay with UPI, netbanking or cards in Razorpay Checkout (Razorpay scenario) */
+  razorpay?: RazorpayCheckoutRequest;
+}
+
+export interface StripeSessionTokenResult {
+  gatewayName: "Stripe";
+  tokenType: "sessionId";
+  /** Stripe Checkout Session ID */
+  token: string;
+}
+
+export interface AcceptHostedTokenResult {
+  gatewayName: "Authorize.Net";
+  tokenType: "transactionId";
+  /** Authorize.Net transaction ID */
+  token: string;
+  acceptHosted: AcceptHostedResult;
 }
 
+/**
+ * Result of getPaymentMethodToken(), discriminated by tokenType
+ */
+export type PaymentMethodTokenResult =
+  | TokenResult
+  | StripeSessionTokenResult
+  | AcceptHostedTokenResult;
+
 /**
  * Stripe Session Creation Request
  */
@@ -219,3 +1863,344 @@ export interface StripeSessionResponse {
   sessionId: string;
   url?: string;
 }
+
+/**
+ * Bank-redirect payment methods confirmed through a Stripe PaymentIntent
+ */
+export type RedirectPaymentMethodType = "ideal" | "bancontact" | "eps" | "p24";
+
+/**
+ * Request to start a bank-redirect payment
+ */
+export interface RedirectPaymentRequest {
+  paymentMethodType: RedirectPaymentMethodType;
+  /** Amount in the smallest currency unit (see formatAmountForStripe) */
+  amount: number;
+  currency: string;
+  /** Where the bank sends the customer back; Stripe appends payment_intent and redirect_status */
+  returnUrl: string;
+  billingDetails: {
+    name: string;
+    /** Customer country (ISO 3166-1 alpha-2), used to check the method is available */
+    country: string;
+    /** Required for Przelewy24 */
+    email?: string;
+  };
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Backend response for a confirmed redirect PaymentIntent
+ */
+export interface RedirectPaymentIntentResponse {
+  paymentIntentId: string;
+  /** next_action.redirect_to_url.url */
+  redirectUrl: string;
+}
+
+export type RedirectPaymentStatus = "succeeded" | "processing" | "failed";
+
+/**
+ * Outcome of a bank-redirect payment after the customer returns
+ */
+export interface RedirectPaymentResult {
+  paymentIntentId: string;
+  status: RedirectPaymentStatus;
+  /** True when the status was confirmed by the backend rather than read from the URL */
+  verified: boolean;
+}
+
+/**
+ * Buy-now-pay-later providers
+ * klarna, afterpay_clearpay and affirm run through Stripe; paypal_paylater through Braintree
+ */
+export type BnplProvider = "klarna" | "afterpay_clearpay" | "affirm" | "paypal_paylater";
+
+export interface BnplShippingDetails {
+  name: string;
+  address: NonNullable<StripeBillingDetails["address"]>;
+}
+
+/**
+ * Request to pay with a buy-now-pay-later provider
+ */
+export interface BnplPaymentRequest {
+  provider: BnplProvider;
+  /** Order total in major units, e.g. 49.99 */
+  amount: number;
+  currency: string;
+  /** Customer country (ISO 3166-1 alpha-2), used to check eligibility */
+  country: string;
+  /** Stripe providers: where the customer returns; Stripe appends payment_intent and redirect_status */
+  returnUrl?: string;
+  /** Stripe providers: Klarna needs an email, Afterpay / Clearpay a name, email and address */
+  billingDetails?: StripeBillingDetails;
+  /** Required for Afterpay / Clearpay */
+  shipping?: BnplShippingDetails;
+  /** PayPal Pay Later: element (or CSS selector) the button is rendered into */
+  container?: string | HTMLElement;
+  metadata?: Record<string, string>;
+}
+
+export interface BnplEligibility {
+  provider: BnplProvider;
+  eligible: boolean;
+  /** Why the provider is not offered */
+  reason?: string;
+}
+
+/**
+ * Cash voucher methods: OXXO (Mexico), Boleto (Brazil), Konbini (Japan)
+ */
+export type VoucherPaymentMethodType = "oxxo" | "boleto" | "konbini";
+
+/**
+ * Request to create a cash voucher the customer pays at a store or bank
+ */
+export interface VoucherPaymentRequest {
+  paymentMethodType: VoucherPaymentMethodType;
+  /** Amount in major units, e.g. 250.00 MXN */
+  amount: number;
+  currency: string;
+  billingDetails: {
+    name: string;
+    email: string;
+    /** Required for Boleto */
+    address?: StripeBillingDetails["address"];
+  };
+  /** Boleto: customer CPF (11 digits) or CNPJ (14 digits) */
+  taxId?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * What the customer needs to pay the voucher
+ */
+export interface VoucherDetails {
+  /** Reference number (OXXO), digitable line (Boleto) or payment code (Konbini) */
+  number: string;
+  /** Data to encode in a barcode, when the method uses one */
+  barcode?: string;
+  /** ISO timestamp after which the voucher can no longer be paid */
+  expiresAt: string;
+  /** Stripe-hosted voucher page the customer can print or show at the store */
+  hostedVoucherUrl: string;
+  /** Boleto PDF */
+  pdfUrl?: string;
+  /** Konbini: confirmation number some stores ask for */
+  confirmationNumber?: string;
+}
+
+export type PendingPaymentStatus = "pending" | "succeeded" | "expired" | "failed";
+
+/**
+ * Payment waiting for the customer to pay offline
+ */
+export interface PendingPaymentResult {
+  gatewayName: "Stripe";
+  paymentIntentId: string;
+  paymentMethodType: VoucherPaymentMethodType;
+  status: PendingPaymentStatus;
+  voucher: VoucherDetails;
+}
+
+/**
+ * Kind of instrument stored in a gateway vault
+ */
+export type SavedPaymentMethodType = "card" | "bankAccount" | "paypal" | "venmo" | "directDebit";
+
+/**
+ * Payment method saved for a returning customer, normalized across gateways
+ */
+export interface SavedPaymentMethod {
+  /** Stripe PaymentMethod ID, Braintree payment method token or Authorize.Net customer payment profile ID */
+  id: string;
+  gatewayName: GatewayName;
+  type: SavedPaymentMethodType;
+  /** "unknown" for non-card methods */
+  brand: CardBrand;
+  last4?: string;
+  /** Two digits, e.g. "04" */
+  expiryMonth?: string;
+  /** Four digits, e.g. "2027" */
+  expiryYear?: string;
+  /** Same value for the same card saved twice, where the gateway provides one */
+  fingerprint?: string;
+  /** PayPal / Venmo account */
+  email?: string;
+  isDefault: boolean;
+  isExpired: boolean;
+  /** e.g. "•••• •••• •••• 4242" */
+  maskedNumber: string;
+  /** Card brand icon data URI */
+  icon: string;
+}
+
+/**
+ * Charge a saved payment method
+ */
+export interface SavedMethodPaymentRequest {
+  customerId: string;
+  paymentMethodId: string;
+  /** Amount in major units, e.g. 49.99 */
+  amount: number;
+  currency: string;
+  metadata?: Record<string, string>;
+}
+
+export type SavedMethodPaymentStatus = "succeeded" | "processing" | "requires_action" | "failed";
+
+export interface SavedMethodPaymentResult {
+  status: SavedMethodPaymentStatus;
+  gatewayName: GatewayName;
+  transactionId?: string;
+  /** Stripe: client secret of a PaymentIntent that needs 3D Secure */
+  clientSecret?: string;
+  error?: string;
+}
+
+/**
+ * Customer consent to store a payment method for later charges
+ */
+export interface FutureUseConsent {
+  consentText: string;
+  /** ISO timestamp */
+  acceptedAt: string;
+  userAgent: string;
+  /** off_session: charged without the customer present, e.g. auto-renewals */
+  usage: "off_session" | "on_session";
+}
+
+/**
+ * Save a card for later charges without charging it now
+ */
+export interface FutureUseSetupRequest {
+  customerId: string;
+  consent: FutureUseConsent;
+  /** Defaults to the active gateway */
+  gatewayName?: GatewayName;
+  /** Card details; not needed when Stripe Elements / Braintree Hosted Fields are mounted */
+  card?: CardInput;
+  billingDetails?: StripeBillingDetails;
+  /** Make this the customer's default payment method */
+  makeDefault?: boolean;
+}
+
+export interface FutureUseSetupResult {
+  gatewayName: GatewayName;
+  customerId: string;
+  /** Reusable reference: Stripe PaymentMethod ID, Braintree payment method token or Authorize.Net payment profile ID */
+  paymentMethodId: string;
+  /** Authorize.Net CIM customer profile ID */
+  customerProfileId?: string;
+  /** Stripe SetupIntent that was confirmed */
+  setupIntentId?: string;
+  /** Normalized details, when the backend returns them */
+  paymentMethod?: SavedPaymentMethod;
+  consent: FutureUseConsent;
+}
+
+/**
+ * Authorize.Net Accept Hosted Token Request
+ * Sent to the backend, which calls getHostedPaymentPageRequest
+ */
+export interface AcceptHostedTokenRequest {
+  amount: number;
+  currency?: string;
+  invoiceNumber?: string;
+  customerEmail?: string;
+  returnUrl?: string;
+  cancelUrl?: string;
+  /**
+   * URL of the iframe communicator page (required for iframe and lightbox modes)
+   */
+  iframeCommunicatorUrl?: string;
+  metadata?: Record<string, string>;
+}
+
+export type AcceptHostedDisplayMode = 'redirect' | 'iframe' | 'lightbox';
+
+/**
+ * Options for displaying the Accept Hosted payment form
+ */
+export interface AcceptHostedOptions {
+  displayMode?: AcceptHostedDisplayMode;
+  /**
+   * Element (or CSS selector) the iframe is rendered into in iframe mode
+   */
+  container?: string | HTMLElement;
+  /**
+   * Override the Accept Hosted payment page URL
+   */
+  paymentPageUrl?: string;
+}
+
+/**
+ * Transaction response posted back by Accept Hosted
+ */
+export interface AcceptHostedTransactionResponse {
+  transId: string;
+  responseCode: string;
+  authorization?: string;
+  accountType?: string;
+  accountNumber?: string;
+  totalAmount?: string;
+  dateTime?: string;
+  orderInvoiceNumber?: string;
+  orderDescription?: string;
+  customerId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Parsed iframe communicator message
+ */
+export type AcceptHostedMessage =
+  | { action: 'transactResponse'; response: AcceptHostedTransactionResponse }
+  | { action: 'resizeWindow'; width: number; height: number }
+  | { action: 'cancel' }
+  | { action: 'successfulSave' };
+
+export type AcceptHostedStatus = 'approved' | 'declined' | 'error' | 'held' | 'canceled' | 'redirected';
+
+/**
+ * Outcome of an Accept Hosted payment
+ */
+export interface AcceptHostedResult {
+  status: AcceptHostedStatus;
+  transactionId?: string;
+  authCode?: string;
+  accountType?: string;
+  accountNumber?: string;
+  totalAmount?: string;
+  response?: AcceptHostedTransactionResponse;
+}
+
+/**
+ * Apple Pay / Google Pay
+ */
+export type WalletType = "applePay" | "googlePay";
+
+/**
+ * Payment sheet request shared by all gateways
+ */
+export interface WalletPaymentRequest {
+  /** Amount in major units (e.g. 49.99) */
+  amount: number;
+  currency: string;
+  /** Two-letter merchant country code */
+  country: string;
+  /** Label shown next to the total on the payment sheet */
+  label: string;
+  /** Wallet to present; defaults to the first available one */
+  walletType?: WalletType;
+  /**
+   * Create or confirm the payment with the token before the sheet closes
+   * Resolve false (or throw) when the payment fails: the sheet shows the failure and
+   * tokenization rejects with PAYMENT_FAILED. Without it the sheet reports success once
+   * the token exists. Google Pay through Braintree closes its sheet before this runs.
+   */
+  onAuthorized?: (token: TokenResult) => Promise<boolean>;
+}
+
+export type WalletAvailability = Record<WalletType, boolean>;
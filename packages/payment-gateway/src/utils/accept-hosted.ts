@@ -0,0 +1,357 @@
+/**
+ * Authorize.Net Accept Hosted
+ * Handles hosted payment page tokens, display modes and iframe communicator messages
+ */
+
+import {
+  AcceptHostedTokenRequest,
+  AcceptHostedOptions,
+  AcceptHostedMessage,
+  AcceptHostedResult,
+  AcceptHostedStatus,
+  AcceptHostedTransactionResponse,
+  EnvironmentAdapter,
+  PaymentError,
+  PaymentErrorCode
+} from '../types';
+import { logger } from './logger';
+import { GatewayEnvironment } from './environment';
+
+export const ACCEPT_HOSTED_URL = 'https://accept.authorize.net/payment/payment';
+export const ACCEPT_HOSTED_SANDBOX_URL = 'https://test.authorize.net/payment/payment';
+
+const IFRAME_NAME = 'authorizenet-accept-hosted';
+const LIGHTBOX_ID = 'authorizenet-accept-hosted-lightbox';
+
+/**
+ * Get the Accept Hosted payment page URL for an environment
+ */
+export function getAcceptHostedUrl(environment: GatewayEnvironment): string {
+  return environment === 'sandbox' ? ACCEPT_HOSTED_SANDBOX_URL : ACCEPT_HOSTED_URL;
+}
+
+/**
+ * Fetch a hosted payment page token from the backend
+ * Calls /api/payments/authorizenet/hosted-payment-page
+ */
+export async function fetchAcceptHostedToken(
+  request: AcceptHostedTokenRequest,
+  adapter: EnvironmentAdapter
+): Promise<string> {
+  const apiBaseUrl = adapter.getConfig('apiBaseUrl');
+
+  if (!apiBaseUrl) {
+    throw new PaymentError(
+      PaymentErrorCode.CONFIG_MISSING,
+      'apiBaseUrl is required for Accept Hosted token creation'
+    );
+  }
+
+  try {
+    logger.info('Requesting Accept Hosted payment page token...', {
+      amount: request.amount,
+      currency: request.currency || 'USD'
+    }, 'Authorize.Net');
+
+    const response = await adapter.fetch(
+      `${apiBaseUrl}/api/payments/authorizenet/hosted-payment-page`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          amount: request.amount,
+          currency: request.currency || 'USD',
+          invoiceNumber: request.invoiceNumber,
+          customerEmail: request.customerEmail,
+          returnUrl: request.returnUrl,
+          cancelUrl: request.cancelUrl,
+          iframeCommunicatorUrl: request.iframeCommunicatorUrl,
+          metadata: request.metadata
+        })
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        errorData.message || `Failed to get Accept Hosted token: ${response.status}`,
+        errorData
+      );
+    }
+
+    const data = await response.json();
+
+    if (!data.token) {
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        'Invalid response: token missing'
+      );
+    }
+
+    logger.info('Accept Hosted token received', {}, 'Authorize.Net');
+    return data.token;
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      throw error;
+    }
+
+    logger.error('Failed to get Accept Hosted token', error, 'Authorize.Net');
+    throw new PaymentError(
+      PaymentErrorCode.TOKENIZATION_FAILED,
+      'Failed to get Accept Hosted payment page token',
+      error
+    );
+  }
+}
+
+/**
+ * Parse an iframe communicator message
+ * The communicator page forwards Accept Hosted query strings such as
+ * "action=transactResponse&response={...}" to the parent window
+ */
+export function parseIframeCommunicatorMessage(message: string): AcceptHostedMessage | null {
+  if (typeof message !== 'string' || !message.includes('action=')) {
+    return null;
+  }
+
+  const params = new URLSearchParams(message.replace(/^[?#]/, ''));
+
+  switch (params.get('action')) {
+    case 'transactResponse': {
+      const raw = params.get('response');
+
+      if (!raw) {
+        return null;
+      }
+
+      try {
+        const response = JSON.parse(raw) as AcceptHostedTransactionResponse;
+        return { action: 'transactResponse', response };
+      } catch (error) {
+        logger.error('Failed to parse Accept Hosted transaction response', error, 'Authorize.Net');
+        return null;
+      }
+    }
+
+    case 'resizeWindow':
+      return {
+        action: 'resizeWindow',
+        width: parseInt(params.get('width') || '0', 10),
+        height: parseInt(params.get('height') || '0', 10)
+      };
+
+    case 'cancel':
+      return { action: 'cancel' };
+
+    case 'successfulSave':
+      return { action: 'successfulSave' };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Map an Accept Hosted transaction response to a result
+ * responseCode: 1 = approved, 2 = declined, 3 = error, 4 = held for review
+ */
+export function mapAcceptHostedResponse(response: AcceptHostedTransactionResponse): AcceptHostedResult {
+  const statuses: Record<string, AcceptHostedStatus> = {
+    '1': 'approved',
+    '2': 'declined',
+    '3': 'error',
+    '4': 'held'
+  };
+
+  return {
+    status: statuses[String(response.responseCode)] || 'error',
+    transactionId: response.transId,
+    authCode: response.authorization,
+    accountType: response.accountType,
+    accountNumber: response.accountNumber,
+    totalAmount: response.totalAmount,
+    response
+  };
+}
+
+/**
+ * Build the form that posts the token to Accept Hosted
+ */
+function createTokenForm(token: string, action: string, target: string): HTMLFormElement {
+  const form = document.createElement('form');
+  form.method = 'POST';
+  form.action = action;
+  form.target = target;
+  form.style.display = 'none';
+
+  const input = document.createElement('input');
+  input.type = 'hidden';
+  input.name = 'token';
+  input.value = token;
+  form.appendChild(input);
+
+  return form;
+}
+
+/**
+ * Resolve the iframe container for iframe mode, or build a lightbox overlay
+ */
+function createFrameHost(options: AcceptHostedOptions): { host: HTMLElement; overlay: HTMLElement | null } {
+  if (options.displayMode === 'iframe') {
+    const host = typeof options.container === 'string'
+      ? document.querySelector<HTMLElement>(options.container)
+      : options.container;
+
+    if (!host) {
+      throw new PaymentError(
+        PaymentErrorCode.VALIDATION_ERROR,
+        'A valid container is required for Accept Hosted iframe mode'
+      );
+    }
+
+    return { host, overlay: null };
+  }
+
+  const overlay = document.createElement('div');
+  overlay.id = LIGHTBOX_ID;
+  overlay.setAttribute('role', 'dialog');
+  overlay.setAttribute('aria-modal', 'true');
+  Object.assign(overlay.style, {
+    position: 'fixed',
+    inset: '0',
+    background: 'rgba(0, 0, 0, 0.5)',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    zIndex: '2147483000'
+  });
+
+  const host = document.createElement('div');
+  Object.assign(host.style, {
+    background: '#fff',
+    borderRadius: '8px',
+    maxWidth: '100%',
+    maxHeight: '100%',
+    overflow: 'auto'
+  });
+
+  overlay.appendChild(host);
+  document.body.appendChild(overlay);
+
+  return { host, overlay };
+}
+
+/**
+ * Open Accept Hosted with a payment page token
+ *
+ * - redirect: posts the token in the current window; resolves with status "redirected"
+ * - iframe: renders into options.container and resolves from iframe communicator messages
+ * - lightbox: renders into a modal overlay and resolves from iframe communicator messages
+ */
+export function openAcceptHosted(
+  token: string,
+  options: AcceptHostedOptions = {}
+): Promise<AcceptHostedResult> {
+  if (typeof window === 'undefined') {
+    return Promise.reject(
+      new PaymentError(
+        PaymentErrorCode.NOT_SUPPORTED,
+        'Accept Hosted is only available in browser environment'
+      )
+    );
+  }
+
+  const displayMode = options.displayMode || 'lightbox';
+  const action = options.paymentPageUrl || ACCEPT_HOSTED_URL;
+
+  if (displayMode === 'redirect') {
+    logger.info('Redirecting to Accept Hosted...', {}, 'Authorize.Net');
+    const form = createTokenForm(token, action, '_self');
+    document.body.appendChild(form);
+    form.submit();
+    return Promise.resolve({ status: 'redirected' });
+  }
+
+  return new Promise((resolve, reject) => {
+    let frameHost: ReturnType<typeof createFrameHost>;
+
+    try {
+      frameHost = createFrameHost({ ...options, displayMode });
+    } catch (error) {
+      reject(error);
+      return;
+    }
+
+    const { host, overlay } = frameHost;
+
+    const iframe = document.createElement('iframe');
+    iframe.name = IFRAME_NAME;
+    iframe.title = 'Authorize.Net payment form';
+    iframe.style.border = '0';
+    iframe.style.width = '100%';
+    iframe.style.minWidth = '320px';
+    iframe.style.height = '600px';
+    host.appendChild(iframe);
+
+    const form = createTokenForm(token, action, IFRAME_NAME);
+    host.appendChild(form);
+
+    const cleanup = () => {
+      window.removeEventListener('message', onMessage);
+      form.remove();
+
+      if (overlay) {
+        overlay.remove();
+      } else {
+        iframe.remove();
+      }
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      // The iframe communicator page is served from the merchant's own origin
+      if (event.origin !== window.location.origin) {
+        return;
+      }
+
+      const message = parseIframeCommunicatorMessage(event.data);
+
+      if (!message) {
+        return;
+      }
+
+      logger.debug('Accept Hosted message received', { action: message.action }, 'Authorize.Net');
+
+      switch (message.action) {
+        case 'resizeWindow':
+          if (message.height > 0) {
+            iframe.style.height = `${message.height}px`;
+          }
+          if (message.width > 0) {
+            iframe.style.width = `${message.width}px`;
+          }
+          break;
+
+        case 'transactResponse':
+          cleanup();
+          resolve(mapAcceptHostedResponse(message.response));
+          break;
+
+        case 'cancel':
+          cleanup();
+          resolve({ status: 'canceled' });
+          break;
+
+        case 'successfulSave':
+          break;
+      }
+    };
+
+    window.addEventListener('message', onMessage);
+
+    logger.info(`Opening Accept Hosted (${displayMode})...`, {}, 'Authorize.Net');
+    form.submit();
+  });
+}
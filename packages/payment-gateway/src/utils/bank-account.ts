@@ -0,0 +1,100 @@
+/**
+ * Bank Account Utilities
+ * Validation and helpers for US bank account (ACH / eCheck) payments
+ */
+
+import {
+  BankAccountInput,
+  BankAccountProvider,
+  GatewayProvider
+} from '../types';
+
+export interface BankAccountValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+/**
+ * Validate an ABA routing number
+ * 9 digits with checksum 3(d1 + d4 + d7) + 7(d2 + d5 + d8) + (d3 + d6 + d9) ≡ 0 (mod 10)
+ */
+export function validateRoutingNumber(routingNumber: string): boolean {
+  const cleaned = routingNumber.replace(/\D/g, '');
+
+  if (cleaned.length !== 9 || routingNumber.replace(/[\s-]/g, '') !== cleaned) {
+    return false;
+  }
+
+  const digits = cleaned.split('').map((digit) => parseInt(digit, 10));
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7, 1];
+  const sum = digits.reduce((total, digit, index) => total + digit * weights[index], 0);
+
+  return sum !== 0 && sum % 10 === 0;
+}
+
+/**
+ * Validate a US bank account number (4-17 digits)
+ */
+export function validateAccountNumber(accountNumber: string): boolean {
+  return /^\d{4,17}$/.test(accountNumber.replace(/[\s-]/g, ''));
+}
+
+/**
+ * Comprehensive bank account validation
+ *
+ * @param requireAccountDetails - Check routing and account numbers; false when the
+ *   gateway collects them itself (Stripe Financial Connections)
+ */
+export function validateBankAccount(
+  bankAccount: BankAccountInput,
+  requireAccountDetails = true
+): BankAccountValidationResult {
+  const errors: string[] = [];
+
+  if (!bankAccount.accountHolderName?.trim()) {
+    errors.push('Account holder name is required');
+  }
+
+  if (!['checking', 'savings', 'businessChecking'].includes(bankAccount.accountType)) {
+    errors.push('Account type must be checking, savings or businessChecking');
+  }
+
+  if (requireAccountDetails) {
+    if (!bankAccount.routingNumber) {
+      errors.push('Routing number is required');
+    } else if (!validateRoutingNumber(bankAccount.routingNumber)) {
+      errors.push('Invalid routing number');
+    }
+
+    if (!bankAccount.accountNumber) {
+      errors.push('Account number is required');
+    } else if (!validateAccountNumber(bankAccount.accountNumber)) {
+      errors.push('Invalid account number (4-17 digits required)');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Mask bank account number (show last 4 digits only)
+ */
+export function maskAccountNumber(accountNumber: string): string {
+  const cleaned = accountNumber.replace(/\D/g, '');
+  if (cleaned.length < 4) {
+    return '••••';
+  }
+  return `•••• ${cleaned.slice(-4)}`;
+}
+
+/**
+ * Check if a provider implements the bank account extension
+ */
+export function supportsBankAccounts(
+  provider: GatewayProvider
+): provider is GatewayProvider & BankAccountProvider {
+  return typeof (provider as Partial<BankAccountProvider>).tokenizeBankAccount === 'function';
+}
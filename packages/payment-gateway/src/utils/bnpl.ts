@@ -0,0 +1,250 @@
+/**
+ * Buy Now, Pay Later
+ * Eligibility and promotional messaging for Klarna, Afterpay / Clearpay, Affirm and PayPal Pay Later
+ */
+
+import {
+  BnplEligibility,
+  BnplPaymentRequest,
+  BnplProvider,
+  BuiltInGatewayName,
+  PaymentError,
+  PaymentErrorCode
+} from '../types';
+import { formatCurrency, fromSmallestUnit, getCurrencyDecimals, toSmallestUnit } from './currency';
+import { logger } from './logger';
+
+export interface BnplRegion {
+  currency: string;
+  countries: string[];
+  /** Order total limits in major units */
+  minAmount: number;
+  maxAmount: number;
+}
+
+export interface BnplProviderInfo {
+  name: string;
+  gateway: BuiltInGatewayName;
+  /** Number of interest-free installments */
+  installments: number;
+  /**
+   * Largest order split into interest-free installments; above it the provider
+   * offers monthly plans with interest, so messaging shows no installment amount
+   */
+  installmentMaxAmount?: number;
+  regions: BnplRegion[];
+}
+
+/**
+ * Supported BNPL providers with their currency, country and amount limits
+ */
+export const BNPL_PROVIDERS: Record<BnplProvider, BnplProviderInfo> = {
+  klarna: {
+    name: 'Klarna',
+    gateway: 'Stripe',
+    installments: 4,
+    regions: [
+      { currency: 'USD', countries: ['US'], minAmount: 10, maxAmount: 10000 },
+      { currency: 'EUR', countries: ['AT', 'BE', 'DE', 'ES', 'FI', 'FR', 'IE', 'IT', 'NL'], minAmount: 10, maxAmount: 10000 },
+      { currency: 'GBP', countries: ['GB'], minAmount: 10, maxAmount: 5000 }
+    ]
+  },
+  afterpay_clearpay: {
+    name: 'Afterpay',
+    gateway: 'Stripe',
+    installments: 4,
+    regions: [
+      { currency: 'USD', countries: ['US'], minAmount: 1, maxAmount: 4000 },
+      { currency: 'CAD', countries: ['CA'], minAmount: 1, maxAmount: 2000 },
+      { currency: 'AUD', countries: ['AU'], minAmount: 1, maxAmount: 2000 },
+      { currency: 'NZD', countries: ['NZ'], minAmount: 1, maxAmount: 2000 },
+      { currency: 'GBP', countries: ['GB'], minAmount: 1, maxAmount: 1000 }
+    ]
+  },
+  affirm: {
+    name: 'Affirm',
+    gateway: 'Stripe',
+    installments: 4,
+    installmentMaxAmount: 250,
+    regions: [
+      { currency: 'USD', countries: ['US'], minAmount: 50, maxAmount: 30000 },
+      { currency: 'CAD', countries: ['CA'], minAmount: 50, maxAmount: 30000 }
+    ]
+  },
+  paypal_paylater: {
+    name: 'PayPal Pay Later',
+    gateway: 'Braintree',
+    installments: 4,
+    regions: [
+      { currency: 'USD', countries: ['US'], minAmount: 30, maxAmount: 1500 },
+      { currency: 'AUD', countries: ['AU'], minAmount: 30, maxAmount: 2000 }
+    ]
+  }
+};
+
+/**
+ * Get the display name of a provider (Afterpay is branded Clearpay in the UK)
+ */
+export function getBnplProviderName(provider: BnplProvider, country?: string): string {
+  if (provider === 'afterpay_clearpay' && country?.toUpperCase() === 'GB') {
+    return 'Clearpay';
+  }
+
+  return BNPL_PROVIDERS[provider]?.name || provider;
+}
+
+/**
+ * Check whether a provider can be offered for an order
+ */
+export function checkBnplEligibility(
+  provider: BnplProvider,
+  amount: number,
+  currency: string,
+  country: string
+): BnplEligibility {
+  const info = BNPL_PROVIDERS[provider];
+
+  if (!info) {
+    return { provider, eligible: false, reason: `Unsupported BNPL provider: ${provider}` };
+  }
+
+  const upperCurrency = currency.toUpperCase();
+  const upperCountry = country.toUpperCase();
+  const region = info.regions.find(
+    (candidate) => candidate.currency === upperCurrency && candidate.countries.includes(upperCountry)
+  );
+
+  if (!region) {
+    return {
+      provider,
+      eligible: false,
+      reason: `${info.name} is not available for ${upperCurrency} in ${upperCountry}`
+    };
+  }
+
+  if (amount < region.minAmount || amount > region.maxAmount) {
+    return {
+      provider,
+      eligible: false,
+      reason: `${info.name} requires an amount between ${formatCurrency(region.minAmount, { currency: upperCurrency })} and ${formatCurrency(region.maxAmount, { currency: upperCurrency })}`
+    };
+  }
+
+  return { provider, eligible: true };
+}
+
+/**
+ * Get the providers that can be offered for an order
+ */
+export function getEligibleBnplProviders(
+  amount: number,
+  currency: string,
+  country: string
+): BnplProvider[] {
+  return (Object.keys(BNPL_PROVIDERS) as BnplProvider[]).filter(
+    (provider) => checkBnplEligibility(provider, amount, currency, country).eligible
+  );
+}
+
+/**
+ * Split an amount into equal installments, rounded up to the currency's smallest unit
+ */
+export function getBnplInstallmentAmount(amount: number, currency: string, installments: number): number {
+  return fromSmallestUnit(Math.ceil(toSmallestUnit(amount, currency) / installments), currency);
+}
+
+/**
+ * Build promotional messaging for a provider, e.g. "4 interest-free payments of $12.50 with Klarna"
+ * Returns null when the provider is not eligible for the order
+ */
+export function getBnplMessage(
+  provider: BnplProvider,
+  amount: number,
+  currency: string,
+  country: string,
+  locale = 'en-US'
+): string | null {
+  if (!checkBnplEligibility(provider, amount, currency, country).eligible) {
+    return null;
+  }
+
+  const info = BNPL_PROVIDERS[provider];
+  const name = getBnplProviderName(provider, country);
+
+  if (info.installmentMaxAmount !== undefined && amount > info.installmentMaxAmount) {
+    return `Pay over time with ${name}`;
+  }
+
+  const installment = formatCurrency(
+    getBnplInstallmentAmount(amount, currency, info.installments),
+    { currency: currency.toUpperCase(), locale, decimals: getCurrencyDecimals(currency) }
+  );
+
+  return `${info.installments} interest-free payments of ${installment} with ${name}`;
+}
+
+/**
+ * Validate a BNPL payment request
+ */
+export function validateBnplPaymentRequest(request: BnplPaymentRequest): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const info = BNPL_PROVIDERS[request.provider];
+
+  if (!info) {
+    errors.push(`Unsupported BNPL provider: ${request.provider}`);
+    return { isValid: false, errors };
+  }
+
+  if (!request.amount || request.amount <= 0) {
+    errors.push('Amount must be greater than 0');
+  }
+
+  if (info.gateway === 'Stripe') {
+    try {
+      new URL(request.returnUrl || '');
+    } catch {
+      errors.push(`A valid return URL is required for ${info.name}`);
+    }
+
+    if (!request.billingDetails?.email) {
+      errors.push(`Billing email is required for ${info.name}`);
+    }
+  }
+
+  if (request.provider === 'afterpay_clearpay') {
+    if (!request.billingDetails?.name || !request.billingDetails.address) {
+      errors.push('Billing name and address are required for Afterpay / Clearpay');
+    }
+
+    if (!request.shipping) {
+      errors.push('Shipping details are required for Afterpay / Clearpay');
+    }
+  }
+
+  if (request.provider === 'paypal_paylater' && !request.container) {
+    errors.push('A container is required to render the PayPal Pay Later button');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Redirect to the BNPL provider's checkout page
+ */
+export function redirectToBnplProvider(url: string): void {
+  if (typeof window === 'undefined') {
+    throw new PaymentError(
+      PaymentErrorCode.NOT_SUPPORTED,
+      'BNPL redirect is only available in browser environment'
+    );
+  }
+
+  logger.info('Redirecting to BNPL provider...', { url: url.substring(0, 50) + '...' }, 'Stripe');
+  window.location.href = url;
+}
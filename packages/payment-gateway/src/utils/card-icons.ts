@@ -40,7 +40,15 @@ export const GATEWAY_ICONS = {
 
   braintree: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iMjYiIHZpZXdCb3g9IjAgMCA2MCAyNiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHBhdGggZD0iTTIwIDEzQzIwIDEwIDIyIDggMjUgOEMyOCA4IDMwIDEwIDMwIDEzQzMwIDE2IDI4IDE4IDI1IDE4QzIyIDE4IDIwIDE2IDIwIDEzWiIgZmlsbD0iIzAwQUFGRiIvPgo8L3N2Zz4K',
 
-  authorizenet: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iMjYiIHZpZXdCb3g9IjAgMCA2MCAyNiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHBhdGggZD0iTTE1IDEwSDQ1VjEySDE1VjEwWk0xNSAxNEg0NVYxNkgxNVYxNFoiIGZpbGw9IiMwMDc1QkQiLz4KPC9zdmc+Cg=='
+  authorizenet: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iMjYiIHZpZXdCb3g9IjAgMCA2MCAyNiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHBhdGggZD0iTTE1IDEwSDQ1VjEySDE1VjEwWk0xNSAxNEg0NVYxNkgxNVYxNFoiIGZpbGw9IiMwMDc1QkQiLz4KPC9zdmc+Cg==',
+
+  adyen: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iMjYiIHZpZXdCb3g9IjAgMCA2MCAyNiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHBhdGggZD0iTTE0IDlIMjJDMjQuMiA5IDI2IDEwLjggMjYgMTNWMTdIMjJWMTNIMThWMTdIMTRWOVpNMjggOUgzMlYxN0gyOFY5Wk0zNCA5SDQ2VjE3SDQyVjEzSDM4VjE3SDM0VjlaIiBmaWxsPSIjMEFCRjUzIi8+Cjwvc3ZnPgo=',
+
+  square: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iMjYiIHZpZXdCb3g9IjAgMCA2MCAyNiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHBhdGggZmlsbC1ydWxlPSJldmVub2RkIiBjbGlwLXJ1bGU9ImV2ZW5vZGQiIGQ9Ik0yMiA1SDM4QzM5LjY2IDUgNDEgNi4zNCA0MSA4VjE4QzQxIDE5LjY2IDM5LjY2IDIxIDM4IDIxSDIyQzIwLjM0IDIxIDE5IDE5LjY2IDE5IDE4VjhDMTkgNi4zNCAyMC4zNCA1IDIyIDVaTTI2IDlDMjUuNDUgOSAyNSA5LjQ1IDI1IDEwVjE2QzI1IDE2LjU1IDI1LjQ1IDE3IDI2IDE3SDM0QzM0LjU1IDE3IDM1IDE2LjU1IDM1IDE2VjEwQzM1IDkuNDUgMzQuNTUgOSAzNCA5SDI2WiIgZmlsbD0iIzAwMDAwMCIvPgo8L3N2Zz4K',
+
+  checkoutcom: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iMjYiIHZpZXdCb3g9IjAgMCA2MCAyNiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHBhdGggZD0iTTIzIDhMMzAgMTNMMjMgMThWMTVMMjYgMTNMMjMgMTFWOFpNMzcgOEwzMCAxM0wzNyAxOFYxNUwzNCAxM0wzNyAxMVY4WiIgZmlsbD0iIzE4NkFGRiIvPgo8L3N2Zz4K',
+
+  razorpay: 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNjAiIGhlaWdodD0iMjYiIHZpZXdCb3g9IjAgMCA2MCAyNiIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHBhdGggZD0iTTI5IDVMMjUgMjFIMjguNUwzMSAxMUwzNSA1SDI5Wk0zMi41IDEzTDMwLjUgMjFIMzRMMzcgOUwzMi41IDEzWiIgZmlsbD0iIzMzOTVGRiIvPgo8L3N2Zz4K'
 };
 
 /**
@@ -10,6 +10,17 @@ export interface CurrencyOptions {
   symbol?: boolean;
 }
 
+const LAKH = 100000;
+const CRORE = 10000000;
+
+/**
+ * Default locale for a currency
+ * INR uses en-IN so amounts are grouped in lakhs and crores (1,00,00,000)
+ */
+function getDefaultLocale(currency: string): string {
+  return currency.toUpperCase() === 'INR' ? 'en-IN' : 'en-US';
+}
+
 /**
  * Format amount as currency
  */
@@ -19,7 +30,7 @@ export function formatCurrency(
 ): string {
   const {
     currency = 'USD',
-    locale = 'en-US',
+    locale = getDefaultLocale(currency),
     decimals = 2,
     symbol = true
   } = options;
@@ -126,7 +137,7 @@ export function fromSmallestUnit(amount: number, currency: string): number {
 export function formatWithCode(
   amount: number,
   currency: string,
-  locale = 'en-US'
+  locale = getDefaultLocale(currency)
 ): string {
   const formatted = formatCurrency(amount, { currency, locale });
   return `${formatted} ${currency}`;
@@ -215,8 +226,8 @@ export function roundToCurrency(amount: number, currency: string): number {
  * Format amount for display in different contexts
  */
 export interface FormatContext {
-  short?: boolean; // $1.2K instead of $1,200
-  compact?: boolean; // 1.2M instead of 1,200,000
+  short?: boolean; // $1.2K instead of $1,200 (₹1.2L instead of ₹1,20,000)
+  compact?: boolean; // 1.2M instead of 1,200,000 (₹1.2Cr instead of ₹1,20,00,000)
   signed?: boolean; // Show + for positive numbers
 }
 
@@ -229,7 +240,9 @@ export function formatAmount(
 
   let formatted: string;
 
-  if (compact && Math.abs(amount) >= 1000000) {
+  if (currency.toUpperCase() === 'INR' && (short || compact)) {
+    formatted = formatIndianShort(amount, compact);
+  } else if (compact && Math.abs(amount) >= 1000000) {
     formatted = formatCurrency(amount / 1000000, { currency, decimals: 1 }) + 'M';
   } else if (short && Math.abs(amount) >= 1000) {
     formatted = formatCurrency(amount / 1000, { currency, decimals: 1 }) + 'K';
@@ -243,3 +256,48 @@ export function formatAmount(
 
   return formatted;
 }
+
+/**
+ * Short INR format in lakhs (L) and crores (Cr)
+ */
+function formatIndianShort(amount: number, compact: boolean): string {
+  const absolute = Math.abs(amount);
+
+  if (compact && absolute >= CRORE) {
+    return formatCurrency(amount / CRORE, { currency: 'INR', decimals: 1 }) + 'Cr';
+  }
+
+  if (absolute >= LAKH) {
+    return formatCurrency(amount / LAKH, { currency: 'INR', decimals: 1 }) + 'L';
+  }
+
+  if (absolute >= 1000) {
+    return formatCurrency(amount / 1000, { currency: 'INR', decimals: 1 }) + 'K';
+  }
+
+  return formatCurrency(amount, { currency: 'INR' });
+}
+
+/**
+ * Format an INR amount in words for lakhs and crores
+ * e.g. 150000 -> "₹1.5 lakh", 22500000 -> "₹2.25 crore"; smaller amounts use lakh grouping
+ */
+export function formatLakhCrore(
+  amount: number,
+  options: Pick<CurrencyOptions, 'decimals' | 'symbol'> = {}
+): string {
+  const { decimals = 2, symbol = true } = options;
+  const absolute = Math.abs(amount);
+
+  if (absolute < LAKH) {
+    return formatCurrency(amount, { currency: 'INR', symbol });
+  }
+
+  const [divisor, unit] = absolute >= CRORE ? [CRORE, 'crore'] : [LAKH, 'lakh'];
+  const value = new Intl.NumberFormat('en-IN', {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: decimals
+  }).format(absolute / divisor);
+
+  return `${amount < 0 ? '-' : ''}${symbol ? '₹' : ''}${value} ${unit}`;
+}
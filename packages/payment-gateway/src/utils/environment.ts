@@ -0,0 +1,60 @@
+/**
+ * Gateway Environment
+ * Resolves sandbox / production settings and warns about credential mismatches
+ */
+
+import { EnvironmentAdapter, GatewayName } from '../types';
+import { logger } from './logger';
+
+export type GatewayEnvironment = 'sandbox' | 'production';
+
+/**
+ * Get the configured gateway environment
+ * Defaults to production when not configured
+ */
+export function getGatewayEnvironment(adapter: EnvironmentAdapter): GatewayEnvironment {
+  const environment = adapter.getConfig('environment');
+
+  if (environment && environment !== 'sandbox' && environment !== 'production') {
+    logger.warn(`Unknown environment "${environment}", falling back to production`);
+  }
+
+  return environment === 'sandbox' ? 'sandbox' : 'production';
+}
+
+/**
+ * Check if the environment was set explicitly
+ * Credential mismatch warnings are only raised when it was
+ */
+export function isGatewayEnvironmentConfigured(adapter: EnvironmentAdapter): boolean {
+  return !!adapter.getConfig('environment');
+}
+
+/**
+ * Warn when credentials belong to a different environment than the configured one
+ *
+ * @param credentialEnvironment - Environment the credential was issued for, or null if unknown
+ */
+export function checkEnvironmentMismatch(
+  gateway: GatewayName,
+  credential: string,
+  credentialEnvironment: GatewayEnvironment | null,
+  adapter: EnvironmentAdapter
+): boolean {
+  if (!credentialEnvironment || !isGatewayEnvironmentConfigured(adapter)) {
+    return false;
+  }
+
+  const environment = getGatewayEnvironment(adapter);
+
+  if (credentialEnvironment === environment) {
+    return false;
+  }
+
+  logger.warn(
+    `${gateway} ${credential} is for ${credentialEnvironment} but environment is ${environment}`,
+    { credentialEnvironment, environment },
+    gateway
+  );
+  return true;
+}
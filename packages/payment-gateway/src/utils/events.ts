@@ -20,11 +20,19 @@ export enum PaymentEvent {
   PAYMENT_STARTED = 'payment_started',
   PAYMENT_SUCCESS = 'payment_success',
   PAYMENT_FAILED = 'payment_failed',
+  PAYMENT_PENDING = 'payment_pending',
+  PAYMENT_EXPIRED = 'payment_expired',
+
+  // 3D Secure lifecycle
+  THREE_DS_STARTED = 'three_ds_started',
+  THREE_DS_CHALLENGE = 'three_ds_challenge',
+  THREE_DS_COMPLETED = 'three_ds_completed',
 
   // Validation events
   VALIDATION_STARTED = 'validation_started',
   VALIDATION_SUCCESS = 'validation_success',
   VALIDATION_FAILED = 'validation_failed',
+  FIELD_STATE_CHANGED = 'field_state_changed',
 
   // SDK events
   SDK_LOADING = 'sdk_loading',
@@ -4,8 +4,14 @@
  */
 
 import {
+  BuiltInGatewayName,
+  GatewayName,
   GatewayDetectionResponse,
   PaymentConfiguration,
+  PaymentMethod,
+  PaymentScenario,
+  PaymentScenarioDefinition,
+  PaymentTokenType,
   EnvironmentAdapter,
   PaymentError,
   PaymentErrorCode
@@ -17,7 +23,8 @@ import { logger } from './logger';
  * Calls /api/integration/getDefaultSubscriptionType
  */
 export async function detectActiveGateway(
-  adapter: EnvironmentAdapter
+  adapter: EnvironmentAdapter,
+  registeredGateways: GatewayName[] = []
 ): Promise<PaymentConfiguration> {
   const apiBaseUrl = adapter.getConfig('apiBaseUrl');
 
@@ -64,7 +71,7 @@ export async function detectActiveGateway(
     });
 
     // Determine scenario and configuration
-    const config = determinePaymentScenario(data);
+    const config = determinePaymentScenario(data, registeredGateways);
 
     return config;
   } catch (error) {
@@ -81,102 +88,355 @@ export async function detectActiveGateway(
   }
 }
 
+type ScenarioTableEntry = PaymentScenarioDefinition & {
+  /**
+   * Entry used instead when the detection response has a redirect URL
+   */
+  withRedirect?: PaymentScenarioDefinition;
+
+  /**
+   * Set when the combination has no native flow and falls back to another one
+   */
+  fallbackReason?: string;
+};
+
+const STRIPE_SESSION: PaymentScenarioDefinition = {
+  scenario: 'stripe-session',
+  tokenType: 'sessionId',
+  requiresRedirect: false,
+  edgeCheckout: false,
+  requiredInputs: ['sessionRequest'],
+  description: 'Stripe session-based checkout'
+};
+
+const BRAINTREE_EDGE: PaymentScenarioDefinition = {
+  scenario: 'braintree-edge',
+  tokenType: 'nonce',
+  requiresRedirect: false,
+  edgeCheckout: true,
+  requiredInputs: ['card'],
+  description: 'Braintree Edge Checkout'
+};
+
+const AUTHORIZENET_EDGE: PaymentScenarioDefinition = {
+  scenario: 'authorizenet-edge',
+  tokenType: 'opaqueData',
+  requiresRedirect: false,
+  edgeCheckout: true,
+  requiredInputs: ['card'],
+  description: 'Authorize.Net Edge Checkout'
+};
+
+const ADYEN_EDGE: PaymentScenarioDefinition = {
+  scenario: 'adyen-edge',
+  tokenType: 'paymentMethodData',
+  requiresRedirect: false,
+  edgeCheckout: true,
+  requiredInputs: ['card'],
+  description: 'Adyen Edge Checkout'
+};
+
+const SQUARE_EDGE: PaymentScenarioDefinition = {
+  scenario: 'square-edge',
+  tokenType: 'sourceId',
+  requiresRedirect: false,
+  edgeCheckout: true,
+  requiredInputs: ['hostedFields'],
+  description: 'Square Web Payments card form'
+};
+
+const CHECKOUTCOM_EDGE: PaymentScenarioDefinition = {
+  scenario: 'checkoutcom-edge',
+  tokenType: 'token',
+  requiresRedirect: false,
+  edgeCheckout: true,
+  requiredInputs: ['card'],
+  description: 'Checkout.com Edge Checkout'
+};
+
+const RAZORPAY_CHECKOUT: PaymentScenarioDefinition = {
+  scenario: 'razorpay-checkout',
+  tokenType: 'razorpayPayment',
+  requiresRedirect: false,
+  edgeCheckout: false,
+  requiredInputs: ['razorpayCheckout'],
+  description: 'Razorpay Checkout'
+};
+
 /**
- * Determine payment scenario based on API response
+ * Fallback for gateways registered with registerGateway() that have no table entry
+ * Cards are tokenized by the provider, or from its mounted fields when it has them
  */
-export function determinePaymentScenario(
-  response: GatewayDetectionResponse
-): PaymentConfiguration {
-  const { gatewayName, paymentThrough, redirectUrl } = response.data;
+const CUSTOM_PROVIDER: PaymentScenarioDefinition = {
+  scenario: 'custom-provider',
+  tokenType: 'token',
+  requiresRedirect: false,
+  edgeCheckout: true,
+  requiredInputs: ['card'],
+  description: 'Custom gateway provider'
+};
 
-  // Scenario A: Stripe with Stripe checkout (session-based), no redirect
-  if (
-    gatewayName === 'Stripe' &&
-    paymentThrough === 'Stripe' &&
-    !redirectUrl.isAvailable
-  ) {
-    logger.debug('Scenario: Stripe session-based checkout');
-    return {
-      gatewayName: 'Stripe',
-      paymentMethod: 'Stripe',
+/**
+ * Scenario table
+ * One entry for every built-in gateway x payment method pair
+ */
+export const PAYMENT_SCENARIO_TABLE: Record<BuiltInGatewayName, Record<PaymentMethod, ScenarioTableEntry>> = {
+  'Stripe': {
+    'Stripe': {
+      ...STRIPE_SESSION,
+      withRedirect: {
+        scenario: 'stripe-redirect',
+        tokenType: 'sessionId',
+        requiresRedirect: true,
+        redirectSource: 'backend',
+        edgeCheckout: false,
+        requiredInputs: [],
+        description: 'Stripe redirect checkout'
+      }
+    },
+    'Edge Checkout': {
+      scenario: 'stripe-edge',
+      tokenType: 'paymentMethodId',
       requiresRedirect: false,
-      scenario: 'stripe-session',
-      tokenType: 'sessionId'
-    };
-  }
-
-  // Scenario B: Stripe with Stripe checkout (hosted page), with redirect
-  if (
-    gatewayName === 'Stripe' &&
-    paymentThrough === 'Stripe' &&
-    redirectUrl.isAvailable
-  ) {
-    logger.debug('Scenario: Stripe redirect checkout', { url: redirectUrl.url });
-    return {
-      gatewayName: 'Stripe',
-      paymentMethod: 'Stripe',
+      edgeCheckout: true,
+      requiredInputs: ['card'],
+      description: 'Stripe Edge Checkout'
+    },
+    'Hosted Checkout': {
+      scenario: 'stripe-hosted',
+      tokenType: 'sessionId',
       requiresRedirect: true,
-      redirectUrl: redirectUrl.url,
-      scenario: 'stripe-redirect',
-      tokenType: 'sessionId'
-    };
-  }
-
-  // Scenario C: Braintree with Edge Checkout
-  if (
-    gatewayName === 'Braintree' &&
-    paymentThrough === 'Edge Checkout'
-  ) {
-    logger.debug('Scenario: Braintree Edge Checkout');
-    return {
-      gatewayName: 'Braintree',
-      paymentMethod: 'Edge Checkout',
+      redirectSource: 'session',
+      edgeCheckout: false,
+      requiredInputs: ['sessionRequest'],
+      description: 'Stripe hosted Checkout page'
+    }
+  },
+  'Braintree': {
+    'Stripe': {
+      ...BRAINTREE_EDGE,
+      fallbackReason: 'Stripe Checkout is only available with the Stripe gateway'
+    },
+    'Edge Checkout': BRAINTREE_EDGE,
+    'Hosted Checkout': {
+      scenario: 'braintree-hosted',
+      tokenType: 'nonce',
       requiresRedirect: false,
-      scenario: 'braintree-edge',
-      tokenType: 'nonce'
-    };
-  }
-
-  // Scenario D: Authorize.Net with Edge Checkout
-  if (
-    gatewayName === 'Authorize.Net' &&
-    paymentThrough === 'Edge Checkout'
-  ) {
-    logger.debug('Scenario: Authorize.Net Edge Checkout');
-    return {
-      gatewayName: 'Authorize.Net',
-      paymentMethod: 'Edge Checkout',
+      edgeCheckout: false,
+      requiredInputs: ['hostedFields'],
+      description: 'Braintree Hosted Fields checkout'
+    }
+  },
+  'Authorize.Net': {
+    'Stripe': {
+      ...AUTHORIZENET_EDGE,
+      fallbackReason: 'Stripe Checkout is only available with the Stripe gateway'
+    },
+    'Edge Checkout': AUTHORIZENET_EDGE,
+    'Hosted Checkout': {
+      scenario: 'authorizenet-hosted',
+      tokenType: 'transactionId',
       requiresRedirect: false,
-      scenario: 'authorizenet-edge',
-      tokenType: 'rawCard'
-    };
+      edgeCheckout: false,
+      requiredInputs: ['hostedPaymentRequest'],
+      description: 'Authorize.Net Accept Hosted'
+    }
+  },
+  'Adyen': {
+    'Stripe': {
+      ...ADYEN_EDGE,
+      fallbackReason: 'Stripe Checkout is only available with the Stripe gateway'
+    },
+    'Edge Checkout': ADYEN_EDGE,
+    'Hosted Checkout': {
+      scenario: 'adyen-dropin',
+      tokenType: 'paymentMethodData',
+      requiresRedirect: false,
+      edgeCheckout: false,
+      requiredInputs: ['hostedFields'],
+      description: 'Adyen Drop-in checkout'
+    }
+  },
+  'Square': {
+    'Stripe': {
+      ...SQUARE_EDGE,
+      fallbackReason: 'Stripe Checkout is only available with the Stripe gateway'
+    },
+    'Edge Checkout': SQUARE_EDGE,
+    'Hosted Checkout': {
+      ...SQUARE_EDGE,
+      fallbackReason: 'Square Checkout payment links are not supported'
+    }
+  },
+  'Checkout.com': {
+    'Stripe': {
+      ...CHECKOUTCOM_EDGE,
+      fallbackReason: 'Stripe Checkout is only available with the Stripe gateway'
+    },
+    'Edge Checkout': CHECKOUTCOM_EDGE,
+    'Hosted Checkout': {
+      scenario: 'checkoutcom-frames',
+      tokenType: 'token',
+      requiresRedirect: false,
+      edgeCheckout: false,
+      requiredInputs: ['hostedFields'],
+      description: 'Checkout.com Frames checkout'
+    }
+  },
+  'Razorpay': {
+    'Stripe': {
+      ...RAZORPAY_CHECKOUT,
+      fallbackReason: 'Stripe Checkout is only available with the Stripe gateway'
+    },
+    'Edge Checkout': {
+      ...RAZORPAY_CHECKOUT,
+      fallbackReason: 'Razorpay collects payment details in Razorpay Checkout'
+    },
+    'Hosted Checkout': RAZORPAY_CHECKOUT
+  }
+};
+
+/**
+ * Look up the raw table entry for a gateway / payment method pair
+ */
+function getTableEntry(gatewayName: GatewayName, paymentMethod: PaymentMethod): ScenarioTableEntry | undefined {
+  const table: Partial<Record<string, Record<PaymentMethod, ScenarioTableEntry>>> = PAYMENT_SCENARIO_TABLE;
+  return table[gatewayName]?.[paymentMethod];
+}
+
+/**
+ * Copy the definition fields of an entry, leaving out table-only fields
+ */
+function toDefinition(entry: ScenarioTableEntry): PaymentScenarioDefinition {
+  return {
+    scenario: entry.scenario,
+    tokenType: entry.tokenType,
+    requiresRedirect: entry.requiresRedirect,
+    ...(entry.redirectSource ? { redirectSource: entry.redirectSource } : {}),
+    edgeCheckout: entry.edgeCheckout,
+    requiredInputs: entry.requiredInputs,
+    description: entry.description
+  };
+}
+
+/**
+ * Look up the scenario definition for a gateway / payment method pair
+ */
+export function findScenarioDefinition(
+  gatewayName: GatewayName,
+  paymentMethod: PaymentMethod,
+  hasRedirectUrl = false
+): PaymentScenarioDefinition | null {
+  const entry = getTableEntry(gatewayName, paymentMethod);
+
+  if (!entry) {
+    return null;
+  }
+
+  if (hasRedirectUrl && entry.withRedirect) {
+    return entry.withRedirect;
   }
 
-  // Unsupported scenario
-  throw new PaymentError(
-    PaymentErrorCode.NOT_SUPPORTED,
-    `Unsupported payment configuration: ${gatewayName} with ${paymentThrough}`
-  );
+  return toDefinition(entry);
 }
 
 /**
- * Check if Stripe redirect is required
+ * Find the scenario definition for a scenario name
+ */
+function lookupScenario(scenario: PaymentScenario): PaymentScenarioDefinition | null {
+  if (scenario === CUSTOM_PROVIDER.scenario) {
+    return CUSTOM_PROVIDER;
+  }
+
+  for (const methods of Object.values(PAYMENT_SCENARIO_TABLE)) {
+    for (const entry of Object.values(methods)) {
+      if (entry.scenario === scenario) {
+        return toDefinition(entry);
+      }
+
+      if (entry.withRedirect?.scenario === scenario) {
+        return entry.withRedirect;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the scenario definition for a scenario name
+ */
+export function getScenarioDefinition(scenario: PaymentScenario): PaymentScenarioDefinition {
+  const definition = lookupScenario(scenario);
+
+  if (!definition) {
+    throw new PaymentError(
+      PaymentErrorCode.NOT_SUPPORTED,
+      `Unknown payment scenario: ${scenario}`
+    );
+  }
+
+  return definition;
+}
+
+/**
+ * Determine payment scenario based on API response
+ *
+ * @param registeredGateways - Custom gateway names that fall back to the custom-provider scenario
+ */
+export function determinePaymentScenario(
+  response: GatewayDetectionResponse,
+  registeredGateways: GatewayName[] = []
+): PaymentConfiguration {
+  const { gatewayName, paymentThrough, redirectUrl } = response.data;
+
+  const entry = getTableEntry(gatewayName, paymentThrough);
+  const definition = findScenarioDefinition(gatewayName, paymentThrough, redirectUrl.isAvailable)
+    || (registeredGateways.includes(gatewayName) ? CUSTOM_PROVIDER : null);
+
+  if (!definition) {
+    throw new PaymentError(
+      PaymentErrorCode.NOT_SUPPORTED,
+      `Unsupported payment configuration: ${gatewayName} with ${paymentThrough}`
+    );
+  }
+
+  if (entry?.fallbackReason) {
+    logger.warn(`${gatewayName} with ${paymentThrough}: ${entry.fallbackReason}, using ${definition.description}`);
+  }
+
+  logger.debug(`Scenario: ${definition.description}`, definition.redirectSource === 'backend' ? { url: redirectUrl.url } : undefined);
+
+  return {
+    gatewayName,
+    paymentMethod: paymentThrough,
+    requiresRedirect: definition.requiresRedirect,
+    ...(definition.redirectSource === 'backend' ? { redirectUrl: redirectUrl.url } : {}),
+    scenario: definition.scenario,
+    tokenType: definition.tokenType,
+    requiredInputs: [...definition.requiredInputs]
+  };
+}
+
+/**
+ * Check if Stripe redirect to config.redirectUrl is required
+ * The hosted scenario redirects to the session URL instead, so it is not included
  */
 export function requiresStripeRedirect(config: PaymentConfiguration): boolean {
-  return config.scenario === 'stripe-redirect';
+  return config.gatewayName === 'Stripe' && getScenarioDefinition(config.scenario).redirectSource === 'backend';
 }
 
 /**
  * Check if Edge Checkout is required
  */
 export function requiresEdgeCheckout(config: PaymentConfiguration): boolean {
-  return config.scenario === 'braintree-edge' || config.scenario === 'authorizenet-edge';
+  return getScenarioDefinition(config.scenario).edgeCheckout;
 }
 
 /**
  * Get expected token type for configuration
  */
-export function getExpectedTokenType(config: PaymentConfiguration): 'sessionId' | 'nonce' | 'rawCard' {
+export function getExpectedTokenType(config: PaymentConfiguration): PaymentTokenType {
   return config.tokenType;
 }
 
@@ -197,15 +457,19 @@ export function validatePaymentConfiguration(config: PaymentConfiguration): {
     errors.push('Payment method is missing');
   }
 
+  const definition = config.scenario ? lookupScenario(config.scenario) : null;
+
   if (!config.scenario) {
     errors.push('Payment scenario is missing');
+  } else if (!definition) {
+    errors.push(`Unknown payment scenario: ${config.scenario}`);
   }
 
   if (!config.tokenType) {
     errors.push('Token type is missing');
   }
 
-  if (config.requiresRedirect && !config.redirectUrl) {
+  if (definition?.redirectSource === 'backend' && !config.redirectUrl) {
     errors.push('Redirect URL is required but missing');
   }
 
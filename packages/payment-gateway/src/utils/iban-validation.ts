@@ -0,0 +1,150 @@
+/**
+ * IBAN and Direct Debit Validation Utilities
+ * Validates SEPA (IBAN) and BACS (sort code / account number) bank details
+ */
+
+import { DirectDebitInput } from '../types';
+
+export interface DirectDebitValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+/**
+ * IBAN length per country (ISO 13616 registry)
+ */
+export const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29,
+  CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, EG: 29, ES: 24,
+  FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28, HR: 21,
+  HU: 28, IE: 22, IL: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28, LI: 21,
+  LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19, MR: 27, MT: 31, MU: 30,
+  NL: 18, NO: 15, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, SA: 24,
+  SE: 24, SI: 19, SK: 24, SM: 27, TN: 24, TR: 26, UA: 29, VA: 22, VG: 24, XK: 20
+};
+
+/**
+ * Strip spaces and dashes and uppercase an IBAN
+ */
+export function electronicFormatIBAN(iban: string): string {
+  return iban.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Get the country code of an IBAN
+ */
+export function getIBANCountryCode(iban: string): string {
+  return electronicFormatIBAN(iban).slice(0, 2);
+}
+
+/**
+ * Validate an IBAN: country length and ISO 7064 mod-97 checksum
+ */
+export function validateIBAN(iban: string): boolean {
+  const cleaned = electronicFormatIBAN(iban);
+
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(cleaned)) {
+    return false;
+  }
+
+  const expectedLength = IBAN_LENGTHS[cleaned.slice(0, 2)];
+  if (!expectedLength || cleaned.length !== expectedLength) {
+    return false;
+  }
+
+  // Move the country code and check digits to the end, map letters to 10-35
+  const rearranged = cleaned.slice(4) + cleaned.slice(0, 4);
+  const numeric = rearranged.replace(/[A-Z]/g, (letter) => String(letter.charCodeAt(0) - 55));
+
+  // Process in chunks to stay within Number precision
+  let remainder = 0;
+  for (let i = 0; i < numeric.length; i += 7) {
+    remainder = parseInt(String(remainder) + numeric.slice(i, i + 7), 10) % 97;
+  }
+
+  return remainder === 1;
+}
+
+/**
+ * Format IBAN in groups of four (print format)
+ */
+export function formatIBAN(iban: string): string {
+  return electronicFormatIBAN(iban).replace(/(.{4})(?=.)/g, '$1 ');
+}
+
+/**
+ * Mask IBAN (show country code and last 4 characters only)
+ */
+export function maskIBAN(iban: string): string {
+  const cleaned = electronicFormatIBAN(iban);
+  if (cleaned.length < 8) {
+    return '••••';
+  }
+  return `${cleaned.slice(0, 2)}•• •••• ${cleaned.slice(-4)}`;
+}
+
+/**
+ * Validate a UK sort code (6 digits, optionally as 12-34-56)
+ */
+export function validateSortCode(sortCode: string): boolean {
+  return /^\d{2}-?\d{2}-?\d{2}$/.test(sortCode.replace(/\s/g, ''));
+}
+
+/**
+ * Validate a UK bank account number (8 digits)
+ */
+export function validateBacsAccountNumber(accountNumber: string): boolean {
+  return /^\d{8}$/.test(accountNumber.replace(/\s/g, ''));
+}
+
+/**
+ * Comprehensive direct debit validation
+ */
+export function validateDirectDebit(input: DirectDebitInput): DirectDebitValidationResult {
+  const errors: string[] = [];
+
+  if (!input.accountHolderName?.trim()) {
+    errors.push('Account holder name is required');
+  }
+
+  if (!input.email?.trim()) {
+    errors.push('Email is required');
+  }
+
+  if (input.scheme === 'sepa_debit') {
+    if (!input.iban) {
+      errors.push('IBAN is required');
+    } else if (!validateIBAN(input.iban)) {
+      errors.push('Invalid IBAN');
+    }
+  } else if (input.scheme === 'bacs_debit') {
+    if (!input.sortCode) {
+      errors.push('Sort code is required');
+    } else if (!validateSortCode(input.sortCode)) {
+      errors.push('Invalid sort code (6 digits required)');
+    }
+
+    if (!input.accountNumber) {
+      errors.push('Account number is required');
+    } else if (!validateBacsAccountNumber(input.accountNumber)) {
+      errors.push('Invalid account number (8 digits required)');
+    }
+
+    if (!input.billingAddress) {
+      errors.push('Billing address is required for BACS Direct Debit');
+    }
+  } else {
+    errors.push('Scheme must be sepa_debit or bacs_debit');
+  }
+
+  if (!input.mandate) {
+    errors.push('Mandate acceptance is required');
+  } else if (input.mandate.scheme !== input.scheme) {
+    errors.push(`Mandate was accepted for ${input.mandate.scheme}, not ${input.scheme}`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
@@ -5,67 +5,125 @@
 import { PaymentError, PaymentErrorCode, EnvironmentAdapter } from "../types";
 
 /**
- * Track loaded scripts to avoid duplicate loads
+ * Script Loader
+ * Loads external SDK scripts once per owner. Scripts already present in the
+ * document (e.g. added by another manager) are reused instead of injected twice.
  */
-const loadedScripts = new Set<string>();
-const loadingScripts = new Map<string, Promise<void>>();
-
-/**
- * Dynamically load an external JavaScript file
- *
- * @param src - The script URL to load
- * @param adapter - Environment adapter for browser check
- * @returns Promise that resolves when script is loaded
- */
-export function loadScript(src: string, adapter: EnvironmentAdapter): Promise<void> {
-  if (!adapter.isBrowser()) {
-    return Promise.reject(
-      new PaymentError(
-        PaymentErrorCode.SDK_LOAD_FAILED,
-        "Cannot load scripts in server environment"
-      )
-    );
-  }
+export class ScriptLoader {
+  private loadedScripts = new Set<string>();
+  private loadingScripts = new Map<string, Promise<void>>();
+
+  /**
+   * Dynamically load an external JavaScript file
+   *
+   * @param src - The script URL to load
+   * @param adapter - Environment adapter for browser check
+   * @param attributes - Attributes for a newly created tag (e.g. data-tokenization-key)
+   * @returns Promise that resolves when script is loaded
+   */
+  load(src: string, adapter: EnvironmentAdapter, attributes: Record<string, string> = {}): Promise<void> {
+    if (!adapter.isBrowser()) {
+      return Promise.reject(
+        new PaymentError(
+          PaymentErrorCode.SDK_LOAD_FAILED,
+          "Cannot load scripts in server environment"
+        )
+      );
+    }
 
-  if (loadedScripts.has(src)) {
-    console.debug(`[loadScript] Already loaded: ${src}`);
-    return Promise.resolve();
-  }
+    if (this.loadedScripts.has(src)) {
+      console.debug(`[loadScript] Already loaded: ${src}`);
+      return Promise.resolve();
+    }
 
-  if (loadingScripts.has(src)) {
-    console.debug(`[loadScript] Already loading: ${src}`);
-    return loadingScripts.get(src)!;
-  }
+    if (this.loadingScripts.has(src)) {
+      console.debug(`[loadScript] Already loading: ${src}`);
+      return this.loadingScripts.get(src)!;
+    }
 
-  console.debug(`[loadScript] Loading: ${src}`);
+    const existing = Array.from(document.scripts).find((script) => script.src === src);
 
-  const loadPromise = new Promise<void>((resolve, reject) => {
-    const script = document.createElement("script");
-    script.src = src;
-    script.async = true;
+    if (existing?.dataset.loaded === "true") {
+      console.debug(`[loadScript] Found in document: ${src}`);
+      this.loadedScripts.add(src);
+      return Promise.resolve();
+    }
 
-    script.onload = () => {
-      console.debug(`[loadScript] Loaded successfully: ${src}`);
-      loadedScripts.add(src);
-      loadingScripts.delete(src);
-      resolve();
-    };
+    // Only piggyback on tags another loader is still loading; anything else gets a fresh tag
+    const pending = existing?.dataset.loading === "true" ? existing : null;
+
+    console.debug(`[loadScript] Loading: ${src}`);
+
+    const loadPromise = new Promise<void>((resolve, reject) => {
+      const script = pending || document.createElement("script");
+
+      script.addEventListener("load", () => {
+        console.debug(`[loadScript] Loaded successfully: ${src}`);
+        delete script.dataset.loading;
+        script.dataset.loaded = "true";
+        this.loadedScripts.add(src);
+        this.loadingScripts.delete(src);
+        resolve();
+      });
+
+      script.addEventListener("error", () => {
+        this.loadingScripts.delete(src);
+        script.remove();
+        reject(
+          new PaymentError(
+            PaymentErrorCode.SDK_LOAD_FAILED,
+            `Failed to load script: ${src}`
+          )
+        );
+      });
+
+      if (!pending) {
+        for (const [name, value] of Object.entries(attributes)) {
+          script.setAttribute(name, value);
+        }
+
+        script.src = src;
+        script.async = true;
+        script.dataset.loading = "true";
+        document.head.appendChild(script);
+      }
+    });
+
+    this.loadingScripts.set(src, loadPromise);
+    return loadPromise;
+  }
 
-    script.onerror = () => {
-      loadingScripts.delete(src);
-      reject(
-        new PaymentError(
-          PaymentErrorCode.SDK_LOAD_FAILED,
-          `Failed to load script: ${src}`
-        )
-      );
-    };
+  /**
+   * Check if a script has been loaded by this loader
+   */
+  isLoaded(src: string): boolean {
+    return this.loadedScripts.has(src);
+  }
 
-    document.head.appendChild(script);
-  });
+  /**
+   * Forget tracked scripts (script tags stay in the document)
+   */
+  reset(): void {
+    this.loadedScripts.clear();
+    this.loadingScripts.clear();
+  }
+}
 
-  loadingScripts.set(src, loadPromise);
-  return loadPromise;
+/**
+ * Dynamically load an external JavaScript file
+ * One-off helper; gateways should share a ScriptLoader instead
+ *
+ * @param src - The script URL to load
+ * @param adapter - Environment adapter for browser check
+ * @param attributes - Attributes for the script tag
+ * @returns Promise that resolves when script is loaded
+ */
+export function loadScript(
+  src: string,
+  adapter: EnvironmentAdapter,
+  attributes?: Record<string, string>
+): Promise<void> {
+  return new ScriptLoader().load(src, adapter, attributes);
 }
 
 /**
@@ -127,6 +185,12 @@ export function normalizeGatewayName(name: string): string {
   if (lowerName === "authorize.net" || lowerName === "authorizenet" || lowerName === "authorizedotnet") {
     return "Authorize.Net";
   }
+  if (lowerName === "adyen") return "Adyen";
+  if (lowerName === "square") return "Square";
+  if (lowerName === "checkout.com" || lowerName === "checkoutcom" || lowerName === "checkout") {
+    return "Checkout.com";
+  }
+  if (lowerName === "razorpay") return "Razorpay";
 
   return normalized;
 }
@@ -0,0 +1,90 @@
+/**
+ * Direct Debit Mandates
+ * Mandate text generation and customer consent capture for SEPA and BACS
+ */
+
+import {
+  DirectDebitScheme,
+  MandateAcceptance,
+  PaymentError,
+  PaymentErrorCode,
+  StripeMandateData
+} from '../types';
+
+export interface MandateTextOptions {
+  scheme: DirectDebitScheme;
+  /** Business name shown on the customer's bank statement */
+  merchantName: string;
+  /** Payment service provider named in the SEPA mandate (default: Stripe) */
+  paymentProvider?: string;
+  /** Days of notice given before each debit (default: 2 for SEPA, 3 for BACS) */
+  noticeDays?: number;
+}
+
+/**
+ * Generate the mandate text the customer must accept before a direct debit
+ * SEPA text follows the standard Core scheme wording; BACS references the Direct Debit Guarantee
+ */
+export function generateMandateText(options: MandateTextOptions): string {
+  const paymentProvider = options.paymentProvider || 'Stripe';
+
+  if (options.scheme === 'sepa_debit') {
+    const noticeDays = options.noticeDays ?? 2;
+
+    return `By providing your payment information and confirming this payment, you authorise (A) ${options.merchantName} and ${paymentProvider}, our payment service provider, to send instructions to your bank to debit your account and (B) your bank to debit your account in accordance with those instructions. As part of your rights, you are entitled to a refund from your bank under the terms and conditions of your agreement with your bank. A refund must be claimed within 8 weeks starting from the date on which your account was debited. Your rights are explained in a statement that you can obtain from your bank. You agree to receive notifications for future debits up to ${noticeDays} days before they occur.`;
+  }
+
+  const noticeDays = options.noticeDays ?? 3;
+
+  return `By confirming, you instruct ${options.merchantName} to collect payments from your account by Direct Debit, and confirm that you are the account holder and the only person required to authorise debits from this account. Payments are protected by the Direct Debit Guarantee. You will be notified at least ${noticeDays} working days before each debit. You can cancel this Direct Debit at any time by contacting your bank.`;
+}
+
+/**
+ * Record the customer's acceptance of a mandate
+ * Call this when the customer ticks the mandate checkbox; the result travels with the token
+ *
+ * @param accepted - Whether the customer agreed; false throws so consent can't be skipped
+ */
+export function captureMandateConsent(
+  scheme: DirectDebitScheme,
+  mandateText: string,
+  accepted: boolean
+): MandateAcceptance {
+  if (!accepted) {
+    throw new PaymentError(
+      PaymentErrorCode.VALIDATION_ERROR,
+      'The customer must accept the direct debit mandate'
+    );
+  }
+
+  if (!mandateText.trim()) {
+    throw new PaymentError(
+      PaymentErrorCode.VALIDATION_ERROR,
+      'Mandate text is required'
+    );
+  }
+
+  return {
+    scheme,
+    mandateText,
+    acceptedAt: new Date().toISOString(),
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : ''
+  };
+}
+
+/**
+ * Build Stripe mandate_data from an acceptance
+ * The browser can't see its public IP, so the backend fills in online.ip_address
+ * from the request before confirming the PaymentIntent / SetupIntent
+ */
+export function toStripeMandateData(acceptance: MandateAcceptance): StripeMandateData {
+  return {
+    customer_acceptance: {
+      type: 'online',
+      accepted_at: Math.floor(new Date(acceptance.acceptedAt).getTime() / 1000),
+      online: {
+        user_agent: acceptance.userAgent
+      }
+    }
+  };
+}
@@ -0,0 +1,50 @@
+import { createHmac } from 'crypto';
+import { createRazorpaySignature, verifyRazorpaySignature } from './razorpay';
+
+const KEY_SECRET = 'test_key_secret';
+const ORDER_ID = 'order_9A33XWu170gUtm';
+const PAYMENT_ID = 'pay_29QQoUBi66xm2f';
+
+const expectedSignature = createHmac('sha256', KEY_SECRET)
+  .update(`${ORDER_ID}|${PAYMENT_ID}`)
+  .digest('hex');
+
+describe('Razorpay signature verification', () => {
+  it('signs with the runtime crypto implementation', async () => {
+    await expect(createRazorpaySignature(ORDER_ID, PAYMENT_ID, KEY_SECRET)).resolves.toBe(expectedSignature);
+  });
+
+  describe('without globalThis.crypto (Node.js 18)', () => {
+    const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+
+    beforeEach(() => {
+      Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true, writable: true });
+    });
+
+    afterEach(() => {
+      if (descriptor) {
+        Object.defineProperty(globalThis, 'crypto', descriptor);
+      } else {
+        delete (globalThis as { crypto?: unknown }).crypto;
+      }
+    });
+
+    it('falls back to the crypto module', async () => {
+      expect(globalThis.crypto).toBeUndefined();
+      await expect(createRazorpaySignature(ORDER_ID, PAYMENT_ID, KEY_SECRET)).resolves.toBe(expectedSignature);
+    });
+
+    it('verifies a valid signature and rejects a tampered one', async () => {
+      const payment = {
+        razorpay_order_id: ORDER_ID,
+        razorpay_payment_id: PAYMENT_ID,
+        razorpay_signature: expectedSignature
+      };
+
+      await expect(verifyRazorpaySignature(payment, KEY_SECRET)).resolves.toBe(true);
+      await expect(
+        verifyRazorpaySignature({ ...payment, razorpay_payment_id: 'pay_tampered' }, KEY_SECRET)
+      ).resolves.toBe(false);
+    });
+  });
+});
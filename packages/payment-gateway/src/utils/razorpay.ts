@@ -0,0 +1,103 @@
+/**
+ * Razorpay Utilities
+ * Server-side verification of Razorpay Checkout payments
+ */
+
+import { PaymentError, PaymentErrorCode, RazorpayPaymentResponse } from '../types';
+
+/**
+ * Compare two strings in constant time
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return diff === 0;
+}
+
+/**
+ * Compute an HMAC-SHA256 digest as hex
+ * Uses Web Crypto where it is global (browsers, Node.js 19+), else Node's crypto module (Node.js 18)
+ */
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+
+  if (subtle) {
+    const encoder = new TextEncoder();
+    const key = await subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const signature = await subtle.sign('HMAC', key, encoder.encode(message));
+
+    return Array.from(new Uint8Array(signature))
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  let createHmac: typeof import('crypto').createHmac;
+
+  try {
+    ({ createHmac } = await import(/* webpackIgnore: true */ 'crypto'));
+  } catch (error) {
+    throw new PaymentError(
+      PaymentErrorCode.NOT_SUPPORTED,
+      'No HMAC implementation available; Razorpay signature verification needs Node.js or Web Crypto',
+      error
+    );
+  }
+
+  return createHmac('sha256', secret).update(message).digest('hex');
+}
+
+/**
+ * Compute the HMAC-SHA256 signature Razorpay sends for an order payment
+ */
+export async function createRazorpaySignature(
+  orderId: string,
+  paymentId: string,
+  keySecret: string
+): Promise<string> {
+  return hmacSha256Hex(keySecret, `${orderId}|${paymentId}`);
+}
+
+/**
+ * Verify the razorpay_signature returned by Razorpay Checkout
+ * Run this on the server only: it needs the Razorpay key secret
+ *
+ * @example
+ * const isValid = await verifyRazorpaySignature(req.body, process.env.RAZORPAY_KEY_SECRET);
+ */
+export async function verifyRazorpaySignature(
+  payment: RazorpayPaymentResponse,
+  keySecret: string
+): Promise<boolean> {
+  if (!payment.razorpay_order_id || !payment.razorpay_payment_id || !payment.razorpay_signature) {
+    return false;
+  }
+
+  if (!keySecret) {
+    throw new PaymentError(
+      PaymentErrorCode.CONFIG_MISSING,
+      'Razorpay key secret is required to verify the signature'
+    );
+  }
+
+  const expected = await createRazorpaySignature(
+    payment.razorpay_order_id,
+    payment.razorpay_payment_id,
+    keySecret
+  );
+
+  return timingSafeEqual(expected, payment.razorpay_signature.toLowerCase());
+}
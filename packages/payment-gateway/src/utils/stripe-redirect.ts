@@ -0,0 +1,318 @@
+/**
+ * Stripe Bank-Redirect Payment Methods
+ * Handles iDEAL, Bancontact, EPS and Przelewy24 PaymentIntent redirect flows
+ */
+
+import {
+  RedirectPaymentIntentResponse,
+  RedirectPaymentMethodType,
+  RedirectPaymentRequest,
+  RedirectPaymentResult,
+  RedirectPaymentStatus,
+  EnvironmentAdapter,
+  PaymentError,
+  PaymentErrorCode
+} from '../types';
+import { logger } from './logger';
+
+export interface RedirectPaymentMethodInfo {
+  name: string;
+  /** Supported presentment currencies */
+  currencies: string[];
+  /** Countries whose customers can pay with the method */
+  countries: string[];
+}
+
+/**
+ * Supported bank-redirect methods with their currency and country restrictions
+ */
+export const REDIRECT_PAYMENT_METHODS: Record<RedirectPaymentMethodType, RedirectPaymentMethodInfo> = {
+  ideal: { name: 'iDEAL', currencies: ['EUR'], countries: ['NL'] },
+  bancontact: { name: 'Bancontact', currencies: ['EUR'], countries: ['BE'] },
+  eps: { name: 'EPS', currencies: ['EUR'], countries: ['AT'] },
+  p24: { name: 'Przelewy24', currencies: ['EUR', 'PLN'], countries: ['PL'] }
+};
+
+/**
+ * Get the redirect methods available for a currency and customer country
+ */
+export function getAvailableRedirectMethods(
+  currency: string,
+  country: string
+): RedirectPaymentMethodType[] {
+  const upperCurrency = currency.toUpperCase();
+  const upperCountry = country.toUpperCase();
+
+  return (Object.keys(REDIRECT_PAYMENT_METHODS) as RedirectPaymentMethodType[]).filter((type) => {
+    const method = REDIRECT_PAYMENT_METHODS[type];
+    return method.currencies.includes(upperCurrency) && method.countries.includes(upperCountry);
+  });
+}
+
+/**
+ * Validate a redirect payment request
+ */
+export function validateRedirectPaymentRequest(request: RedirectPaymentRequest): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const method = REDIRECT_PAYMENT_METHODS[request.paymentMethodType];
+
+  if (!method) {
+    errors.push(`Unsupported redirect payment method: ${request.paymentMethodType}`);
+  } else if (!method.currencies.includes(request.currency?.toUpperCase())) {
+    errors.push(`${method.name} does not support ${request.currency}`);
+  }
+
+  if (!request.amount || request.amount <= 0) {
+    errors.push('Amount must be greater than 0');
+  }
+
+  try {
+    new URL(request.returnUrl);
+  } catch {
+    errors.push('Invalid return URL');
+  }
+
+  if (!request.billingDetails?.name?.trim()) {
+    errors.push('Billing name is required');
+  }
+
+  if (!request.billingDetails?.country) {
+    errors.push('Billing country is required');
+  }
+
+  if (request.paymentMethodType === 'p24' && !request.billingDetails?.email) {
+    errors.push('Billing email is required for Przelewy24');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Create and confirm a redirect PaymentIntent
+ * Calls backend API, which confirms with payment_method_data and return_url
+ * and returns next_action.redirect_to_url.url
+ */
+export async function createRedirectPaymentIntent(
+  request: RedirectPaymentRequest,
+  adapter: EnvironmentAdapter
+): Promise<RedirectPaymentIntentResponse> {
+  const apiBaseUrl = adapter.getConfig('apiBaseUrl');
+
+  if (!apiBaseUrl) {
+    throw new PaymentError(
+      PaymentErrorCode.CONFIG_MISSING,
+      'apiBaseUrl is required for redirect payments'
+    );
+  }
+
+  try {
+    logger.info('Creating redirect PaymentIntent...', {
+      paymentMethodType: request.paymentMethodType,
+      amount: request.amount,
+      currency: request.currency
+    }, 'Stripe');
+
+    const response = await adapter.fetch(
+      `${apiBaseUrl}/api/payments/stripe/create-payment-intent`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          paymentMethodType: request.paymentMethodType,
+          amount: request.amount,
+          currency: request.currency,
+          returnUrl: request.returnUrl,
+          billingDetails: request.billingDetails,
+          metadata: request.metadata
+        })
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        errorData.message || `Failed to create PaymentIntent: ${response.status}`,
+        errorData
+      );
+    }
+
+    const data = await response.json();
+
+    if (!data.paymentIntentId || !data.redirectUrl) {
+      throw new PaymentError(
+        PaymentErrorCode.TOKENIZATION_FAILED,
+        'Invalid response: paymentIntentId or redirectUrl missing'
+      );
+    }
+
+    logger.info('Redirect PaymentIntent created', {
+      paymentIntentId: data.paymentIntentId
+    }, 'Stripe');
+
+    return {
+      paymentIntentId: data.paymentIntentId,
+      redirectUrl: data.redirectUrl
+    };
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      throw error;
+    }
+
+    logger.error('Failed to create redirect PaymentIntent', error, 'Stripe');
+    throw new PaymentError(
+      PaymentErrorCode.NETWORK_ERROR,
+      'Failed to create redirect PaymentIntent',
+      error
+    );
+  }
+}
+
+/**
+ * Redirect to the customer's bank
+ */
+export function redirectToBank(url: string): void {
+  if (typeof window === 'undefined') {
+    throw new PaymentError(
+      PaymentErrorCode.NOT_SUPPORTED,
+      'Bank redirect is only available in browser environment'
+    );
+  }
+
+  logger.info('Redirecting to bank...', { url: url.substring(0, 50) + '...' }, 'Stripe');
+  window.location.href = url;
+}
+
+/**
+ * Map a redirect_status or PaymentIntent status to a result status
+ */
+function toRedirectPaymentStatus(status: string): RedirectPaymentStatus {
+  switch (status) {
+    case 'succeeded':
+    case 'requires_capture':
+      return 'succeeded';
+    case 'processing':
+      return 'processing';
+    default:
+      return 'failed';
+  }
+}
+
+/**
+ * Extract the redirect result from the return URL
+ * Stripe appends payment_intent, payment_intent_client_secret and redirect_status
+ */
+export function extractRedirectResultFromUrl(url?: string): RedirectPaymentResult | null {
+  const targetUrl = url || (typeof window !== 'undefined' ? window.location.href : '');
+
+  if (!targetUrl) {
+    return null;
+  }
+
+  try {
+    const urlObj = new URL(targetUrl);
+    const paymentIntentId = urlObj.searchParams.get('payment_intent');
+    const redirectStatus = urlObj.searchParams.get('redirect_status');
+
+    if (!paymentIntentId || !redirectStatus) {
+      return null;
+    }
+
+    logger.info('Redirect result extracted from URL', {
+      paymentIntentId,
+      redirectStatus
+    }, 'Stripe');
+
+    return {
+      paymentIntentId,
+      status: toRedirectPaymentStatus(redirectStatus),
+      verified: false
+    };
+  } catch (error) {
+    logger.error('Failed to extract redirect result from URL', error, 'Stripe');
+    return null;
+  }
+}
+
+/**
+ * Get the raw PaymentIntent status from the backend
+ */
+export async function retrievePaymentIntentStatus(
+  paymentIntentId: string,
+  adapter: EnvironmentAdapter
+): Promise<string> {
+  const apiBaseUrl = adapter.getConfig('apiBaseUrl');
+
+  if (!apiBaseUrl) {
+    throw new PaymentError(
+      PaymentErrorCode.CONFIG_MISSING,
+      'apiBaseUrl is required'
+    );
+  }
+
+  // The ID usually comes from the return URL, which the customer can edit
+  if (!paymentIntentId.startsWith('pi_')) {
+    throw new PaymentError(
+      PaymentErrorCode.VALIDATION_ERROR,
+      'Invalid PaymentIntent ID - must start with pi_'
+    );
+  }
+
+  try {
+    const response = await adapter.fetch(
+      `${apiBaseUrl}/api/payments/stripe/payment-intent/${encodeURIComponent(paymentIntentId)}`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+
+    if (!response.ok) {
+      throw new PaymentError(
+        PaymentErrorCode.NETWORK_ERROR,
+        `Failed to retrieve PaymentIntent: ${response.status}`
+      );
+    }
+
+    const data = await response.json();
+    return data.status;
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      throw error;
+    }
+
+    logger.error('Failed to retrieve PaymentIntent', error, 'Stripe');
+    throw new PaymentError(
+      PaymentErrorCode.NETWORK_ERROR,
+      'Failed to retrieve PaymentIntent status',
+      error
+    );
+  }
+}
+
+/**
+ * Confirm the PaymentIntent status with the backend
+ * redirect_status in the URL can be altered by the customer, so this is the source of truth
+ */
+export async function retrieveRedirectPaymentStatus(
+  paymentIntentId: string,
+  adapter: EnvironmentAdapter
+): Promise<RedirectPaymentResult> {
+  const status = await retrievePaymentIntentStatus(paymentIntentId, adapter);
+
+  return {
+    paymentIntentId,
+    status: toRedirectPaymentStatus(status),
+    verified: true
+  };
+}
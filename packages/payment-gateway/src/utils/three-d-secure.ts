@@ -3,7 +3,20 @@
  * Handles Strong Customer Authentication for payments
  */
 
-import { EnvironmentAdapter } from '../types';
+import {
+  AdyenAction,
+  AdyenPaymentResponse,
+  BraintreeThreeDSecureInstance,
+  BraintreeThreeDSecureVerifyOptions,
+  CheckoutComPaymentResponse,
+  EnvironmentAdapter,
+  GatewayName,
+  PaymentMethodTokenResult,
+  StripeInstance
+} from '../types';
+import { BillingAddress } from './address-validation';
+import type { ThreeDSChallengePresenter } from './three-ds-challenge';
+import type { AdyenGateway } from '../gateways/adyen';
 
 export enum ThreeDSStatus {
   NOT_REQUIRED = 'not_required',
@@ -13,17 +26,63 @@ export enum ThreeDSStatus {
   PENDING = 'pending'
 }
 
+/**
+ * EMV 3DS challenge window size: 01 = 250x400, 02 = 390x400, 03 = 500x600, 04 = 600x400, 05 = full screen
+ */
+export type ChallengeWindowSize = '01' | '02' | '03' | '04' | '05';
+
 export interface ThreeDSResult {
   status: ThreeDSStatus;
   requiresAction: boolean;
   clientSecret?: string;
   redirectUrl?: string;
+  /** Braintree: verified nonce to send to the backend instead of the original one */
+  nonce?: string;
+  /** Adyen: PSP reference of the payment */
+  pspReference?: string;
   error?: string;
 }
 
 export interface ThreeDSOptions {
   returnUrl?: string;
-  challengeWindowSize?: '01' | '02' | '03' | '04' | '05';
+  challengeWindowSize?: ChallengeWindowSize;
+  /** Card BIN (first six digits) for the 3DS lookup */
+  bin?: string;
+  email?: string;
+  billingAddress?: BillingAddress;
+  /** Called when the issuer asks the customer to complete a challenge */
+  onChallenge?: () => void;
+  /** Show challenge URLs in-page instead of returning them as redirectUrl */
+  challengePresenter?: ThreeDSChallengePresenter;
+  /** Adyen: element (or CSS selector) the threeDS2 / await action is mounted into */
+  container?: string | HTMLElement;
+}
+
+/**
+ * A payment that may need 3D Secure, as passed to PaymentGatewayManager.authenticate()
+ * Backend payment results with clientSecret / transactionId can be passed as they are
+ */
+export interface ThreeDSAuthenticationRequest {
+  /** Gateway that created the payment; defaults to the detected gateway */
+  gatewayName?: GatewayName;
+  /** Stripe: PaymentIntent client secret returned with requires_action */
+  clientSecret?: string;
+  /** Braintree: token result whose nonce and BIN are verified */
+  token?: PaymentMethodTokenResult;
+  /** Braintree: nonce to verify when no token result is passed */
+  nonce?: string;
+  /** Braintree: amount in major units */
+  amount?: number;
+  /** Authorize.Net: transaction ID; Checkout.com: payment ID, or cko-session-id after the redirect */
+  transactionId?: string;
+  /** Checkout.com: _links.redirect.href of a Pending payment */
+  redirectUrl?: string;
+  /** Adyen: action returned by /payments */
+  action?: AdyenAction;
+  /** Card BIN; read from a Braintree token result when omitted */
+  bin?: string;
+  email?: string;
+  billingAddress?: BillingAddress;
 }
 
 /**
@@ -31,23 +90,31 @@ export interface ThreeDSOptions {
  */
 export async function handleStripe3DS(
   paymentIntentClientSecret: string,
-  stripe: any,
-  _options: ThreeDSOptions = {}
+  stripe: StripeInstance,
+  options: ThreeDSOptions = {}
 ): Promise<ThreeDSResult> {
   try {
+    // Stripe.js presents the challenge itself; a PaymentIntent already in
+    // requires_action is waiting on one, anything else may be frictionless
+    const { paymentIntent: pending } = await stripe.retrievePaymentIntent(paymentIntentClientSecret);
+
+    if (pending?.status === 'requires_action') {
+      options.onChallenge?.();
+    }
+
     // Confirm the payment with 3DS if required
     const { error, paymentIntent } = await stripe.confirmCardPayment(
       paymentIntentClientSecret,
       {
-        return_url: _options.returnUrl
+        return_url: options.returnUrl
       }
     );
 
-    if (error) {
+    if (error || !paymentIntent) {
       return {
         status: ThreeDSStatus.FAILED,
         requiresAction: false,
-        error: error.message
+        error: error?.message || 'Payment failed'
       };
     }
 
@@ -89,30 +156,50 @@ export async function handleStripe3DS(
   }
 }
 
+/**
+ * Map a billing address to the Braintree verifyCard format
+ */
+function toBraintreeBillingAddress(
+  address: BillingAddress
+): BraintreeThreeDSecureVerifyOptions['billingAddress'] {
+  return {
+    givenName: address.firstName,
+    surname: address.lastName,
+    streetAddress: address.address,
+    extendedAddress: address.address2,
+    locality: address.city,
+    region: address.state,
+    postalCode: address.zip,
+    countryCodeAlpha2: address.country
+  };
+}
+
 /**
  * Handle Braintree 3D Secure authentication
+ * Pass the BIN and billing address in options to improve frictionless approval rates
  */
 export async function handleBraintree3DS(
   nonce: string,
   amount: number,
-  braintreeClient: any,
-  _options: ThreeDSOptions = {}
+  threeDSecure: BraintreeThreeDSecureInstance,
+  options: ThreeDSOptions = {}
 ): Promise<ThreeDSResult> {
   try {
-    // Load 3DS module
-    const threeDSecure = await (window as any).braintree.threeDSecure.create({
-      client: braintreeClient,
-      version: 2 // Use 3DS 2.0
-    });
+    const billing = options.billingAddress;
 
     // Verify the card with 3DS
     const result = await threeDSecure.verifyCard({
       nonce,
-      amount: amount.toString(),
-      bin: '', // Card BIN (first 6 digits) - optional
+      amount: amount.toFixed(2),
+      bin: options.bin,
+      email: options.email,
+      billingAddress: billing && toBraintreeBillingAddress(billing),
       challengeRequested: true,
-      onLookupComplete: (_data: any, next: () => void) => {
-        // Called when the lookup completes
+      onLookupComplete: (data, next) => {
+        // Called when the lookup completes, before any challenge is shown
+        if (data.requiresUserAuthentication) {
+          options.onChallenge?.();
+        }
         next();
       }
     });
@@ -121,7 +208,8 @@ export async function handleBraintree3DS(
       // 3DS authentication successful
       return {
         status: ThreeDSStatus.SUCCEEDED,
-        requiresAction: false
+        requiresAction: false,
+        nonce: result.nonce
       };
     }
 
@@ -137,7 +225,8 @@ export async function handleBraintree3DS(
     // 3DS not available for this card
     return {
       status: ThreeDSStatus.NOT_REQUIRED,
-      requiresAction: false
+      requiresAction: false,
+      nonce: result.nonce
     };
   } catch (error) {
     console.error('[3DS] Braintree 3DS error:', error);
@@ -156,7 +245,7 @@ export async function handleBraintree3DS(
 export async function handleAuthorizeNet3DS(
   transactionId: string,
   adapter: EnvironmentAdapter,
-  _options: ThreeDSOptions = {}
+  options: ThreeDSOptions = {}
 ): Promise<ThreeDSResult> {
   try {
     // Check 3DS status from backend
@@ -190,6 +279,7 @@ export async function handleAuthorizeNet3DS(
         };
 
       case 'requires_challenge':
+        options.onChallenge?.();
         return {
           status: ThreeDSStatus.REQUIRES_ACTION,
           requiresAction: true,
@@ -218,6 +308,176 @@ export async function handleAuthorizeNet3DS(
   }
 }
 
+/**
+ * Map an Adyen /payments/details resultCode to a 3DS result
+ */
+export function mapAdyenResultCode(response: AdyenPaymentResponse): ThreeDSResult {
+  const pspReference = response.pspReference;
+
+  switch (response.resultCode) {
+    case 'Authorised':
+      return {
+        status: ThreeDSStatus.SUCCEEDED,
+        requiresAction: false,
+        pspReference
+      };
+
+    case 'Pending':
+    case 'Received':
+      return {
+        status: ThreeDSStatus.PENDING,
+        requiresAction: false,
+        pspReference
+      };
+
+    case 'RedirectShopper':
+      // Adyen Web has already sent the shopper to the issuer
+      return {
+        status: ThreeDSStatus.REQUIRES_ACTION,
+        requiresAction: true,
+        pspReference
+      };
+
+    default:
+      return {
+        status: ThreeDSStatus.FAILED,
+        requiresAction: false,
+        pspReference,
+        error: response.refusalReason || `Payment ${response.resultCode.toLowerCase()}`
+      };
+  }
+}
+
+/**
+ * Handle Adyen 3D Secure 2 and other actions returned by /payments
+ * Native threeDS2 actions run in the given container; redirect actions leave the page
+ */
+export async function handleAdyen3DS(
+  action: AdyenAction,
+  adyen: AdyenGateway,
+  adapter: EnvironmentAdapter,
+  options: ThreeDSOptions = {}
+): Promise<ThreeDSResult> {
+  try {
+    const response = await adyen.handleAction(action, adapter, {
+      container: options.container,
+      challengeWindowSize: options.challengeWindowSize,
+      onChallenge: options.onChallenge
+    });
+
+    return mapAdyenResultCode(response);
+  } catch (error) {
+    console.error('[3DS] Adyen 3DS error:', error);
+    return {
+      status: ThreeDSStatus.FAILED,
+      requiresAction: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Map a Checkout.com payment to a 3DS result
+ */
+export function mapCheckoutComPayment(payment: CheckoutComPaymentResponse): ThreeDSResult {
+  if (payment.status === 'Pending' && payment._links?.redirect?.href) {
+    return {
+      status: ThreeDSStatus.REQUIRES_ACTION,
+      requiresAction: true,
+      redirectUrl: payment._links.redirect.href
+    };
+  }
+
+  if (payment.approved === false || ['Declined', 'Canceled', 'Expired'].includes(payment.status)) {
+    return {
+      status: ThreeDSStatus.FAILED,
+      requiresAction: false,
+      error: payment.response_summary || '3D Secure authentication failed'
+    };
+  }
+
+  if (payment.status === 'Pending') {
+    return {
+      status: ThreeDSStatus.PENDING,
+      requiresAction: false
+    };
+  }
+
+  return {
+    status: ThreeDSStatus.SUCCEEDED,
+    requiresAction: false
+  };
+}
+
+/**
+ * Handle Checkout.com 3DS
+ * Checkout.com runs 3DS on its own page: a redirect URL is returned as REQUIRES_ACTION,
+ * and once the customer is back the payment (or cko-session-id) is checked with the backend
+ */
+export async function handleCheckoutCom3DS(
+  payment: { paymentId?: string; redirectUrl?: string },
+  adapter: EnvironmentAdapter,
+  options: ThreeDSOptions = {}
+): Promise<ThreeDSResult> {
+  if (payment.redirectUrl) {
+    options.onChallenge?.();
+    return {
+      status: ThreeDSStatus.REQUIRES_ACTION,
+      requiresAction: true,
+      redirectUrl: payment.redirectUrl
+    };
+  }
+
+  try {
+    const apiBaseUrl = adapter.getConfig('apiBaseUrl') || '';
+    const response = await adapter.fetch(
+      `${apiBaseUrl}/api/payments/checkoutcom/payments/${encodeURIComponent(payment.paymentId || '')}`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        status: ThreeDSStatus.FAILED,
+        requiresAction: false,
+        error: data.error || '3DS verification failed'
+      };
+    }
+
+    return mapCheckoutComPayment(data);
+  } catch (error) {
+    console.error('[3DS] Checkout.com 3DS error:', error);
+    return {
+      status: ThreeDSStatus.FAILED,
+      requiresAction: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Extract the cko-session-id Checkout.com appends to the success / failure URL after 3DS
+ */
+export function extractCheckoutComSessionId(url?: string): string | null {
+  const targetUrl = url || (typeof window !== 'undefined' ? window.location.href : '');
+
+  if (!targetUrl) {
+    return null;
+  }
+
+  try {
+    return new URL(targetUrl).searchParams.get('cko-session-id');
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Check if 3DS is required for the transaction
  */
@@ -247,7 +507,7 @@ export function is3DSRequired(amount: number, country: string): boolean {
 /**
  * Get challenge window size based on device
  */
-export function getChallengeWindowSize(): '01' | '02' | '03' | '04' | '05' {
+export function getChallengeWindowSize(): ChallengeWindowSize {
   if (typeof window === 'undefined') {
     return '02'; // Default to 390x400
   }
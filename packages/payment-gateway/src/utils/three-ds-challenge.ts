@@ -0,0 +1,467 @@
+/**
+ * 3D Secure Challenge Presenter
+ * Shows the issuer's ACS challenge page in an accessible overlay iframe and
+ * resolves when the merchant's notification page reports the outcome
+ */
+
+import { PaymentError, PaymentErrorCode } from '../types';
+import { logger } from './logger';
+import { ChallengeWindowSize, getChallengeWindowSize, ThreeDSResult, ThreeDSStatus } from './three-d-secure';
+
+/**
+ * EMV 3DS challenge window sizes; 05 is full screen
+ */
+export const CHALLENGE_WINDOW_DIMENSIONS: Record<ChallengeWindowSize, { width: string; height: string }> = {
+  '01': { width: '250px', height: '400px' },
+  '02': { width: '390px', height: '400px' },
+  '03': { width: '500px', height: '600px' },
+  '04': { width: '600px', height: '400px' },
+  '05': { width: '100%', height: '100%' }
+};
+
+const IFRAME_NAME = 'three-ds-challenge';
+const OVERLAY_ID = 'three-ds-challenge-overlay';
+
+export interface ThreeDSChallengeRequest {
+  /** ACS URL, or the gateway's challenge page URL */
+  url: string;
+  /** Base64url CReq posted to the ACS; without it the URL is loaded directly */
+  creq?: string;
+  /** threeDSSessionData echoed back to the notification page */
+  sessionData?: string;
+  /** Defaults to getChallengeWindowSize() */
+  challengeWindowSize?: ChallengeWindowSize;
+}
+
+/**
+ * Message the notification page (the 3DS termUrl on the merchant's origin) posts to the parent window, e.g.
+ * window.parent.postMessage({ type: 'threeDSChallengeComplete', transStatus: 'Y' }, origin)
+ */
+export interface ThreeDSChallengeCompleteMessage {
+  type: 'threeDSChallengeComplete';
+  /** EMV 3DS transStatus from the CRes */
+  transStatus?: string;
+  error?: string;
+}
+
+/**
+ * Elements the presenter renders; render hooks can restyle or rearrange them
+ */
+export interface ThreeDSChallengeView {
+  /** Element focus is trapped in: the overlay, or options.container */
+  root: HTMLElement;
+  /** Overlay backdrop; null when rendering into options.container */
+  overlay: HTMLElement | null;
+  dialog: HTMLElement;
+  iframe: HTMLIFrameElement;
+  cancelButton: HTMLButtonElement | null;
+  /** Cancel the challenge from custom controls */
+  cancel: () => void;
+}
+
+export interface ThreeDSChallengeOptions {
+  /**
+   * Element (or CSS selector) to render into instead of the built-in overlay,
+   * e.g. the body of an Angular Material or React modal
+   */
+  container?: string | HTMLElement;
+  /** Class names added to the rendered elements */
+  classNames?: Partial<Record<'overlay' | 'dialog' | 'iframe' | 'cancelButton', string>>;
+  /** Skip the inline styles so the elements can be styled from CSS */
+  unstyled?: boolean;
+  /** Label of the dialog and iframe (default: "Card verification") */
+  title?: string;
+  /** Text of the cancel button; pass null to hide it (default: "Cancel") */
+  cancelLabel?: string | null;
+  /** Close on Escape (default: true) */
+  closeOnEscape?: boolean;
+  /** Origin the notification page posts from (default: window.location.origin) */
+  messageOrigin?: string;
+  /** Give up after this many ms and resolve as failed */
+  timeoutMs?: number;
+  /** Called once the elements are in the page, before the challenge loads; may return a cleanup function */
+  render?: (view: ThreeDSChallengeView) => void | (() => void);
+  /** Map a custom completion message; return null to ignore it */
+  parseMessage?: (data: unknown) => ThreeDSResult | null;
+}
+
+/**
+ * Parse a completion message posted by the notification page
+ * Accepts the message object or its JSON string
+ */
+export function parseThreeDSChallengeMessage(data: unknown): ThreeDSChallengeCompleteMessage | null {
+  let message = data;
+
+  if (typeof message === 'string') {
+    try {
+      message = JSON.parse(message);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!message || typeof message !== 'object' || (message as { type?: unknown }).type !== 'threeDSChallengeComplete') {
+    return null;
+  }
+
+  return message as ThreeDSChallengeCompleteMessage;
+}
+
+/**
+ * Map an EMV 3DS transStatus to a 3DS result
+ * Y = authenticated, A = attempted (liability shifted), N / R / U = not authenticated
+ */
+export function mapChallengeTransStatus(transStatus?: string, error?: string): ThreeDSResult {
+  switch (transStatus?.toUpperCase()) {
+    case 'Y':
+    case 'A':
+      return { status: ThreeDSStatus.SUCCEEDED, requiresAction: false };
+    case 'C':
+      return { status: ThreeDSStatus.REQUIRES_ACTION, requiresAction: true };
+    default:
+      return {
+        status: ThreeDSStatus.FAILED,
+        requiresAction: false,
+        error: error || '3D Secure authentication failed'
+      };
+  }
+}
+
+/**
+ * Elements that can receive keyboard focus inside the challenge
+ */
+function getFocusableElements(root: HTMLElement): HTMLElement[] {
+  return Array.from(
+    root.querySelectorAll<HTMLElement>('iframe, button:not([disabled]), [href], input, select, textarea, [tabindex]:not([tabindex="-1"])')
+  );
+}
+
+/**
+ * Presents 3DS2 challenges one at a time
+ *
+ * Create one per page (or per Angular service / React provider) with the
+ * theming options, then call present() for each challenge.
+ */
+export class ThreeDSChallengePresenter {
+  private activeCancel: (() => void) | null = null;
+
+  constructor(private options: ThreeDSChallengeOptions = {}) {}
+
+  /**
+   * Check if a challenge is currently shown
+   */
+  isOpen(): boolean {
+    return this.activeCancel !== null;
+  }
+
+  /**
+   * Cancel the open challenge; present() resolves as failed
+   */
+  cancel(): void {
+    this.activeCancel?.();
+  }
+
+  /**
+   * Show the challenge and resolve with its outcome
+   * Canceling or timing out resolves with status FAILED rather than rejecting
+   */
+  present(request: ThreeDSChallengeRequest): Promise<ThreeDSResult> {
+    if (typeof window === 'undefined') {
+      return Promise.reject(
+        new PaymentError(
+          PaymentErrorCode.NOT_SUPPORTED,
+          '3D Secure challenges are only available in browser environment'
+        )
+      );
+    }
+
+    if (this.activeCancel) {
+      return Promise.reject(
+        new PaymentError(
+          PaymentErrorCode.INVALID_STATE,
+          'A 3D Secure challenge is already open'
+        )
+      );
+    }
+
+    const options = this.options;
+
+    return new Promise((resolve, reject) => {
+      let view: ThreeDSChallengeView;
+
+      try {
+        view = this.createView(request.challengeWindowSize || getChallengeWindowSize());
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      const { root, overlay, iframe } = view;
+      const previousFocus = document.activeElement as HTMLElement | null;
+      const expectedOrigin = options.messageOrigin || window.location.origin;
+      let form: HTMLFormElement | null = null;
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      let renderCleanup: void | (() => void);
+
+      const finish = (result: ThreeDSResult) => {
+        window.removeEventListener('message', onMessage);
+        document.removeEventListener('keydown', onKeyDown, true);
+        document.removeEventListener('focusin', onFocusIn, true);
+        clearTimeout(timeout);
+        form?.remove();
+
+        try {
+          renderCleanup?.();
+        } catch (error) {
+          logger.error('3DS challenge render cleanup failed', error);
+        }
+
+        if (overlay) {
+          overlay.remove();
+        } else {
+          view.dialog.remove();
+        }
+
+        previousFocus?.focus?.();
+        this.activeCancel = null;
+
+        logger.info('3DS challenge closed', { status: result.status });
+        resolve(result);
+      };
+
+      const cancel = () => finish({
+        status: ThreeDSStatus.FAILED,
+        requiresAction: false,
+        error: '3D Secure challenge canceled'
+      });
+
+      view.cancel = cancel;
+      this.activeCancel = cancel;
+
+      const onMessage = (event: MessageEvent) => {
+        // The notification page is served from the merchant's own origin
+        if (event.origin !== expectedOrigin) {
+          return;
+        }
+
+        let result: ThreeDSResult | null;
+
+        if (options.parseMessage) {
+          result = options.parseMessage(event.data);
+        } else {
+          const message = parseThreeDSChallengeMessage(event.data);
+          result = message && mapChallengeTransStatus(message.transStatus, message.error);
+        }
+
+        if (result) {
+          logger.debug('3DS challenge completion message received', { status: result.status });
+          finish(result);
+        }
+      };
+
+      const onKeyDown = (event: KeyboardEvent) => {
+        if (event.key === 'Escape' && options.closeOnEscape !== false) {
+          event.preventDefault();
+          cancel();
+          return;
+        }
+
+        if (event.key !== 'Tab') {
+          return;
+        }
+
+        // Keep Tab / Shift+Tab cycling inside the challenge
+        const focusable = getFocusableElements(root);
+
+        if (focusable.length === 0) {
+          event.preventDefault();
+          return;
+        }
+
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+
+        if (event.shiftKey && document.activeElement === first) {
+          event.preventDefault();
+          last.focus();
+        } else if (!event.shiftKey && document.activeElement === last) {
+          event.preventDefault();
+          first.focus();
+        }
+      };
+
+      const onFocusIn = (event: FocusEvent) => {
+        if (!root.contains(event.target as Node)) {
+          (getFocusableElements(root)[0] || root).focus();
+        }
+      };
+
+      try {
+        renderCleanup = options.render?.(view);
+      } catch (error) {
+        this.activeCancel = null;
+        overlay?.remove();
+        view.dialog.remove();
+        reject(error);
+        return;
+      }
+
+      window.addEventListener('message', onMessage);
+      document.addEventListener('keydown', onKeyDown, true);
+      document.addEventListener('focusin', onFocusIn, true);
+
+      if (options.timeoutMs) {
+        timeout = setTimeout(() => finish({
+          status: ThreeDSStatus.FAILED,
+          requiresAction: false,
+          error: '3D Secure challenge timed out'
+        }), options.timeoutMs);
+      }
+
+      logger.info('Presenting 3DS challenge...', { url: request.url.substring(0, 50) + '...' });
+
+      if (request.creq) {
+        // 3DS2 browser flow: POST the CReq to the ACS inside the iframe
+        form = document.createElement('form');
+        form.method = 'POST';
+        form.action = request.url;
+        form.target = IFRAME_NAME;
+        form.style.display = 'none';
+
+        const fields: Record<string, string | undefined> = {
+          creq: request.creq,
+          threeDSSessionData: request.sessionData
+        };
+
+        for (const [name, value] of Object.entries(fields)) {
+          if (value !== undefined) {
+            const input = document.createElement('input');
+            input.type = 'hidden';
+            input.name = name;
+            input.value = value;
+            form.appendChild(input);
+          }
+        }
+
+        root.appendChild(form);
+        form.submit();
+      } else {
+        iframe.src = request.url;
+      }
+
+      iframe.focus();
+    });
+  }
+
+  /**
+   * Build the overlay (or use options.container), dialog, iframe and cancel button
+   */
+  private createView(windowSize: ChallengeWindowSize): ThreeDSChallengeView {
+    const { classNames = {}, unstyled, title = 'Card verification' } = this.options;
+    const cancelLabel = this.options.cancelLabel === undefined ? 'Cancel' : this.options.cancelLabel;
+    const dimensions = CHALLENGE_WINDOW_DIMENSIONS[windowSize];
+
+    let container: HTMLElement | null = null;
+
+    if (this.options.container) {
+      container = typeof this.options.container === 'string'
+        ? document.querySelector<HTMLElement>(this.options.container)
+        : this.options.container;
+
+      if (!container) {
+        throw new PaymentError(
+          PaymentErrorCode.VALIDATION_ERROR,
+          'A valid container is required to present the 3D Secure challenge'
+        );
+      }
+    }
+
+    const overlay = container ? null : document.createElement('div');
+    const dialog = document.createElement('div');
+    const iframe = document.createElement('iframe');
+    const cancelButton = cancelLabel === null ? null : document.createElement('button');
+
+    if (overlay) {
+      overlay.id = OVERLAY_ID;
+      overlay.className = classNames.overlay || '';
+
+      if (!unstyled) {
+        Object.assign(overlay.style, {
+          position: 'fixed',
+          inset: '0',
+          background: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: '2147483000'
+        });
+      }
+    }
+
+    dialog.className = classNames.dialog || '';
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-modal', 'true');
+    dialog.setAttribute('aria-label', title);
+    dialog.tabIndex = -1;
+
+    if (!unstyled) {
+      Object.assign(dialog.style, {
+        background: '#fff',
+        borderRadius: windowSize === '05' ? '0' : '8px',
+        display: 'flex',
+        flexDirection: 'column',
+        width: windowSize === '05' ? '100%' : 'auto',
+        height: windowSize === '05' ? '100%' : 'auto',
+        maxWidth: '100%',
+        maxHeight: '100%',
+        overflow: 'auto'
+      });
+    }
+
+    iframe.name = IFRAME_NAME;
+    iframe.title = title;
+    iframe.className = classNames.iframe || '';
+    iframe.style.border = '0';
+    iframe.style.width = dimensions.width;
+    iframe.style.height = dimensions.height;
+    if (windowSize === '05') {
+      iframe.style.flex = '1';
+    }
+    dialog.appendChild(iframe);
+
+    if (cancelButton) {
+      cancelButton.type = 'button';
+      cancelButton.textContent = cancelLabel;
+      cancelButton.className = classNames.cancelButton || '';
+
+      if (!unstyled) {
+        Object.assign(cancelButton.style, {
+          margin: '8px',
+          alignSelf: 'center'
+        });
+      }
+
+      dialog.appendChild(cancelButton);
+    }
+
+    const view: ThreeDSChallengeView = {
+      root: overlay || container!,
+      overlay,
+      dialog,
+      iframe,
+      cancelButton,
+      cancel: () => undefined
+    };
+
+    cancelButton?.addEventListener('click', () => view.cancel());
+
+    if (overlay) {
+      overlay.appendChild(dialog);
+      document.body.appendChild(overlay);
+    } else {
+      container!.appendChild(dialog);
+    }
+
+    return view;
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * Saved Payment Methods (Vault)
+ * Lists, manages and charges payment methods stored in the gateway vault through the backend
+ */
+
+import {
+  AuthorizeNetOpaqueData,
+  EnvironmentAdapter,
+  FutureUseConsent,
+  FutureUseSetupRequest,
+  FutureUseSetupResult,
+  GatewayName,
+  PaymentError,
+  PaymentErrorCode,
+  SavedMethodPaymentRequest,
+  SavedMethodPaymentResult,
+  SavedMethodPaymentStatus,
+  SavedPaymentMethod,
+  SavedPaymentMethodType
+} from '../types';
+import { CardBrand, maskCardNumber, validateExpiryDate } from './card-validation';
+import { getCardIcon } from './card-icons';
+import { toSmallestUnit } from './currency';
+import { logger } from './logger';
+
+/**
+ * Saved payment method as returned by the backend
+ * The backend flattens the Stripe PaymentMethod, Braintree payment method
+ * or Authorize.Net payment profile into this shape
+ */
+export interface SavedPaymentMethodResponse {
+  id: string;
+  gateway: GatewayName;
+  type?: SavedPaymentMethodType;
+  /** Gateway brand string, e.g. "visa", "MasterCard", "AmericanExpress" */
+  brand?: string;
+  last4?: string;
+  expMonth?: string | number;
+  expYear?: string | number;
+  fingerprint?: string;
+  email?: string;
+  isDefault?: boolean;
+}
+
+/**
+ * Brand names used by Stripe, Braintree and Authorize.Net, lowercased without spaces
+ */
+const CARD_BRAND_ALIASES: Record<string, CardBrand> = {
+  visa: 'visa',
+  mastercard: 'mastercard',
+  amex: 'amex',
+  americanexpress: 'amex',
+  discover: 'discover',
+  diners: 'diners',
+  dinersclub: 'diners',
+  jcb: 'jcb'
+};
+
+/**
+ * Map a gateway card brand string to a CardBrand
+ */
+export function normalizeCardBrand(brand?: string): CardBrand {
+  if (!brand) {
+    return 'unknown';
+  }
+
+  return CARD_BRAND_ALIASES[brand.toLowerCase().replace(/[^a-z]/g, '')] || 'unknown';
+}
+
+/**
+ * Normalize a backend saved payment method for display
+ */
+export function toSavedPaymentMethod(response: SavedPaymentMethodResponse): SavedPaymentMethod {
+  const type = response.type || 'card';
+  const brand = type === 'card' ? normalizeCardBrand(response.brand) : 'unknown';
+  const last4 = response.last4?.replace(/\D/g, '').slice(-4) || undefined;
+  const expiryMonth = response.expMonth !== undefined
+    ? String(response.expMonth).padStart(2, '0')
+    : undefined;
+  const expiryYear = response.expYear !== undefined
+    ? String(response.expYear).length === 2 ? `20${response.expYear}` : String(response.expYear)
+    : undefined;
+
+  return {
+    id: response.id,
+    gatewayName: response.gateway,
+    type,
+    brand,
+    last4,
+    expiryMonth,
+    expiryYear,
+    fingerprint: response.fingerprint,
+    email: response.email,
+    isDefault: !!response.isDefault,
+    isExpired: !!(expiryMonth && expiryYear) && !validateExpiryDate(expiryMonth, expiryYear),
+    maskedNumber: maskCardNumber(last4 || ''),
+    icon: getCardIcon(brand)
+  };
+}
+
+/**
+ * Send a request to the backend vault API
+ */
+async function vaultRequest(
+  path: string,
+  init: RequestInit,
+  adapter: EnvironmentAdapter,
+  action: string
+): Promise<any> {
+  const apiBaseUrl = adapter.getConfig('apiBaseUrl');
+
+  if (!apiBaseUrl) {
+    throw new PaymentError(
+      PaymentErrorCode.CONFIG_MISSING,
+      `apiBaseUrl is required to ${action}`
+    );
+  }
+
+  try {
+    const response = await adapter.fetch(`${apiBaseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new PaymentError(
+        PaymentErrorCode.NETWORK_ERROR,
+        data.message || data.error || `Failed to ${action}: ${response.status}`,
+        { status: response.status }
+      );
+    }
+
+    return data;
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      throw error;
+    }
+
+    logger.error(`Failed to ${action}`, error);
+    throw new PaymentError(
+      PaymentErrorCode.NETWORK_ERROR,
+      `Failed to ${action}`,
+      error
+    );
+  }
+}
+
+/**
+ * Fetch a customer's saved payment methods
+ * Calls GET /api/customers/:customerId/payment-methods
+ */
+export async function fetchSavedPaymentMethods(
+  customerId: string,
+  adapter: EnvironmentAdapter
+): Promise<SavedPaymentMethod[]> {
+  const data = await vaultRequest(
+    `/api/customers/${encodeURIComponent(customerId)}/payment-methods`,
+    { method: 'GET' },
+    adapter,
+    'list saved payment methods'
+  );
+
+  const paymentMethods: SavedPaymentMethodResponse[] = data.paymentMethods || [];
+  return paymentMethods.map(toSavedPaymentMethod);
+}
+
+/**
+ * Remove a saved payment method from the vault
+ * Calls DELETE /api/customers/:customerId/payment-methods/:paymentMethodId
+ */
+export async function removeSavedPaymentMethod(
+  customerId: string,
+  paymentMethodId: string,
+  adapter: EnvironmentAdapter
+): Promise<void> {
+  await vaultRequest(
+    `/api/customers/${encodeURIComponent(customerId)}/payment-methods/${encodeURIComponent(paymentMethodId)}`,
+    { method: 'DELETE' },
+    adapter,
+    'delete saved payment method'
+  );
+}
+
+/**
+ * Make a saved payment method the customer's default
+ * Calls POST /api/customers/:customerId/payment-methods/:paymentMethodId/default
+ */
+export async function updateDefaultPaymentMethod(
+  customerId: string,
+  paymentMethodId: string,
+  adapter: EnvironmentAdapter
+): Promise<void> {
+  await vaultRequest(
+    `/api/customers/${encodeURIComponent(customerId)}/payment-methods/${encodeURIComponent(paymentMethodId)}/default`,
+    { method: 'POST' },
+    adapter,
+    'set default payment method'
+  );
+}
+
+/**
+ * Charge a saved payment method
+ * Calls POST /api/payments/saved-method; the amount is sent in the smallest currency unit
+ */
+export async function chargeSavedPaymentMethod(
+  request: SavedMethodPaymentRequest,
+  adapter: EnvironmentAdapter
+): Promise<SavedMethodPaymentResult> {
+  const data = await vaultRequest(
+    '/api/payments/saved-method',
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        customerId: request.customerId,
+        paymentMethodId: request.paymentMethodId,
+        amount: toSmallestUnit(request.amount, request.currency),
+        currency: request.currency.toLowerCase(),
+        metadata: request.metadata
+      })
+    },
+    adapter,
+    'charge saved payment method'
+  );
+
+  const statuses: SavedMethodPaymentStatus[] = ['succeeded', 'processing', 'requires_action', 'failed'];
+
+  return {
+    status: statuses.includes(data.status) ? data.status : 'failed',
+    gatewayName: data.gateway,
+    transactionId: data.transactionId,
+    clientSecret: data.clientSecret,
+    error: data.error
+  };
+}
+
+/**
+ * Record the customer's consent to store a payment method for later charges
+ * Call this when the customer ticks the "save card" / auto-renew checkbox
+ *
+ * @param accepted - Whether the customer agreed; false throws so consent can't be skipped
+ */
+export function captureFutureUseConsent(
+  consentText: string,
+  accepted: boolean,
+  usage: FutureUseConsent['usage'] = 'off_session'
+): FutureUseConsent {
+  if (!accepted) {
+    throw new PaymentError(
+      PaymentErrorCode.VALIDATION_ERROR,
+      'The customer must agree to save the payment method'
+    );
+  }
+
+  if (!consentText.trim()) {
+    throw new PaymentError(
+      PaymentErrorCode.VALIDATION_ERROR,
+      'Consent text is required'
+    );
+  }
+
+  return {
+    consentText,
+    acceptedAt: new Date().toISOString(),
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : '',
+    usage
+  };
+}
+
+/**
+ * Vault a Braintree nonce for a customer, verifying the card first
+ * Calls POST /api/payments/braintree/payment-methods; the backend runs
+ * paymentMethod.create with verifyCard and returns the payment method token
+ */
+export async function saveBraintreePaymentMethod(
+  nonce: string,
+  request: FutureUseSetupRequest,
+  adapter: EnvironmentAdapter
+): Promise<FutureUseSetupResult> {
+  const data = await vaultRequest(
+    '/api/payments/braintree/payment-methods',
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        customerId: request.customerId,
+        paymentMethodNonce: nonce,
+        verifyCard: true,
+        makeDefault: request.makeDefault,
+        consent: request.consent
+      })
+    },
+    adapter,
+    'save Braintree payment method'
+  );
+
+  if (!data.token) {
+    throw new PaymentError(
+      PaymentErrorCode.TOKENIZATION_FAILED,
+      data.verification?.status
+        ? `Card verification failed: ${data.verification.status}`
+        : 'Invalid response: payment method token missing',
+      data
+    );
+  }
+
+  return {
+    gatewayName: 'Braintree',
+    customerId: request.customerId,
+    paymentMethodId: data.token,
+    paymentMethod: data.paymentMethod && toSavedPaymentMethod(data.paymentMethod),
+    consent: request.consent
+  };
+}
+
+/**
+ * Store Accept.js opaque data as an Authorize.Net CIM payment profile
+ * Calls POST /api/payments/authorizenet/customer-profiles; the backend creates the
+ * customer profile if needed and validates the card with validationMode liveMode
+ */
+export async function createAuthorizeNetPaymentProfile(
+  opaqueData: AuthorizeNetOpaqueData,
+  request: FutureUseSetupRequest,
+  adapter: EnvironmentAdapter
+): Promise<FutureUseSetupResult> {
+  const data = await vaultRequest(
+    '/api/payments/authorizenet/customer-profiles',
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        customerId: request.customerId,
+        opaqueData,
+        validationMode: 'liveMode',
+        makeDefault: request.makeDefault,
+        consent: request.consent
+      })
+    },
+    adapter,
+    'create Authorize.Net payment profile'
+  );
+
+  if (!data.customerProfileId || !data.paymentProfileId) {
+    throw new PaymentError(
+      PaymentErrorCode.TOKENIZATION_FAILED,
+      'Invalid response: customerProfileId or paymentProfileId missing',
+      data
+    );
+  }
+
+  return {
+    gatewayName: 'Authorize.Net',
+    customerId: request.customerId,
+    paymentMethodId: data.paymentProfileId,
+    customerProfileId: data.customerProfileId,
+    paymentMethod: data.paymentMethod && toSavedPaymentMethod(data.paymentMethod),
+    consent: request.consent
+  };
+}
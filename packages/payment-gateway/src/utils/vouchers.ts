@@ -0,0 +1,241 @@
+/**
+ * Cash Voucher Payment Methods
+ * OXXO, Boleto and Konbini voucher details and status polling through Stripe
+ */
+
+import {
+  EnvironmentAdapter,
+  PendingPaymentResult,
+  PendingPaymentStatus,
+  StripeVoucherNextAction,
+  VoucherDetails,
+  VoucherPaymentMethodType,
+  VoucherPaymentRequest
+} from '../types';
+import { formatCurrency, getCurrencyDecimals } from './currency';
+import { logger } from './logger';
+import { retrievePaymentIntentStatus } from './stripe-redirect';
+
+export interface VoucherPaymentMethodInfo {
+  name: string;
+  currency: string;
+  country: string;
+  /** Amount limits in major units */
+  minAmount: number;
+  maxAmount: number;
+}
+
+/**
+ * Supported voucher methods with their currency, country and amount restrictions
+ */
+export const VOUCHER_PAYMENT_METHODS: Record<VoucherPaymentMethodType, VoucherPaymentMethodInfo> = {
+  oxxo: { name: 'OXXO', currency: 'MXN', country: 'MX', minAmount: 10, maxAmount: 10000 },
+  boleto: { name: 'Boleto', currency: 'BRL', country: 'BR', minAmount: 5, maxAmount: 49999.99 },
+  konbini: { name: 'Konbini', currency: 'JPY', country: 'JP', minAmount: 120, maxAmount: 300000 }
+};
+
+export interface PendingPaymentPollOptions {
+  /** Delay between status checks in ms (default: 10000) */
+  intervalMs?: number;
+  /** Give up after this many checks and return the pending result (default: 60) */
+  maxAttempts?: number;
+  /** Called after every status check */
+  onStatusChange?: (result: PendingPaymentResult) => void;
+}
+
+/**
+ * Get the voucher methods available for a currency and customer country
+ */
+export function getAvailableVoucherMethods(
+  currency: string,
+  country: string
+): VoucherPaymentMethodType[] {
+  return (Object.keys(VOUCHER_PAYMENT_METHODS) as VoucherPaymentMethodType[]).filter((type) => {
+    const method = VOUCHER_PAYMENT_METHODS[type];
+    return method.currency === currency.toUpperCase() && method.country === country.toUpperCase();
+  });
+}
+
+/**
+ * Validate a voucher payment request
+ */
+export function validateVoucherPaymentRequest(request: VoucherPaymentRequest): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const method = VOUCHER_PAYMENT_METHODS[request.paymentMethodType];
+
+  if (!method) {
+    errors.push(`Unsupported voucher payment method: ${request.paymentMethodType}`);
+    return { isValid: false, errors };
+  }
+
+  if (request.currency?.toUpperCase() !== method.currency) {
+    errors.push(`${method.name} requires ${method.currency}`);
+  } else if (!(request.amount >= method.minAmount && request.amount <= method.maxAmount)) {
+    const format = (amount: number) => formatCurrency(amount, {
+      currency: method.currency,
+      decimals: getCurrencyDecimals(method.currency)
+    });
+    errors.push(`${method.name} requires an amount between ${format(method.minAmount)} and ${format(method.maxAmount)}`);
+  }
+
+  if (!request.billingDetails?.name?.trim()) {
+    errors.push('Billing name is required');
+  }
+
+  if (!request.billingDetails?.email?.trim()) {
+    errors.push('Billing email is required');
+  }
+
+  if (request.paymentMethodType === 'boleto') {
+    const taxId = (request.taxId || '').replace(/\D/g, '');
+
+    if (taxId.length !== 11 && taxId.length !== 14) {
+      errors.push('Boleto requires a CPF (11 digits) or CNPJ (14 digits)');
+    }
+
+    if (!request.billingDetails?.address) {
+      errors.push('Billing address is required for Boleto');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Read the voucher details from a PaymentIntent next_action
+ * Returns null if the next action has no display details for the method
+ */
+export function toVoucherDetails(
+  paymentMethodType: VoucherPaymentMethodType,
+  nextAction?: StripeVoucherNextAction
+): VoucherDetails | null {
+  switch (paymentMethodType) {
+    case 'oxxo': {
+      const details = nextAction?.oxxo_display_details;
+      return details
+        ? {
+          number: details.number,
+          barcode: details.number,
+          expiresAt: new Date(details.expires_after * 1000).toISOString(),
+          hostedVoucherUrl: details.hosted_voucher_url
+        }
+        : null;
+    }
+
+    case 'boleto': {
+      const details = nextAction?.boleto_display_details;
+      return details
+        ? {
+          number: details.number,
+          barcode: details.number.replace(/\D/g, ''),
+          expiresAt: new Date(details.expires_at * 1000).toISOString(),
+          hostedVoucherUrl: details.hosted_voucher_url,
+          pdfUrl: details.pdf
+        }
+        : null;
+    }
+
+    case 'konbini': {
+      const details = nextAction?.konbini_display_details;
+      // Stores share one payment code in practice; take the first one offered
+      const store = details && Object.values(details.stores).find((candidate) => candidate?.payment_code);
+      return details && store
+        ? {
+          number: store.payment_code,
+          expiresAt: new Date(details.expires_at * 1000).toISOString(),
+          hostedVoucherUrl: details.hosted_voucher_url,
+          confirmationNumber: store.confirmation_number
+        }
+        : null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check if a voucher can no longer be paid
+ */
+export function isVoucherExpired(voucher: VoucherDetails, now = Date.now()): boolean {
+  return new Date(voucher.expiresAt).getTime() <= now;
+}
+
+/**
+ * Map a PaymentIntent status to a pending payment status
+ * An unpaid voucher returns the PaymentIntent to requires_payment_method once it expires
+ */
+function toPendingPaymentStatus(status: string, voucher: VoucherDetails): PendingPaymentStatus {
+  switch (status) {
+    case 'succeeded':
+    case 'requires_capture':
+      return 'succeeded';
+    case 'requires_action':
+    case 'processing':
+      return 'pending';
+    case 'requires_payment_method':
+    case 'canceled':
+      return isVoucherExpired(voucher) ? 'expired' : 'failed';
+    default:
+      return 'failed';
+  }
+}
+
+/**
+ * Check the current status of a pending voucher payment with the backend
+ */
+export async function retrievePendingPaymentStatus(
+  result: PendingPaymentResult,
+  adapter: EnvironmentAdapter
+): Promise<PendingPaymentResult> {
+  const status = await retrievePaymentIntentStatus(result.paymentIntentId, adapter);
+
+  return {
+    ...result,
+    status: toPendingPaymentStatus(status, result.voucher)
+  };
+}
+
+/**
+ * Poll the backend until a voucher payment is paid, expires or fails
+ * Returns the last pending result if maxAttempts is reached first
+ */
+export async function pollPendingPayment(
+  result: PendingPaymentResult,
+  adapter: EnvironmentAdapter,
+  options: PendingPaymentPollOptions = {}
+): Promise<PendingPaymentResult> {
+  const { intervalMs = 10000, maxAttempts = 60, onStatusChange } = options;
+  let current = result;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    current = await retrievePendingPaymentStatus(current, adapter);
+    onStatusChange?.(current);
+
+    if (current.status !== 'pending') {
+      logger.info('Voucher payment settled', {
+        paymentIntentId: current.paymentIntentId,
+        status: current.status,
+        attempts: attempt
+      }, 'Stripe');
+      return current;
+    }
+
+    if (attempt < maxAttempts) {
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+  }
+
+  logger.debug('Voucher payment still pending', {
+    paymentIntentId: current.paymentIntentId,
+    attempts: maxAttempts
+  }, 'Stripe');
+
+  return current;
+}
@@ -0,0 +1,259 @@
+/**
+ * Apple Pay / Google Pay Wallets
+ * Shared helpers for presenting wallet sheets; each gateway tokenizes the result
+ */
+
+import {
+  ApplePayPaymentRequest,
+  ApplePayPaymentToken,
+  EnvironmentAdapter,
+  GatewayName,
+  GatewayProvider,
+  GooglePayTransactionInfo,
+  GooglePaymentsClient,
+  PaymentError,
+  PaymentErrorCode,
+  TokenResult,
+  WalletAvailability,
+  WalletPaymentRequest,
+  WalletProvider,
+  WalletType
+} from '../types';
+import { ScriptLoader } from './index';
+import { getCurrencyDecimals } from './currency';
+import { getGatewayEnvironment } from './environment';
+import { logger } from './logger';
+
+export const APPLE_PAY_VERSION = 3;
+export const GOOGLE_PAY_JS_URL = 'https://pay.google.com/gp/p/js/pay.js';
+export const GOOGLE_PAY_API_VERSION = { apiVersion: 2, apiVersionMinor: 0 };
+
+const APPLE_PAY_NETWORKS = ['visa', 'masterCard', 'amex', 'discover'];
+const APPLE_PAY_CAPABILITIES = ['supports3DS'];
+
+export const NO_WALLETS: WalletAvailability = { applePay: false, googlePay: false };
+
+/**
+ * Check if a provider implements the wallet extension
+ */
+export function supportsWallets(
+  provider: GatewayProvider
+): provider is GatewayProvider & WalletProvider {
+  const candidate = provider as Partial<WalletProvider>;
+  return typeof candidate.canMakeWalletPayment === 'function'
+    && typeof candidate.tokenizeWallet === 'function';
+}
+
+/**
+ * Format an amount for a wallet sheet, e.g. 49.99 USD -> "49.99", 500 JPY -> "500"
+ */
+export function formatWalletAmount(amount: number, currency: string): string {
+  return amount.toFixed(getCurrencyDecimals(currency));
+}
+
+/**
+ * Check if Apple Pay can be presented in this browser
+ */
+export function isApplePayAvailable(): boolean {
+  try {
+    return typeof window !== 'undefined'
+      && !!window.ApplePaySession
+      && window.ApplePaySession.supportsVersion(APPLE_PAY_VERSION)
+      && window.ApplePaySession.canMakePayments();
+  } catch {
+    // ApplePaySession throws outside secure contexts
+    return false;
+  }
+}
+
+/**
+ * Pick the wallet to present: the requested one, or the first available
+ */
+export function selectWalletType(
+  request: WalletPaymentRequest,
+  availability: WalletAvailability,
+  gateway: GatewayName
+): WalletType {
+  const walletType = request.walletType
+    || (Object.keys(availability) as WalletType[]).find((type) => availability[type]);
+
+  if (!walletType || !availability[walletType]) {
+    throw new PaymentError(
+      PaymentErrorCode.NOT_SUPPORTED,
+      `${request.walletType || 'Wallet payments'} not available for ${gateway} in this browser`,
+      { availability }
+    );
+  }
+
+  return walletType;
+}
+
+/**
+ * Build an Apple Pay payment request
+ */
+export function createApplePayRequest(request: WalletPaymentRequest): ApplePayPaymentRequest {
+  return {
+    countryCode: request.country.toUpperCase(),
+    currencyCode: request.currency.toUpperCase(),
+    total: {
+      label: request.label,
+      amount: formatWalletAmount(request.amount, request.currency)
+    },
+    supportedNetworks: APPLE_PAY_NETWORKS,
+    merchantCapabilities: APPLE_PAY_CAPABILITIES
+  };
+}
+
+/**
+ * Build Google Pay transaction info
+ */
+export function createGooglePayTransactionInfo(request: WalletPaymentRequest): GooglePayTransactionInfo {
+  return {
+    currencyCode: request.currency.toUpperCase(),
+    countryCode: request.country.toUpperCase(),
+    totalPriceStatus: 'FINAL',
+    totalPrice: formatWalletAmount(request.amount, request.currency)
+  };
+}
+
+/**
+ * Wrap a wallet failure as a PaymentError
+ */
+export function toWalletError(error: unknown, message: string): PaymentError {
+  if (error instanceof PaymentError) {
+    return error;
+  }
+
+  // Google Pay rejects loadPaymentData with statusCode CANCELED when the sheet is closed
+  if ((error as { statusCode?: string } | null)?.statusCode === 'CANCELED') {
+    return new PaymentError(PaymentErrorCode.CANCELED, 'Customer canceled Google Pay', error);
+  }
+
+  return new PaymentError(PaymentErrorCode.TOKENIZATION_FAILED, message, error);
+}
+
+/**
+ * Run the request's onAuthorized callback with a wallet token
+ * Resolves with the token once the payment succeeded, so the sheet can report success
+ */
+export async function completeWalletPayment<T extends TokenResult>(
+  request: WalletPaymentRequest,
+  token: T
+): Promise<T> {
+  if (!request.onAuthorized) {
+    return token;
+  }
+
+  let succeeded: boolean;
+
+  try {
+    succeeded = await request.onAuthorized(token);
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      throw error;
+    }
+
+    throw new PaymentError(PaymentErrorCode.PAYMENT_FAILED, 'Wallet payment failed', error);
+  }
+
+  if (!succeeded) {
+    throw new PaymentError(PaymentErrorCode.PAYMENT_FAILED, 'Wallet payment was declined');
+  }
+
+  return token;
+}
+
+/**
+ * Present the Apple Pay sheet
+ * Must be called from a user gesture (click handler)
+ *
+ * @param handlers.validateMerchant - Returns the merchant session for the validation URL
+ * @param handlers.authorize - Tokenizes the authorized Apple Pay token; the sheet waits for it
+ */
+export function beginApplePaySession<T>(
+  paymentRequest: ApplePayPaymentRequest,
+  handlers: {
+    validateMerchant: (validationURL: string) => Promise<unknown>;
+    authorize: (token: ApplePayPaymentToken) => Promise<T>;
+  }
+): Promise<T> {
+  const ApplePaySession = window.ApplePaySession;
+
+  if (!ApplePaySession) {
+    return Promise.reject(
+      new PaymentError(PaymentErrorCode.NOT_SUPPORTED, 'Apple Pay is not available in this browser')
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    const session = new ApplePaySession(APPLE_PAY_VERSION, paymentRequest);
+
+    session.onvalidatemerchant = (event) => {
+      handlers.validateMerchant(event.validationURL)
+        .then((merchantSession) => session.completeMerchantValidation(merchantSession))
+        .catch((error) => {
+          logger.error('Apple Pay merchant validation failed', error);
+          session.abort();
+          reject(toWalletError(error, 'Apple Pay merchant validation failed'));
+        });
+    };
+
+    session.onpaymentauthorized = (event) => {
+      handlers.authorize(event.payment.token)
+        .then((result) => {
+          session.completePayment(ApplePaySession.STATUS_SUCCESS);
+          resolve(result);
+        })
+        .catch((error) => {
+          session.completePayment(ApplePaySession.STATUS_FAILURE);
+          reject(toWalletError(error, 'Failed to tokenize Apple Pay payment'));
+        });
+    };
+
+    session.oncancel = () => {
+      reject(new PaymentError(PaymentErrorCode.CANCELED, 'Customer canceled Apple Pay'));
+    };
+
+    session.begin();
+  });
+}
+
+/**
+ * Get the Google Pay merchant ID
+ * Google requires one in production; the TEST environment works without it
+ */
+export function getGooglePayMerchantId(adapter: EnvironmentAdapter): string | undefined {
+  const merchantId = adapter.getConfig('googlePayMerchantId');
+
+  if (!merchantId && getGatewayEnvironment(adapter) === 'production') {
+    throw new PaymentError(
+      PaymentErrorCode.CONFIG_MISSING,
+      'Missing Google Pay configuration: googlePayMerchantId required in production'
+    );
+  }
+
+  return merchantId;
+}
+
+/**
+ * Load pay.js and create a Google Pay client for the configured environment
+ */
+export async function createGooglePaymentsClient(
+  adapter: EnvironmentAdapter,
+  scripts: ScriptLoader
+): Promise<GooglePaymentsClient> {
+  await scripts.load(GOOGLE_PAY_JS_URL, adapter);
+
+  const PaymentsClient = window.google?.payments?.api?.PaymentsClient;
+
+  if (!PaymentsClient) {
+    throw new PaymentError(
+      PaymentErrorCode.SDK_LOAD_FAILED,
+      'Google Pay loaded but google.payments.api is undefined'
+    );
+  }
+
+  return new PaymentsClient({
+    environment: getGatewayEnvironment(adapter) === 'sandbox' ? 'TEST' : 'PRODUCTION'
+  });
+}